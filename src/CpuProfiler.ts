@@ -0,0 +1,61 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type {CDPSession, Page, Protocol} from './third_party/index.js';
+
+/**
+ * Records CPU profiles of a page with the Profiler domain on a dedicated CDP
+ * session that is only attached while a profile is being recorded.
+ */
+export class CpuProfiler {
+  #page: Page;
+  #session?: CDPSession;
+
+  constructor(page: Page) {
+    this.#page = page;
+  }
+
+  isRunning(): boolean {
+    return this.#session !== undefined;
+  }
+
+  async start(samplingInterval?: number): Promise<void> {
+    if (this.#session) {
+      throw new Error(
+        'A CPU profile is already being recorded for the selected page. Use stop_cpu_profile to stop it.',
+      );
+    }
+    const session = await this.#page.createCDPSession();
+    try {
+      await session.send('Profiler.enable');
+      if (samplingInterval !== undefined) {
+        await session.send('Profiler.setSamplingInterval', {
+          interval: samplingInterval,
+        });
+      }
+      await session.send('Profiler.start');
+    } catch (error) {
+      await session.detach();
+      throw error;
+    }
+    this.#session = session;
+  }
+
+  async stop(): Promise<Protocol.Profiler.Profile> {
+    const session = this.#session;
+    if (!session) {
+      throw new Error(
+        'No CPU profile is being recorded for the selected page. Use start_cpu_profile to start one.',
+      );
+    }
+    this.#session = undefined;
+    try {
+      const {profile} = await session.send('Profiler.stop');
+      return profile;
+    } finally {
+      await session.detach();
+    }
+  }
+}
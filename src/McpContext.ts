@@ -9,31 +9,51 @@ import path from 'node:path';
 
 import {type AggregatedIssue} from '../node_modules/chrome-devtools-frontend/mcp/mcp.js';
 
+import {CpuProfiler} from './CpuProfiler.js';
 import {extractUrlLikeFromDevToolsTitle, urlsEqual} from './DevtoolsUtils.js';
+import type {Mutex} from './Mutex.js';
+import type {NetworkRoute, NetworkRouteOptions} from './NetworkRouter.js';
+import {NetworkRouter} from './NetworkRouter.js';
 import type {ListenerMap} from './PageCollector.js';
 import {NetworkCollector, ConsoleCollector} from './PageCollector.js';
-import {Locator} from './third_party/index.js';
+import {PageDebugger} from './PageDebugger.js';
+import {Locator, PredefinedNetworkConditions} from './third_party/index.js';
 import type {
   Browser,
+  BrowserContext,
   ConsoleMessage,
   Debugger,
+  Device,
   Dialog,
   ElementHandle,
   HTTPRequest,
+  MediaFeature,
   Page,
   SerializedAXNode,
-  PredefinedNetworkConditions,
 } from './third_party/index.js';
 import {listPages} from './tools/pages.js';
 import {takeSnapshot} from './tools/snapshot.js';
 import {CLOSE_PAGE_ERROR} from './tools/ToolDefinition.js';
-import type {Context, DevToolsData} from './tools/ToolDefinition.js';
+import type {
+  Context,
+  DevToolsData,
+  FileWriter,
+} from './tools/ToolDefinition.js';
+import {TouchEmulator} from './TouchEmulator.js';
 import type {TraceResult} from './trace-processing/parse.js';
+import type {NetworkProfile} from './utils/networkProfiles.js';
+import {getNetworkMultiplier} from './utils/networkProfiles.js';
 import {WaitForHelper} from './WaitForHelper.js';
+import {WebVitalsCollector} from './WebVitalsCollector.js';
 
-export interface TextSnapshotNode extends SerializedAXNode {
-  id: string;
+// Puppeteer sets the backendNodeId of the nodes but does not declare it.
+interface AXNode extends SerializedAXNode {
   backendNodeId?: number;
+  children?: AXNode[];
+}
+
+export interface TextSnapshotNode extends AXNode {
+  id: string;
   children: TextSnapshotNode[];
 }
 
@@ -48,32 +68,58 @@ export interface TextSnapshot {
   verbose: boolean;
 }
 
+export interface EmulatedDevice extends Device {
+  // The name in KnownDevices or a name for a custom device.
+  name: string;
+}
+
+export interface GeolocationEmulation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+}
+
+export type PermissionState = 'granted' | 'denied' | 'prompt';
+
+export interface PermissionOverride {
+  origin: string;
+  permission: string;
+  state: Exclude<PermissionState, 'prompt'>;
+}
+
+export interface StoredTrace {
+  id: number;
+  result: TraceResult;
+  // Where the trace comes from, e.g. the URL of the recorded page or the file
+  // it was loaded from.
+  source: string;
+  // The raw trace events. Only kept for the most recent traces.
+  rawData?: Uint8Array;
+}
+
 interface McpContextOptions {
   // Whether the DevTools windows are exposed as pages for debugging of DevTools.
   experimentalDevToolsDebugging: boolean;
   // Whether all page-like targets are exposed as pages.
   experimentalIncludeAllPages?: boolean;
+  // Restricts the context to the pages of a browser context. If omitted, all
+  // pages of the browser are exposed.
+  browserContext?: BrowserContext;
+  // Whether snapshots included after input actions only list the changes since
+  // the previous snapshot.
+  snapshotDiff?: boolean;
+  // Custom network throttling profiles by name, in addition to Puppeteer's
+  // predefined network conditions.
+  networkProfiles?: Record<string, NetworkProfile>;
+  // The number of most recent traces whose raw events are kept in memory.
+  rawTraceLimit?: number;
+  // The mutex that runs the tool calls of the session one at a time.
+  toolMutex?: Mutex;
 }
 
 const DEFAULT_TIMEOUT = 5_000;
 const NAVIGATION_TIMEOUT = 10_000;
-
-function getNetworkMultiplierFromString(condition: string | null): number {
-  const puppeteerCondition =
-    condition as keyof typeof PredefinedNetworkConditions;
-
-  switch (puppeteerCondition) {
-    case 'Fast 4G':
-      return 1;
-    case 'Slow 4G':
-      return 2.5;
-    case 'Fast 3G':
-      return 5;
-    case 'Slow 3G':
-      return 10;
-  }
-  return 1;
-}
+const DEFAULT_RAW_TRACE_LIMIT = 3;
 
 function getExtensionFromMimeType(mimeType: string) {
   switch (mimeType) {
@@ -95,18 +141,52 @@ export class McpContext implements Context {
   #pages: Page[] = [];
   #pageToDevToolsPage = new Map<Page, Page>();
   #selectedPage?: Page;
-  // The most recent snapshot.
+  // The most recent snapshot, also the ones tools only take to look up
+  // elements.
   #textSnapshot: TextSnapshot | null = null;
+  #textSnapshotPage?: Page;
+  // The last snapshot sent to the client, which later snapshots are diffed
+  // against.
+  #reportedTextSnapshot: TextSnapshot | null = null;
+  #reportedTextSnapshotPage?: Page;
+  #stableUids = new WeakMap<
+    Page,
+    {
+      documentNodeId?: number;
+      uids: Map<number, string>;
+      backendNodeIds: Map<string, number>;
+    }
+  >();
   #networkCollector: NetworkCollector;
   #consoleCollector: ConsoleCollector;
 
-  #isRunningTrace = false;
+  // Identifies the running performance trace, if any.
+  #runningTraceId?: number;
+  #nextRunningTraceId = 1;
+  // The output of a trace that stopped automatically in the background.
+  #unreportedTraceOutput?: string[];
+  #pagesWithCoverage = new WeakSet<Page>();
   #networkConditionsMap = new WeakMap<Page, string>();
+  #networkProfileMap = new WeakMap<Page, NetworkProfile>();
   #cpuThrottlingRateMap = new WeakMap<Page, number>();
+  #emulatedDeviceMap = new WeakMap<Page, EmulatedDevice>();
+  #geolocationMap = new WeakMap<Page, GeolocationEmulation>();
+  #timezoneMap = new WeakMap<Page, string>();
+  #localeMap = new WeakMap<Page, string>();
+  #permissionOverridesMap = new WeakMap<Page, PermissionOverride[]>();
+  #mediaTypeMap = new WeakMap<Page, string>();
+  #mediaFeaturesMap = new WeakMap<Page, MediaFeature[]>();
+  #visionDeficiencyMap = new WeakMap<Page, string>();
+  #networkRouters = new WeakMap<Page, NetworkRouter>();
+  #pageDebuggers = new WeakMap<Page, PageDebugger>();
+  #touchEmulators = new WeakMap<Page, TouchEmulator>();
+  #cpuProfilers = new WeakMap<Page, CpuProfiler>();
+  #webVitalsCollectors = new WeakMap<Page, WebVitalsCollector>();
   #dialog?: Dialog;
 
   #nextSnapshotId = 1;
-  #traceResults: TraceResult[] = [];
+  #traces: StoredTrace[] = [];
+  #nextTraceId = 1;
 
   #locatorClass: typeof Locator;
   #options: McpContextOptions;
@@ -123,13 +203,13 @@ export class McpContext implements Context {
     this.#options = options;
 
     this.#networkCollector = new NetworkCollector(
-      this.browser,
+      this.#pageSource,
       undefined,
       this.#options.experimentalIncludeAllPages,
     );
 
     this.#consoleCollector = new ConsoleCollector(
-      this.browser,
+      this.#pageSource,
       collect => {
         return {
           console: event => {
@@ -164,6 +244,10 @@ export class McpContext implements Context {
     this.#consoleCollector.dispose();
   }
 
+  get #pageSource(): Browser | BrowserContext {
+    return this.#options.browserContext ?? this.browser;
+  }
+
   static async from(
     browser: Browser,
     logger: Debugger,
@@ -198,18 +282,16 @@ export class McpContext implements Context {
       this.logger('no cdpBackendNodeId');
       return;
     }
-    // TODO: index by backendNodeId instead.
-    const queue = [this.#textSnapshot?.root];
-    while (queue.length) {
-      const current = queue.pop()!;
-      if (current.backendNodeId === cdpBackendNodeId) {
-        return current.id;
-      }
-      for (const child of current.children) {
-        queue.push(child);
-      }
+    if (!this.#textSnapshotPage) {
+      return;
     }
-    return;
+    const uid = this.#stableUids
+      .get(this.#textSnapshotPage)
+      ?.uids.get(cdpBackendNodeId);
+    if (!uid || !this.#textSnapshot?.idToNode.has(uid)) {
+      return;
+    }
+    return uid;
   }
 
   getNetworkRequests(includePreservedRequests?: boolean): HTTPRequest[] {
@@ -217,6 +299,10 @@ export class McpContext implements Context {
     return this.#networkCollector.getData(page, includePreservedRequests);
   }
 
+  getNetworkRequestStartTime(request: HTTPRequest): number | undefined {
+    return this.#networkCollector.getCollectedTime(request);
+  }
+
   getConsoleData(
     includePreservedMessages?: boolean,
   ): Array<ConsoleMessage | Error | AggregatedIssue> {
@@ -235,7 +321,7 @@ export class McpContext implements Context {
   }
 
   async newPage(): Promise<Page> {
-    const page = await this.browser.newPage();
+    const page = await this.#pageSource.newPage();
     await this.createPagesSnapshot();
     this.selectPage(page);
     this.#networkCollector.addPage(page);
@@ -254,16 +340,52 @@ export class McpContext implements Context {
     return this.#networkCollector.getById(this.getSelectedPage(), reqid);
   }
 
-  setNetworkConditions(conditions: string | null): void {
+  setNetworkConditions(
+    conditions: string | null,
+    profile = conditions ? this.getNetworkProfile(conditions) : undefined,
+  ): void {
     const page = this.getSelectedPage();
     if (conditions === null) {
       this.#networkConditionsMap.delete(page);
     } else {
       this.#networkConditionsMap.set(page, conditions);
     }
+    if (profile) {
+      this.#networkProfileMap.set(page, profile);
+    } else {
+      this.#networkProfileMap.delete(page);
+    }
     this.#updateSelectedPageTimeouts();
   }
 
+  /**
+   * Returns the custom network profile or Puppeteer's predefined network
+   * conditions with the given name.
+   */
+  getNetworkProfile(name: string): NetworkProfile | undefined {
+    const customProfiles = this.#options.networkProfiles ?? {};
+    if (Object.hasOwn(customProfiles, name)) {
+      return customProfiles[name];
+    }
+    if (Object.hasOwn(PredefinedNetworkConditions, name)) {
+      return PredefinedNetworkConditions[
+        name as keyof typeof PredefinedNetworkConditions
+      ];
+    }
+    return;
+  }
+
+  getNetworkProfileNames(): string[] {
+    return [
+      ...Object.keys(PredefinedNetworkConditions),
+      ...Object.keys(this.#options.networkProfiles ?? {}),
+    ];
+  }
+
+  #getNetworkMultiplier(page: Page): number {
+    return getNetworkMultiplier(this.#networkProfileMap.get(page) ?? null);
+  }
+
   getNetworkConditions(): string | null {
     const page = this.getSelectedPage();
     return this.#networkConditionsMap.get(page) ?? null;
@@ -280,12 +402,242 @@ export class McpContext implements Context {
     return this.#cpuThrottlingRateMap.get(page) ?? 1;
   }
 
+  setEmulatedDevice(device: EmulatedDevice | null): void {
+    const page = this.getSelectedPage();
+    if (device === null) {
+      this.#emulatedDeviceMap.delete(page);
+    } else {
+      this.#emulatedDeviceMap.set(page, device);
+    }
+  }
+
+  getEmulatedDevice(): EmulatedDevice | null {
+    const page = this.getSelectedPage();
+    return this.#emulatedDeviceMap.get(page) ?? null;
+  }
+
+  setGeolocation(geolocation: GeolocationEmulation | null): void {
+    const page = this.getSelectedPage();
+    if (geolocation === null) {
+      this.#geolocationMap.delete(page);
+    } else {
+      this.#geolocationMap.set(page, geolocation);
+    }
+  }
+
+  getGeolocation(): GeolocationEmulation | null {
+    const page = this.getSelectedPage();
+    return this.#geolocationMap.get(page) ?? null;
+  }
+
+  setTimezone(timezoneId: string | null): void {
+    const page = this.getSelectedPage();
+    if (timezoneId === null) {
+      this.#timezoneMap.delete(page);
+    } else {
+      this.#timezoneMap.set(page, timezoneId);
+    }
+  }
+
+  getTimezone(): string | null {
+    const page = this.getSelectedPage();
+    return this.#timezoneMap.get(page) ?? null;
+  }
+
+  setLocale(locale: string | null): void {
+    const page = this.getSelectedPage();
+    if (locale === null) {
+      this.#localeMap.delete(page);
+    } else {
+      this.#localeMap.set(page, locale);
+    }
+  }
+
+  getLocale(): string | null {
+    const page = this.getSelectedPage();
+    return this.#localeMap.get(page) ?? null;
+  }
+
+  setPermission(
+    origin: string,
+    permission: string,
+    state: PermissionState,
+  ): void {
+    const page = this.getSelectedPage();
+    const overrides = (this.#permissionOverridesMap.get(page) ?? []).filter(
+      override =>
+        override.origin !== origin || override.permission !== permission,
+    );
+    if (state !== 'prompt') {
+      overrides.push({origin, permission, state});
+    }
+    this.#permissionOverridesMap.set(page, overrides);
+  }
+
+  getPermissionOverrides(): PermissionOverride[] {
+    const page = this.getSelectedPage();
+    return this.#permissionOverridesMap.get(page) ?? [];
+  }
+
+  setMediaType(mediaType: string | null): void {
+    const page = this.getSelectedPage();
+    if (mediaType === null) {
+      this.#mediaTypeMap.delete(page);
+    } else {
+      this.#mediaTypeMap.set(page, mediaType);
+    }
+  }
+
+  getMediaType(): string | null {
+    const page = this.getSelectedPage();
+    return this.#mediaTypeMap.get(page) ?? null;
+  }
+
+  setMediaFeatures(features: MediaFeature[]): void {
+    const page = this.getSelectedPage();
+    if (!features.length) {
+      this.#mediaFeaturesMap.delete(page);
+    } else {
+      this.#mediaFeaturesMap.set(page, features);
+    }
+  }
+
+  getMediaFeatures(): MediaFeature[] {
+    const page = this.getSelectedPage();
+    return this.#mediaFeaturesMap.get(page) ?? [];
+  }
+
+  setVisionDeficiency(type: string | null): void {
+    const page = this.getSelectedPage();
+    if (type === null) {
+      this.#visionDeficiencyMap.delete(page);
+    } else {
+      this.#visionDeficiencyMap.set(page, type);
+    }
+  }
+
+  getVisionDeficiency(): string | null {
+    const page = this.getSelectedPage();
+    return this.#visionDeficiencyMap.get(page) ?? null;
+  }
+
+  #getNetworkRouter(page: Page): NetworkRouter {
+    let router = this.#networkRouters.get(page);
+    if (!router) {
+      router = new NetworkRouter(page);
+      this.#networkRouters.set(page, router);
+    }
+    return router;
+  }
+
+  addNetworkRoute(options: NetworkRouteOptions): Promise<NetworkRoute> {
+    return this.#getNetworkRouter(this.getSelectedPage()).addRoute(options);
+  }
+
+  removeNetworkRoute(id: number): Promise<void> {
+    return this.#getNetworkRouter(this.getSelectedPage()).removeRoute(id);
+  }
+
+  getNetworkRoutes(): NetworkRoute[] {
+    return this.#networkRouters.get(this.getSelectedPage())?.getRoutes() ?? [];
+  }
+
+  getNetworkRouteForRequest(request: HTTPRequest): NetworkRoute | undefined {
+    return this.#networkRouters
+      .get(this.getSelectedPage())
+      ?.getRouteForRequest(request);
+  }
+
+  getPageDebugger(): PageDebugger {
+    const page = this.getSelectedPage();
+    let pageDebugger = this.#pageDebuggers.get(page);
+    if (!pageDebugger) {
+      pageDebugger = new PageDebugger(page);
+      this.#pageDebuggers.set(page, pageDebugger);
+    }
+    return pageDebugger;
+  }
+
+  getTouchEmulator(): TouchEmulator {
+    const page = this.getSelectedPage();
+    let touchEmulator = this.#touchEmulators.get(page);
+    if (!touchEmulator) {
+      touchEmulator = new TouchEmulator(page);
+      this.#touchEmulators.set(page, touchEmulator);
+    }
+    return touchEmulator;
+  }
+
+  getCpuProfiler(): CpuProfiler {
+    const page = this.getSelectedPage();
+    let cpuProfiler = this.#cpuProfilers.get(page);
+    if (!cpuProfiler) {
+      cpuProfiler = new CpuProfiler(page);
+      this.#cpuProfilers.set(page, cpuProfiler);
+    }
+    return cpuProfiler;
+  }
+
+  getWebVitalsCollector(): WebVitalsCollector {
+    const page = this.getSelectedPage();
+    let webVitalsCollector = this.#webVitalsCollectors.get(page);
+    if (!webVitalsCollector) {
+      webVitalsCollector = new WebVitalsCollector(page);
+      this.#webVitalsCollectors.set(page, webVitalsCollector);
+    }
+    return webVitalsCollector;
+  }
+
+  setIsRunningCoverage(x: boolean): void {
+    const page = this.getSelectedPage();
+    if (x) {
+      this.#pagesWithCoverage.add(page);
+    } else {
+      this.#pagesWithCoverage.delete(page);
+    }
+  }
+
+  isRunningCoverage(): boolean {
+    return this.#pagesWithCoverage.has(this.getSelectedPage());
+  }
+
   setIsRunningPerformanceTrace(x: boolean): void {
-    this.#isRunningTrace = x;
+    this.#runningTraceId = x ? this.#nextRunningTraceId++ : undefined;
   }
 
   isRunningPerformanceTrace(): boolean {
-    return this.#isRunningTrace;
+    return this.#runningTraceId !== undefined;
+  }
+
+  /**
+   * Returns an id that changes every time a performance trace starts, or
+   * undefined if no trace is running.
+   */
+  getRunningPerformanceTraceId(): number | undefined {
+    return this.#runningTraceId;
+  }
+
+  setUnreportedTraceOutput(lines: string[]): void {
+    this.#unreportedTraceOutput = lines;
+  }
+
+  takeUnreportedTraceOutput(): string[] | undefined {
+    const lines = this.#unreportedTraceOutput;
+    this.#unreportedTraceOutput = undefined;
+    return lines;
+  }
+
+  /**
+   * Runs work that does not come from a tool call, e.g. from a timer, once no
+   * tool call of the session is running. Must not be called by tools.
+   */
+  async runExclusive<T>(action: () => Promise<T>): Promise<T> {
+    const guard = await this.#options.toolMutex?.acquire();
+    try {
+      return await action();
+    } finally {
+      guard?.dispose();
+    }
   }
 
   getDialog(): Dialog | undefined {
@@ -345,9 +697,7 @@ export class McpContext implements Context {
     // 10sec should be enough for the load event to be emitted during
     // navigations.
     // Increased in case we throttle the network requests
-    const networkMultiplier = getNetworkMultiplierFromString(
-      this.getNetworkConditions(),
-    );
+    const networkMultiplier = this.#getNetworkMultiplier(page);
     page.setDefaultNavigationTimeout(NAVIGATION_TIMEOUT * networkMultiplier);
   }
 
@@ -366,30 +716,55 @@ export class McpContext implements Context {
         `No snapshot found. Use ${takeSnapshot.name} to capture one.`,
       );
     }
-    const [snapshotId] = uid.split('_');
 
-    if (this.#textSnapshot.snapshotId !== snapshotId) {
-      throw new Error(
-        'This uid is coming from a stale snapshot. Call take_snapshot to get a fresh snapshot.',
-      );
+    let node = this.#textSnapshot.idToNode.get(uid);
+    if (!node && this.#isKnownUid(uid)) {
+      // The uid is from an earlier snapshot. The element might still be on the
+      // page, e.g. if the latest snapshot only listed changes.
+      await this.createTextSnapshot(this.#textSnapshot.verbose);
+      node = this.#textSnapshot?.idToNode.get(uid);
+      if (!node) {
+        throw new Error(
+          `The element with uid ${uid} is no longer on the page. Call ${takeSnapshot.name} to get the current elements.`,
+        );
+      }
     }
-
-    const node = this.#textSnapshot?.idToNode.get(uid);
     if (!node) {
       throw new Error('No such element found in the snapshot');
     }
     const handle = await node.elementHandle();
     if (!handle) {
-      throw new Error('No such element found in the snapshot');
+      throw new Error(
+        `The element with uid ${uid} is no longer on the page. Call ${takeSnapshot.name} to get the current elements.`,
+      );
     }
     return handle;
   }
 
+  #isKnownUid(uid: string): boolean {
+    const page = this.getSelectedPage();
+    return this.#stableUids.get(page)?.backendNodeIds.has(uid) ?? false;
+  }
+
+  /**
+   * Returns the uids assigned to the DOM nodes of the page's current document.
+   * backendNodeIds are only unique within a renderer process, so the uids are
+   * reset when the document changes.
+   */
+  #getStableUids(page: Page, documentNodeId?: number) {
+    let stableUids = this.#stableUids.get(page);
+    if (!stableUids || stableUids.documentNodeId !== documentNodeId) {
+      stableUids = {documentNodeId, uids: new Map(), backendNodeIds: new Map()};
+      this.#stableUids.set(page, stableUids);
+    }
+    return stableUids;
+  }
+
   /**
    * Creates a snapshot of the pages.
    */
   async createPagesSnapshot(): Promise<Page[]> {
-    const allPages = await this.browser.pages(
+    const allPages = await this.#pageSource.pages(
       this.#options.experimentalIncludeAllPages,
     );
 
@@ -493,7 +868,7 @@ export class McpContext implements Context {
     devtoolsData: DevToolsData | undefined = undefined,
   ): Promise<void> {
     const page = this.getSelectedPage();
-    const rootNode = await page.accessibility.snapshot({
+    const rootNode: AXNode | null = await page.accessibility.snapshot({
       includeIframes: true,
       interestingOnly: !verbose,
     });
@@ -504,12 +879,30 @@ export class McpContext implements Context {
     const snapshotId = this.#nextSnapshotId++;
     // Iterate through the whole accessibility node tree and assign node ids that
     // will be used for the tree serialization and mapping ids back to nodes.
+    // Nodes keep the id they got in earlier snapshots of the same document.
+    const {uids: stableUids, backendNodeIds} = this.#getStableUids(
+      page,
+      rootNode.backendNodeId,
+    );
     let idCounter = 0;
     const idToNode = new Map<string, TextSnapshotNode>();
-    const assignIds = (node: SerializedAXNode): TextSnapshotNode => {
+    const getId = (backendNodeId?: number): string => {
+      const stableUid =
+        backendNodeId !== undefined ? stableUids.get(backendNodeId) : undefined;
+      if (stableUid && !idToNode.has(stableUid)) {
+        return stableUid;
+      }
+      const id = `${snapshotId}_${idCounter++}`;
+      if (backendNodeId !== undefined && !stableUid) {
+        stableUids.set(backendNodeId, id);
+        backendNodeIds.set(id, backendNodeId);
+      }
+      return id;
+    };
+    const assignIds = (node: AXNode): TextSnapshotNode => {
       const nodeWithId: TextSnapshotNode = {
         ...node,
-        id: `${snapshotId}_${idCounter++}`,
+        id: getId(node.backendNodeId),
         children: node.children
           ? node.children.map(child => assignIds(child))
           : [],
@@ -529,6 +922,7 @@ export class McpContext implements Context {
     };
 
     const rootNodeWithId = assignIds(rootNode);
+    this.#textSnapshotPage = page;
     this.#textSnapshot = {
       root: rootNodeWithId,
       snapshotId: String(snapshotId),
@@ -549,6 +943,32 @@ export class McpContext implements Context {
     return this.#textSnapshot;
   }
 
+  /**
+   * Returns the last snapshot sent to the client if it is of the same page and
+   * verbosity as the most recent one, so that the two can be diffed.
+   */
+  getReportedTextSnapshot(): TextSnapshot | null {
+    if (
+      this.#reportedTextSnapshotPage !== this.#textSnapshotPage ||
+      this.#reportedTextSnapshot?.verbose !== this.#textSnapshot?.verbose
+    ) {
+      return null;
+    }
+    return this.#reportedTextSnapshot;
+  }
+
+  /**
+   * Records that the most recent snapshot was sent to the client.
+   */
+  markTextSnapshotReported(): void {
+    this.#reportedTextSnapshot = this.#textSnapshot;
+    this.#reportedTextSnapshotPage = this.#textSnapshotPage;
+  }
+
+  isSnapshotDiffDefault(): boolean {
+    return this.#options.snapshotDiff ?? false;
+  }
+
   async saveTemporaryFile(
     data: Uint8Array<ArrayBufferLike>,
     mimeType: 'image/png' | 'image/jpeg' | 'image/webp',
@@ -569,6 +989,65 @@ export class McpContext implements Context {
       throw new Error('Could not save a screenshot to a file', {cause: err});
     }
   }
+  async loadFile(filename: string): Promise<Uint8Array> {
+    try {
+      return await fs.readFile(path.resolve(filename));
+    } catch (err) {
+      this.logger(err);
+      throw new Error(`Could not read the file ${filename}`, {cause: err});
+    }
+  }
+
+  /**
+   * Reads a file in chunks, so that large files do not have to be held in
+   * memory.
+   */
+  async *readFileChunks(filename: string): AsyncGenerator<string> {
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(path.resolve(filename));
+    } catch (err) {
+      this.logger(err);
+      throw new Error(`Could not read the file ${filename}`, {cause: err});
+    }
+    try {
+      for await (const chunk of handle.createReadStream({
+        encoding: 'utf8',
+        autoClose: false,
+      })) {
+        yield chunk as string;
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+
+  async createFileWriter(filename: string): Promise<FileWriter> {
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(path.resolve(filename), 'w');
+    } catch (err) {
+      this.logger(err);
+      throw new Error(`Could not save to the file ${filename}`, {cause: err});
+    }
+    let writes = Promise.resolve();
+    return {
+      filename,
+      write: chunk => {
+        writes = writes.then(async () => {
+          await handle.write(chunk);
+        });
+      },
+      close: async () => {
+        try {
+          await writes;
+        } finally {
+          await handle.close();
+        }
+      },
+    };
+  }
+
   async saveFile(
     data: Uint8Array<ArrayBufferLike>,
     filename: string,
@@ -583,12 +1062,54 @@ export class McpContext implements Context {
     }
   }
 
-  storeTraceRecording(result: TraceResult): void {
-    this.#traceResults.push(result);
+  storeTraceRecording(
+    result: TraceResult,
+    source = 'Unknown',
+    rawData?: Uint8Array,
+  ): StoredTrace {
+    const trace: StoredTrace = {id: this.#nextTraceId++, result, source};
+    if (rawData) {
+      trace.rawData = rawData;
+    }
+    this.#traces.push(trace);
+    // Drop the raw events of older traces to bound the memory usage.
+    const rawTraceLimit =
+      this.#options.rawTraceLimit ?? DEFAULT_RAW_TRACE_LIMIT;
+    const tracesWithRawData = this.#traces.filter(trace => trace.rawData);
+    for (const trace of tracesWithRawData.slice(
+      0,
+      Math.max(tracesWithRawData.length - rawTraceLimit, 0),
+    )) {
+      delete trace.rawData;
+    }
+    return trace;
   }
 
   recordedTraces(): TraceResult[] {
-    return this.#traceResults;
+    return this.#traces.map(trace => trace.result);
+  }
+
+  getStoredTraces(): StoredTrace[] {
+    return this.#traces;
+  }
+
+  getStoredTrace(id?: number): StoredTrace {
+    if (id === undefined) {
+      const trace = this.#traces.at(-1);
+      if (!trace) {
+        throw new Error(
+          'No recorded traces found. Record a performance trace so you have Insights to analyze.',
+        );
+      }
+      return trace;
+    }
+    const trace = this.#traces.find(trace => trace.id === id);
+    if (!trace) {
+      throw new Error(
+        `No trace with id ${id} found. Use performance_list_traces to list the available traces.`,
+      );
+    }
+    return trace;
   }
 
   getWaitForHelper(
@@ -602,15 +1123,16 @@ export class McpContext implements Context {
   waitForEventsAfterAction(action: () => Promise<unknown>): Promise<void> {
     const page = this.getSelectedPage();
     const cpuMultiplier = this.getCpuThrottlingRate();
-    const networkMultiplier = getNetworkMultiplierFromString(
-      this.getNetworkConditions(),
-    );
+    const networkMultiplier = this.#getNetworkMultiplier(page);
     const waitForHelper = this.getWaitForHelper(
       page,
       cpuMultiplier,
       networkMultiplier,
     );
-    return waitForHelper.waitForEventsAfterAction(action);
+    return waitForHelper.waitForEventsAfterAction(
+      action,
+      this.#pageDebuggers.get(page)?.waitForPause(),
+    );
   }
 
   getNetworkRequestStableId(request: HTTPRequest): number {
@@ -645,7 +1167,7 @@ export class McpContext implements Context {
    * We need to ignore favicon request as they make our test flaky
    */
   async setUpNetworkCollectorForTesting() {
-    this.#networkCollector = new NetworkCollector(this.browser, collect => {
+    this.#networkCollector = new NetworkCollector(this.#pageSource, collect => {
       return {
         request: req => {
           if (req.url().includes('favicon.ico')) {
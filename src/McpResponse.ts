@@ -9,11 +9,16 @@ import {
   findTitleFromMarkdownAst,
 } from '../node_modules/chrome-devtools-frontend/mcp/mcp.js';
 
-import type {ConsoleMessageData} from './formatters/consoleFormatter.js';
+import type {
+  ConsoleMessageData,
+  ConsoleStackFrame,
+} from './formatters/consoleFormatter.js';
 import {
   formatConsoleEventShort,
   formatConsoleEventVerbose,
+  parseErrorStack,
 } from './formatters/consoleFormatter.js';
+import {getFormattedPausedState} from './formatters/debuggerFormatter.js';
 import {
   getFormattedHeaderValue,
   getFormattedResponseBody,
@@ -21,16 +26,23 @@ import {
   getShortDescriptionForRequest,
   getStatusFromRequest,
 } from './formatters/networkFormatter.js';
-import {formatSnapshotNode} from './formatters/snapshotFormatter.js';
+import {
+  formatSnapshotDiff,
+  formatSnapshotNode,
+  isSameDocument,
+} from './formatters/snapshotFormatter.js';
 import {getIssueDescription} from './issue-descriptions.js';
 import {logger} from './logger.js';
 import type {McpContext} from './McpContext.js';
 import type {
   ConsoleMessage,
   ImageContent,
+  Protocol,
   ResourceType,
   TextContent,
+  Viewport,
 } from './third_party/index.js';
+import {resume, stepInto, stepOut, stepOver} from './tools/debugger.js';
 import {handleDialog} from './tools/pages.js';
 import type {
   DevToolsData,
@@ -192,6 +204,7 @@ export class McpResponse implements Response {
     }
 
     let formattedSnapshot: string | undefined;
+    let snapshotIsDiff = false;
     if (this.#snapshotParams) {
       await context.createTextSnapshot(
         this.#snapshotParams.verbose,
@@ -208,8 +221,21 @@ export class McpResponse implements Response {
           );
           formattedSnapshot = `Saved snapshot to ${this.#snapshotParams.filePath}.`;
         } else {
-          formattedSnapshot = formatSnapshotNode(snapshot.root, snapshot);
+          const previousSnapshot = context.getReportedTextSnapshot();
+          const diff =
+            this.#snapshotParams.diff ?? context.isSnapshotDiffDefault();
+          if (
+            diff &&
+            previousSnapshot &&
+            isSameDocument(previousSnapshot, snapshot)
+          ) {
+            snapshotIsDiff = true;
+            formattedSnapshot = formatSnapshotDiff(previousSnapshot, snapshot);
+          } else {
+            formattedSnapshot = formatSnapshotNode(snapshot.root, snapshot);
+          }
         }
+        context.markTextSnapshotReported();
       }
     }
 
@@ -254,13 +280,22 @@ export class McpResponse implements Response {
                 : String(stringArg);
             }),
           ),
+          stackTrace: await this.#resolveStackTrace(
+            context,
+            getConsoleMessageStackFrames(consoleMessage),
+          ),
         };
       } else {
+        const error = message as Error;
         consoleData = {
           consoleMessageStableId,
           type: 'error',
-          message: (message as Error).message,
+          message: error.message,
           args: [],
+          stackTrace: await this.#resolveStackTrace(
+            context,
+            parseErrorStack(error.stack ?? ''),
+          ),
         };
       }
     }
@@ -343,14 +378,50 @@ export class McpResponse implements Response {
       ).filter(item => item !== null);
     }
 
+    const pausedState = await getFormattedPausedState(
+      context.getPageDebugger(),
+    );
+
     return this.format(toolName, context, {
       bodies,
       consoleData,
       consoleListData,
       formattedSnapshot,
+      snapshotIsDiff,
+      pausedState,
     });
   }
 
+  async #resolveStackTrace(
+    context: McpContext,
+    frames: ConsoleStackFrame[],
+  ): Promise<ConsoleStackFrame[]> {
+    const pageDebugger = context.getPageDebugger();
+    return await Promise.all(
+      frames
+        .filter(frame => frame.url)
+        .map(async frame => {
+          try {
+            const original = await pageDebugger.resolveLocation(
+              frame.url,
+              frame.lineNumber,
+              frame.columnNumber,
+            );
+            return {
+              functionName: frame.functionName,
+              url: frame.url,
+              lineNumber: frame.lineNumber,
+              columnNumber: frame.columnNumber,
+              original,
+            };
+          } catch (error) {
+            logger('Failed to resolve stack frame', error);
+            return frame;
+          }
+        }),
+    );
+  }
+
   format(
     toolName: string,
     context: McpContext,
@@ -362,6 +433,8 @@ export class McpResponse implements Response {
       consoleData: ConsoleMessageData | undefined;
       consoleListData: ConsoleMessageData[] | undefined;
       formattedSnapshot: string | undefined;
+      snapshotIsDiff?: boolean;
+      pausedState?: string[];
     },
   ): Array<TextContent | ImageContent> {
     const response = [`# ${toolName} response`];
@@ -384,6 +457,69 @@ export class McpResponse implements Response {
       response.push(`Emulating: ${cpuThrottlingRate}x slowdown`);
     }
 
+    const device = context.getEmulatedDevice();
+    if (device) {
+      response.push(`## Device emulation`);
+      response.push(
+        `Emulating: ${device.name} (${formatViewport(device.viewport)})`,
+      );
+      if (device.userAgent) {
+        response.push(`User agent: ${device.userAgent}`);
+      }
+    }
+
+    const geolocation = context.getGeolocation();
+    if (geolocation) {
+      response.push(`## Geolocation emulation`);
+      response.push(
+        `Emulating: latitude=${geolocation.latitude} longitude=${geolocation.longitude}${
+          geolocation.accuracy !== undefined
+            ? ` accuracy=${geolocation.accuracy}`
+            : ''
+        }`,
+      );
+    }
+
+    const timezone = context.getTimezone();
+    if (timezone) {
+      response.push(`## Timezone emulation`);
+      response.push(`Emulating: ${timezone}`);
+    }
+
+    const locale = context.getLocale();
+    if (locale) {
+      response.push(`## Locale emulation`);
+      response.push(`Emulating: ${locale}`);
+    }
+
+    const mediaType = context.getMediaType();
+    const mediaFeatures = context.getMediaFeatures();
+    if (mediaType || mediaFeatures.length) {
+      response.push(`## Media emulation`);
+      if (mediaType) {
+        response.push(`Media type: ${mediaType}`);
+      }
+      for (const feature of mediaFeatures) {
+        response.push(`${feature.name}: ${feature.value}`);
+      }
+    }
+
+    const visionDeficiency = context.getVisionDeficiency();
+    if (visionDeficiency) {
+      response.push(`## Vision deficiency emulation`);
+      response.push(`Emulating: ${visionDeficiency}`);
+    }
+
+    const permissionOverrides = context.getPermissionOverrides();
+    if (permissionOverrides.length) {
+      response.push(`## Permission overrides`);
+      for (const override of permissionOverrides) {
+        response.push(
+          `${override.permission}: ${override.state} for ${override.origin}`,
+        );
+      }
+    }
+
     const dialog = context.getDialog();
     if (dialog) {
       const defaultValueIfNeeded =
@@ -395,6 +531,14 @@ ${dialog.type()}: ${dialog.message()}${defaultValueIfNeeded}.
 Call ${handleDialog.name} to handle it before continuing.`);
     }
 
+    if (data.pausedState?.length) {
+      response.push(`# Paused in debugger`);
+      response.push(...data.pausedState);
+      response.push(
+        `Call ${resume.name}, ${stepOver.name}, ${stepInto.name} or ${stepOut.name} to continue.`,
+      );
+    }
+
     if (this.#includePages) {
       const parts = [`## Pages`];
       let idx = 0;
@@ -407,7 +551,13 @@ Call ${handleDialog.name} to handle it before continuing.`);
       response.push(...parts);
     }
 
-    if (data.formattedSnapshot) {
+    if (data.formattedSnapshot && data.snapshotIsDiff) {
+      response.push('## Latest page snapshot changes');
+      response.push(
+        'Lists the nodes added (+), removed (-) or changed (~) since the previous snapshot along with their ancestors. Call take_snapshot for the full snapshot.',
+      );
+      response.push(data.formattedSnapshot);
+    } else if (data.formattedSnapshot) {
       response.push('## Latest page snapshot');
       response.push(data.formattedSnapshot);
     }
@@ -445,6 +595,7 @@ Call ${handleDialog.name} to handle it before continuing.`);
               context.getNetworkRequestStableId(request),
               context.getNetworkRequestStableId(request) ===
                 this.#networkRequestsOptions?.networkRequestIdInDevToolsUI,
+              context.getNetworkRouteForRequest(request),
             ),
           );
         }
@@ -584,3 +735,41 @@ Call ${handleDialog.name} to handle it before continuing.`);
     this.#textResponseLines = [];
   }
 }
+
+function getConsoleMessageStackFrames(
+  message: ConsoleMessage,
+): ConsoleStackFrame[] {
+  // The raw stack trace includes function names (internal Puppeteer API).
+  const rawStackTrace = (
+    message as ConsoleMessage & {
+      _rawStackTrace?: () => Protocol.Runtime.StackTrace | undefined;
+    }
+  )._rawStackTrace?.();
+  if (rawStackTrace) {
+    return rawStackTrace.callFrames;
+  }
+  return message.stackTrace().map(location => {
+    return {
+      url: location.url ?? '',
+      lineNumber: location.lineNumber ?? 0,
+      columnNumber: location.columnNumber ?? 0,
+    };
+  });
+}
+
+function formatViewport(viewport: Viewport): string {
+  const features = [
+    `${viewport.width}x${viewport.height}`,
+    `deviceScaleFactor ${viewport.deviceScaleFactor ?? 1}`,
+  ];
+  if (viewport.isMobile) {
+    features.push('mobile');
+  }
+  if (viewport.hasTouch) {
+    features.push('touch');
+  }
+  if (viewport.isLandscape) {
+    features.push('landscape');
+  }
+  return features.join(', ');
+}
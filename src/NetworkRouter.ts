@@ -0,0 +1,185 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type {Har} from './har.js';
+import {findHarEntry, getResponseForHarEntry} from './har.js';
+import {logger} from './logger.js';
+import type {ErrorCode, HTTPRequest, Page} from './third_party/index.js';
+
+// Resolutions of the routes take precedence over the default continue().
+const ROUTE_RESOLUTION_PRIORITY = 1;
+
+export type NetworkRouteAction = 'fulfill' | 'abort' | 'continue' | 'replay';
+
+export interface NetworkRouteOptions {
+  /**
+   * A glob pattern (`*` matches any characters) or a regular expression
+   * enclosed in slashes that is matched against the full request URL.
+   */
+  url: string;
+  action: NetworkRouteAction;
+  status?: number;
+  headers?: Record<string, string>;
+  body?: string;
+  errorReason?: ErrorCode;
+  /** The recorded responses to serve (only action=replay). */
+  har?: Har;
+  /** The file the HAR was loaded from (only action=replay). */
+  harFile?: string;
+  /**
+   * What to do with matching requests that are not in the HAR (only
+   * action=replay). Default is abort.
+   */
+  notFound?: 'abort' | 'continue';
+}
+
+export interface NetworkRoute extends NetworkRouteOptions {
+  id: number;
+  hitCount: number;
+}
+
+export function urlPatternToRegExp(pattern: string): RegExp {
+  const regexLiteral = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  if (regexLiteral) {
+    // The g and y flags make test() stateful, so that a route would only
+    // match every other request.
+    const flags = regexLiteral[2].replace(/[gy]/g, '');
+    try {
+      return new RegExp(regexLiteral[1], flags);
+    } catch (error) {
+      throw new Error(`Invalid regular expression ${pattern}`, {
+        cause: error,
+      });
+    }
+  }
+  let source = '';
+  for (const char of pattern) {
+    if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Intercepts the requests of a page and resolves the ones matching a route.
+ * Request interception is only enabled while there are routes.
+ */
+export class NetworkRouter {
+  #page: Page;
+  #routes: Array<{route: NetworkRoute; regExp: RegExp}> = [];
+  #matchedRoutes = new WeakMap<HTTPRequest, NetworkRoute>();
+  #nextRouteId = 1;
+
+  constructor(page: Page) {
+    this.#page = page;
+  }
+
+  async addRoute(options: NetworkRouteOptions): Promise<NetworkRoute> {
+    const regExp = urlPatternToRegExp(options.url);
+    const route: NetworkRoute = {
+      ...options,
+      id: this.#nextRouteId++,
+      hitCount: 0,
+    };
+    // Routes added last take precedence.
+    this.#routes.unshift({route, regExp});
+    if (this.#routes.length === 1) {
+      this.#page.on('request', this.#onRequest);
+      await this.#page.setRequestInterception(true);
+    }
+    return route;
+  }
+
+  async removeRoute(id: number): Promise<void> {
+    const index = this.#routes.findIndex(({route}) => route.id === id);
+    if (index === -1) {
+      throw new Error(`No network route with id ${id} found.`);
+    }
+    this.#routes.splice(index, 1);
+    if (!this.#routes.length) {
+      this.#page.off('request', this.#onRequest);
+      await this.#page.setRequestInterception(false);
+    }
+  }
+
+  getRoutes(): NetworkRoute[] {
+    return this.#routes.map(({route}) => route).toReversed();
+  }
+
+  getRouteForRequest(request: HTTPRequest): NetworkRoute | undefined {
+    return this.#matchedRoutes.get(request);
+  }
+
+  #onRequest = (request: HTTPRequest): void => {
+    if (request.isInterceptResolutionHandled()) {
+      return;
+    }
+    const url = request.url();
+    const route = this.#routes.find(({regExp}) => regExp.test(url))?.route;
+    if (!route) {
+      void request.continue(request.continueRequestOverrides(), 0);
+      return;
+    }
+    route.hitCount++;
+    this.#matchedRoutes.set(request, route);
+    void this.#resolve(request, route).catch(error => {
+      logger(`Failed to apply network route ${route.id} to ${url}`, error);
+    });
+  };
+
+  async #resolve(request: HTTPRequest, route: NetworkRoute): Promise<void> {
+    switch (route.action) {
+      case 'fulfill':
+        return await request.respond(
+          {
+            status: route.status ?? 200,
+            headers: route.headers,
+            body: route.body ?? '',
+          },
+          ROUTE_RESOLUTION_PRIORITY,
+        );
+      case 'abort':
+        return await request.abort(
+          route.errorReason ?? 'failed',
+          ROUTE_RESOLUTION_PRIORITY,
+        );
+      case 'continue':
+        return await request.continue(
+          {
+            headers: {
+              ...request.headers(),
+              ...route.headers,
+            },
+          },
+          ROUTE_RESOLUTION_PRIORITY,
+        );
+      case 'replay':
+        return await this.#replay(request, route);
+    }
+  }
+
+  async #replay(request: HTTPRequest, route: NetworkRoute): Promise<void> {
+    const entry = route.har ? findHarEntry(route.har, request) : undefined;
+    if (entry && entry.response.status) {
+      return await request.respond(
+        getResponseForHarEntry(entry),
+        ROUTE_RESOLUTION_PRIORITY,
+      );
+    }
+    if (entry || route.notFound !== 'continue') {
+      // Recorded requests without a response failed when recording.
+      return await request.abort('failed', ROUTE_RESOLUTION_PRIORITY);
+    }
+    return await request.continue(
+      request.continueRequestOverrides(),
+      ROUTE_RESOLUTION_PRIORITY,
+    );
+  }
+}
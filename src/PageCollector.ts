@@ -19,6 +19,7 @@ import {FakeIssuesManager} from './DevtoolsUtils.js';
 import {features} from './features.js';
 import {logger} from './logger.js';
 import type {
+  BrowserContext,
   CDPSession,
   ConsoleMessage,
   Protocol,
@@ -52,12 +53,14 @@ function createIdGenerator() {
 }
 
 export const stableIdSymbol = Symbol('stableIdSymbol');
+const collectedTimeSymbol = Symbol('collectedTimeSymbol');
 type WithSymbolId<T> = T & {
   [stableIdSymbol]?: number;
+  [collectedTimeSymbol]?: number;
 };
 
 export class PageCollector<T> {
-  #browser: Browser;
+  #browser: Browser | BrowserContext;
   #listenersInitializer: (
     collector: (item: T) => void,
   ) => ListenerMap<PageEvents>;
@@ -73,7 +76,7 @@ export class PageCollector<T> {
   protected storage = new WeakMap<Page, Array<Array<WithSymbolId<T>>>>();
 
   constructor(
-    browser: Browser,
+    browser: Browser | BrowserContext,
     listeners: (collector: (item: T) => void) => ListenerMap<PageEvents>,
     includeAllPages?: boolean,
   ) {
@@ -128,6 +131,7 @@ export class PageCollector<T> {
     const listeners = this.#listenersInitializer(value => {
       const withId = value as WithSymbolId<T>;
       withId[stableIdSymbol] = idGenerator();
+      withId[collectedTimeSymbol] = Date.now();
 
       const navigations = this.storage.get(page) ?? [[]];
       navigations[0].push(withId);
@@ -191,6 +195,14 @@ export class PageCollector<T> {
     return resource[stableIdSymbol] ?? -1;
   }
 
+  /**
+   * Returns the wall-clock time in milliseconds at which the resource was
+   * collected.
+   */
+  getCollectedTime(resource: WithSymbolId<T>): number | undefined {
+    return resource[collectedTimeSymbol];
+  }
+
   getById(page: Page, stableId: number): T {
     const navigations = this.storage.get(page);
     if (!navigations) {
@@ -359,7 +371,7 @@ class PageIssueSubscriber {
 
 export class NetworkCollector extends PageCollector<HTTPRequest> {
   constructor(
-    browser: Browser,
+    browser: Browser | BrowserContext,
     listeners: (
       collector: (item: HTTPRequest) => void,
     ) => ListenerMap<PageEvents> = collect => {
@@ -0,0 +1,353 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {logger} from './logger.js';
+import type {CDPSession, Page, Protocol} from './third_party/index.js';
+import type {OriginalLocation, SourceMapPayload} from './utils/sourceMap.js';
+import {SourceMap} from './utils/sourceMap.js';
+
+export interface BreakpointOptions {
+  url: string;
+  /** 1-based line number. */
+  lineNumber: number;
+  /** 1-based column number. */
+  columnNumber?: number;
+  condition?: string;
+}
+
+export interface Breakpoint extends BreakpointOptions {
+  id: number;
+  /** The locations in loaded scripts the breakpoint resolved to. */
+  locations: Protocol.Debugger.Location[];
+}
+
+export interface ScopeVariables {
+  type: Protocol.Debugger.Scope['type'];
+  name?: string;
+  variables: Protocol.Runtime.PropertyDescriptor[];
+}
+
+/**
+ * Drives the CDP Debugger domain of a page on a dedicated session. The
+ * domain is only enabled once a debugger feature is used. Pauses are skipped
+ * while there are no breakpoints so that resolving source maps does not stop
+ * the page on `debugger` statements.
+ */
+export class PageDebugger {
+  #page: Page;
+  #session?: Promise<CDPSession>;
+  #scripts = new Map<string, Protocol.Debugger.ScriptParsedEvent>();
+  #sourceMaps = new Map<string, Promise<SourceMap | undefined>>();
+  #breakpoints = new Map<number, Breakpoint>();
+  #cdpBreakpointIds = new Map<number, string>();
+  #nextBreakpointId = 1;
+  #paused?: Protocol.Debugger.PausedEvent;
+  #nextPause = Promise.withResolvers<void>();
+
+  constructor(page: Page) {
+    this.#page = page;
+  }
+
+  #getSession(): Promise<CDPSession> {
+    this.#session ??= this.#enable().catch(error => {
+      this.#session = undefined;
+      throw error;
+    });
+    return this.#session;
+  }
+
+  async #enable(): Promise<CDPSession> {
+    const session = await this.#page.createCDPSession();
+    session.on('Debugger.scriptParsed', event => {
+      this.#scripts.set(event.scriptId, event);
+    });
+    session.on('Debugger.globalObjectCleared', () => {
+      this.#scripts.clear();
+      this.#sourceMaps.clear();
+      this.#paused = undefined;
+      // Breakpoints resolve again once the new scripts are parsed.
+      for (const breakpoint of this.#breakpoints.values()) {
+        breakpoint.locations = [];
+      }
+    });
+    session.on('Debugger.breakpointResolved', event => {
+      for (const [id, cdpId] of this.#cdpBreakpointIds) {
+        if (cdpId === event.breakpointId) {
+          this.#breakpoints.get(id)?.locations.push(event.location);
+        }
+      }
+    });
+    session.on('Debugger.paused', event => {
+      this.#paused = event;
+      this.#nextPause.resolve();
+      this.#nextPause = Promise.withResolvers<void>();
+    });
+    session.on('Debugger.resumed', () => {
+      this.#paused = undefined;
+    });
+    await session.send('Debugger.enable');
+    await this.#updateSkipAllPauses(session);
+    return session;
+  }
+
+  async #updateSkipAllPauses(session: CDPSession): Promise<void> {
+    await session.send('Debugger.setSkipAllPauses', {
+      skip: !this.#breakpoints.size,
+    });
+  }
+
+  async setBreakpoint(options: BreakpointOptions): Promise<Breakpoint> {
+    const session = await this.#getSession();
+    const {breakpointId, locations} = await session.send(
+      'Debugger.setBreakpointByUrl',
+      {
+        url: options.url,
+        lineNumber: options.lineNumber - 1,
+        columnNumber:
+          options.columnNumber !== undefined
+            ? options.columnNumber - 1
+            : undefined,
+        condition: options.condition,
+      },
+    );
+    const breakpoint: Breakpoint = {
+      ...options,
+      id: this.#nextBreakpointId++,
+      locations,
+    };
+    this.#breakpoints.set(breakpoint.id, breakpoint);
+    this.#cdpBreakpointIds.set(breakpoint.id, breakpointId);
+    await this.#updateSkipAllPauses(session);
+    return breakpoint;
+  }
+
+  async removeBreakpoint(id: number): Promise<void> {
+    const cdpBreakpointId = this.#cdpBreakpointIds.get(id);
+    if (!cdpBreakpointId) {
+      throw new Error(`No breakpoint with id ${id} found.`);
+    }
+    const session = await this.#getSession();
+    await session.send('Debugger.removeBreakpoint', {
+      breakpointId: cdpBreakpointId,
+    });
+    this.#breakpoints.delete(id);
+    this.#cdpBreakpointIds.delete(id);
+    await this.#updateSkipAllPauses(session);
+  }
+
+  getBreakpoints(): Breakpoint[] {
+    return [...this.#breakpoints.values()];
+  }
+
+  getBreakpointForCdpId(cdpBreakpointId: string): Breakpoint | undefined {
+    for (const [id, cdpId] of this.#cdpBreakpointIds) {
+      if (cdpId === cdpBreakpointId) {
+        return this.#breakpoints.get(id);
+      }
+    }
+    return;
+  }
+
+  getPausedEvent(): Protocol.Debugger.PausedEvent | undefined {
+    return this.#paused;
+  }
+
+  /**
+   * Resolves the next time the page pauses. Used to stop waiting for an
+   * action that got suspended by a breakpoint.
+   */
+  waitForPause(): Promise<void> {
+    return this.#nextPause.promise;
+  }
+
+  /**
+   * Returns the scripts with a URL parsed since the last navigation.
+   */
+  async getScripts(): Promise<Protocol.Debugger.ScriptParsedEvent[]> {
+    // Enabling the domain reports the scripts parsed so far.
+    await this.#getSession();
+    return [...this.#scripts.values()].filter(script => script.url);
+  }
+
+  getScript(scriptId: string): Protocol.Debugger.ScriptParsedEvent | undefined {
+    return this.#scripts.get(scriptId);
+  }
+
+  getSourceMap(scriptId: string): Promise<SourceMap | undefined> {
+    let sourceMap = this.#sourceMaps.get(scriptId);
+    if (!sourceMap) {
+      sourceMap = this.#loadSourceMap(scriptId);
+      this.#sourceMaps.set(scriptId, sourceMap);
+    }
+    return sourceMap;
+  }
+
+  async #loadSourceMap(scriptId: string): Promise<SourceMap | undefined> {
+    const script = this.#scripts.get(scriptId);
+    if (!script?.sourceMapURL) {
+      return;
+    }
+    try {
+      const sourceMapUrl = new URL(
+        script.sourceMapURL,
+        script.url || undefined,
+      );
+      const payload = JSON.parse(
+        sourceMapUrl.protocol === 'data:'
+          ? await (await fetch(sourceMapUrl)).text()
+          : await this.#loadResource(sourceMapUrl.href, script),
+      ) as SourceMapPayload;
+      return new SourceMap(
+        payload,
+        sourceMapUrl.protocol === 'data:' ? script.url : sourceMapUrl.href,
+      );
+    } catch (error) {
+      logger(`Failed to load the source map of ${script.url}`, error);
+      return;
+    }
+  }
+
+  /**
+   * Loads a resource through the page's network stack, with the page's
+   * cookies and proxy, rather than from the server. The URL comes from the
+   * page, so fetching it from the server would let any page make the server
+   * send requests, for example to internal hosts.
+   */
+  async #loadResource(
+    url: string,
+    script: Protocol.Debugger.ScriptParsedEvent,
+  ): Promise<string> {
+    const session = await this.#getSession();
+    const frameId: string =
+      script.executionContextAuxData?.frameId ??
+      (await session.send('Page.getFrameTree')).frameTree.frame.id;
+    const {resource} = await session.send('Network.loadNetworkResource', {
+      frameId,
+      url,
+      options: {disableCache: false, includeCredentials: true},
+    });
+    if (!resource.success || !resource.stream) {
+      throw new Error(
+        `Failed to load ${url}: ${resource.netErrorName ?? `status ${resource.httpStatusCode}`}`,
+      );
+    }
+    const chunks: Buffer[] = [];
+    try {
+      let eof = false;
+      while (!eof) {
+        const result = await session.send('IO.read', {
+          handle: resource.stream,
+        });
+        chunks.push(
+          Buffer.from(result.data, result.base64Encoded ? 'base64' : 'utf8'),
+        );
+        eof = result.eof;
+      }
+    } finally {
+      await session.send('IO.close', {handle: resource.stream});
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  /**
+   * Maps a 0-based location in a script loaded from `url` to its original
+   * location using the script's source map.
+   */
+  async resolveLocation(
+    url: string,
+    lineNumber: number,
+    columnNumber: number,
+  ): Promise<OriginalLocation | undefined> {
+    const scripts = await this.getScripts();
+    // Documents can contain several inline scripts.
+    const script = scripts.findLast(script => {
+      return (
+        script.url === url &&
+        script.startLine <= lineNumber &&
+        lineNumber <= script.endLine
+      );
+    });
+    if (!script) {
+      return;
+    }
+    const sourceMap = await this.getSourceMap(script.scriptId);
+    return sourceMap?.findOriginalLocation(
+      lineNumber - script.startLine,
+      lineNumber === script.startLine
+        ? columnNumber - script.startColumn
+        : columnNumber,
+    );
+  }
+
+  async getScriptSource(scriptId: string): Promise<string> {
+    const session = await this.#getSession();
+    const {scriptSource} = await session.send('Debugger.getScriptSource', {
+      scriptId,
+    });
+    return scriptSource;
+  }
+
+  async resume(): Promise<void> {
+    await this.#sendWhilePaused('Debugger.resume');
+  }
+
+  async stepOver(): Promise<void> {
+    await this.#sendWhilePaused('Debugger.stepOver');
+  }
+
+  async stepInto(): Promise<void> {
+    await this.#sendWhilePaused('Debugger.stepInto');
+  }
+
+  async stepOut(): Promise<void> {
+    await this.#sendWhilePaused('Debugger.stepOut');
+  }
+
+  async #sendWhilePaused(
+    method:
+      | 'Debugger.resume'
+      | 'Debugger.stepOver'
+      | 'Debugger.stepInto'
+      | 'Debugger.stepOut',
+  ): Promise<void> {
+    this.#assertPaused();
+    const session = await this.#getSession();
+    await session.send(method);
+  }
+
+  #assertPaused(): Protocol.Debugger.PausedEvent {
+    if (!this.#paused) {
+      throw new Error('The selected page is not paused in the debugger.');
+    }
+    return this.#paused;
+  }
+
+  async getScopeVariables(
+    frameIndex: number,
+    includeGlobal = false,
+  ): Promise<ScopeVariables[]> {
+    const {callFrames} = this.#assertPaused();
+    const callFrame = callFrames[frameIndex];
+    if (!callFrame) {
+      throw new Error(
+        `No call frame with index ${frameIndex} found. The call stack has ${callFrames.length} frames.`,
+      );
+    }
+    const session = await this.#getSession();
+    const scopes: ScopeVariables[] = [];
+    for (const scope of callFrame.scopeChain) {
+      if (scope.type === 'global' && !includeGlobal) {
+        continue;
+      }
+      const {result} = await session.send('Runtime.getProperties', {
+        objectId: scope.object.objectId!,
+        ownProperties: true,
+        generatePreview: true,
+      });
+      scopes.push({type: scope.type, name: scope.name, variables: result});
+    }
+    return scopes;
+  }
+}
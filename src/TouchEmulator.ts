@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type {CDPSession, Page, Protocol} from './third_party/index.js';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Roughly one frame, so that pages see the moves of a gesture separately.
+const MOVE_INTERVAL = 16;
+const MAX_TOUCH_POINTS = 2;
+
+/**
+ * Dispatches touch gestures to a page on a dedicated CDP session. Touch
+ * emulation is enabled on the session before the first gesture so that pages
+ * detect touch support.
+ */
+export class TouchEmulator {
+  #page: Page;
+  #session?: Promise<CDPSession>;
+
+  constructor(page: Page) {
+    this.#page = page;
+  }
+
+  #getSession(): Promise<CDPSession> {
+    this.#session ??= this.#enable().catch(error => {
+      this.#session = undefined;
+      throw error;
+    });
+    return this.#session;
+  }
+
+  async #enable(): Promise<CDPSession> {
+    const session = await this.#page.createCDPSession();
+    await session.send('Emulation.setTouchEmulationEnabled', {
+      enabled: true,
+      maxTouchPoints: MAX_TOUCH_POINTS,
+    });
+    return session;
+  }
+
+  async #dispatch(
+    type: Protocol.Input.DispatchTouchEventRequest['type'],
+    points: Point[],
+  ): Promise<void> {
+    const session = await this.#getSession();
+    await session.send('Input.dispatchTouchEvent', {
+      type,
+      touchPoints: points.map((point, id) => ({...point, id})),
+    });
+  }
+
+  /**
+   * Moves the touch points from `from` to `to` in steps over `durationMs`
+   * and lifts them.
+   */
+  async #gesture(from: Point[], to: Point[], durationMs: number) {
+    await this.#dispatch('touchStart', from);
+    const steps = Math.max(Math.round(durationMs / MOVE_INTERVAL), 1);
+    for (let step = 1; step <= steps; step++) {
+      await wait(durationMs / steps);
+      await this.#dispatch(
+        'touchMove',
+        from.map((point, index) => interpolate(point, to[index], step / steps)),
+      );
+    }
+    await this.#dispatch('touchEnd', []);
+  }
+
+  async tap(point: Point): Promise<void> {
+    await this.#dispatch('touchStart', [point]);
+    await this.#dispatch('touchEnd', []);
+  }
+
+  async longPress(point: Point, durationMs: number): Promise<void> {
+    await this.#dispatch('touchStart', [point]);
+    await wait(durationMs);
+    await this.#dispatch('touchEnd', []);
+  }
+
+  async swipe(from: Point, to: Point, durationMs: number): Promise<void> {
+    await this.#gesture([from], [to], durationMs);
+  }
+
+  /**
+   * Moves two fingers placed horizontally around `center` apart (scale > 1)
+   * or together (scale < 1).
+   */
+  async pinch(
+    center: Point,
+    startDistance: number,
+    scale: number,
+    durationMs: number,
+  ): Promise<void> {
+    const fingers = (distance: number): Point[] => [
+      {x: center.x - distance / 2, y: center.y},
+      {x: center.x + distance / 2, y: center.y},
+    ];
+    await this.#gesture(
+      fingers(startDistance),
+      fingers(startDistance * scale),
+      durationMs,
+    );
+  }
+}
+
+function interpolate(from: Point, to: Point, progress: number): Point {
+  return {
+    x: from.x + (to.x - from.x) * progress,
+    y: from.y + (to.y - from.y) * progress,
+  };
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
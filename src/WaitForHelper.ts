@@ -122,9 +122,24 @@ export class WaitForHelper {
     });
   }
 
+  /**
+   * Runs the action and waits for the events it caused to settle. If
+   * `paused` resolves first, e.g. because the action hit a breakpoint, it
+   * stops waiting as the page cannot make progress until it is resumed.
+   */
   async waitForEventsAfterAction(
     action: () => Promise<unknown>,
+    paused?: Promise<void>,
   ): Promise<void> {
+    let isPaused = false;
+    const pausedPromises = paused
+      ? [
+          paused.then(() => {
+            isPaused = true;
+          }),
+        ]
+      : [];
+
     const navigationFinished = this.waitForNavigationStarted()
       .then(navigationStated => {
         if (navigationStated) {
@@ -137,20 +152,32 @@ export class WaitForHelper {
       })
       .catch(error => logger(error));
 
+    const actionPromise = action();
     try {
-      await action();
+      await Promise.race([actionPromise, ...pausedPromises]);
     } catch (error) {
       // Clear up pending promises
       this.#abortController.abort();
       throw error;
     }
+    if (isPaused) {
+      // The action only completes once the page is resumed.
+      void actionPromise.catch(error => logger(error));
+      this.#abortController.abort();
+      return;
+    }
 
     try {
-      await navigationFinished;
-
-      // Wait for stable dom after navigation so we execute in
-      // the correct context
-      await this.waitForStableDom();
+      await Promise.race([
+        (async () => {
+          await navigationFinished;
+
+          // Wait for stable dom after navigation so we execute in
+          // the correct context
+          await this.waitForStableDom();
+        })(),
+        ...pausedPromises,
+      ]);
     } catch (error) {
       logger(error);
     } finally {
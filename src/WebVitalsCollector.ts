@@ -0,0 +1,324 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type {ElementHandle, JSHandle, Page} from './third_party/index.js';
+
+export interface WebVitalsElement {
+  description: string;
+  backendNodeId?: number;
+}
+
+export interface WebVitals {
+  url: string;
+  /** Milliseconds since the navigation started. */
+  lcp?: {value: number; url?: string; element?: WebVitalsElement};
+  cls: {value: number; shiftedElements: WebVitalsElement[]};
+  /** The durations are in milliseconds. */
+  inp?: {
+    value: number;
+    type: string;
+    target?: WebVitalsElement;
+    inputDelay: number;
+    processingDuration: number;
+    presentationDelay: number;
+  };
+  /** Milliseconds since the navigation started. */
+  fcp?: number;
+  /** Milliseconds since the navigation started. */
+  ttfb?: number;
+}
+
+interface LayoutShift extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+  sources: Array<{node: Node | null}>;
+}
+
+interface EventTiming extends PerformanceEventTiming {
+  interactionId: number;
+}
+
+// The state of the collector in a document.
+interface CollectorState {
+  lcp?: LargestContentfulPaint;
+  cls: {value: number; nodes: Node[]};
+  interactions: Map<number, EventTiming>;
+  fcp?: number;
+}
+
+interface CollectedWebVitals {
+  url: string;
+  lcp?: {value: number; url?: string};
+  cls: number;
+  inp?: {
+    value: number;
+    type: string;
+    inputDelay: number;
+    processingDuration: number;
+    presentationDelay: number;
+  };
+  fcp?: number;
+  ttfb?: number;
+}
+
+// The global that the collector stores its state in on each document.
+const STATE_KEY = '__chromeDevToolsMcpWebVitals';
+
+/**
+ * Accumulates the Core Web Vitals of each document with PerformanceObservers.
+ * The observers are buffered, so installing the collector after the page
+ * loaded still captures the values so far. Meant to be run in the page.
+ */
+function collectWebVitals(stateKey: string): void {
+  const global = globalThis as unknown as Record<
+    string,
+    CollectorState | undefined
+  >;
+  if (global[stateKey]) {
+    return;
+  }
+  const state: CollectorState = {
+    cls: {value: 0, nodes: []},
+    interactions: new Map(),
+  };
+  global[stateKey] = state;
+
+  const observe = (
+    type: string,
+    callback: (entries: PerformanceEntry[]) => void,
+    options: Record<string, unknown> = {},
+  ) => {
+    try {
+      new PerformanceObserver(list => callback(list.getEntries())).observe({
+        type,
+        buffered: true,
+        ...options,
+      });
+    } catch {
+      // The entry type is not supported.
+    }
+  };
+
+  observe('largest-contentful-paint', entries => {
+    state.lcp = entries.at(-1) as LargestContentfulPaint;
+  });
+
+  observe('paint', entries => {
+    const fcp = entries.find(entry => entry.name === 'first-contentful-paint');
+    if (fcp) {
+      state.fcp = fcp.startTime;
+    }
+  });
+
+  // Layout shifts are grouped into session windows that end after a 1 second
+  // gap or 5 seconds. CLS is the value of the largest window.
+  let session: LayoutShift[] = [];
+  let sessionValue = 0;
+  observe('layout-shift', entries => {
+    for (const entry of entries as LayoutShift[]) {
+      if (entry.hadRecentInput) {
+        continue;
+      }
+      const first = session[0];
+      const last = session.at(-1);
+      if (
+        first &&
+        last &&
+        entry.startTime - last.startTime < 1000 &&
+        entry.startTime - first.startTime < 5000
+      ) {
+        session.push(entry);
+        sessionValue += entry.value;
+      } else {
+        session = [entry];
+        sessionValue = entry.value;
+      }
+      if (sessionValue > state.cls.value) {
+        const largestShift = session.reduce((a, b) =>
+          b.value > a.value ? b : a,
+        );
+        state.cls = {
+          value: sessionValue,
+          nodes: largestShift.sources
+            .map(source => source.node)
+            .filter((node): node is Node => node !== null),
+        };
+      }
+    }
+  });
+
+  const collectInteractions = (entries: PerformanceEntry[]) => {
+    for (const entry of entries as EventTiming[]) {
+      if (!entry.interactionId) {
+        continue;
+      }
+      const previous = state.interactions.get(entry.interactionId);
+      if (!previous || entry.duration > previous.duration) {
+        state.interactions.set(entry.interactionId, entry);
+      }
+    }
+  };
+  observe('event', collectInteractions, {durationThreshold: 16});
+  observe('first-input', collectInteractions);
+}
+
+/**
+ * Computes the current values from the state of the collector. Meant to be
+ * run in the page. `collected` is null if the collector does not run in the
+ * current document, e.g. because the page does not allow scripts.
+ */
+function readWebVitals(stateKey: string): {
+  collected: CollectedWebVitals | null;
+  lcp: Element | null;
+  inp: Element | null;
+  cls: Element[];
+} {
+  const state = (
+    globalThis as unknown as Record<string, CollectorState | undefined>
+  )[stateKey];
+  if (!state) {
+    return {collected: null, lcp: null, inp: null, cls: []};
+  }
+  const navigation = performance.getEntriesByType('navigation')[0] as
+    (PerformanceNavigationTiming & {activationStart?: number}) | undefined;
+  const activationStart = navigation?.activationStart ?? 0;
+  const sinceActivation = (time: number) => Math.max(time - activationStart, 0);
+  const toElement = (node?: Node | EventTarget | null) =>
+    node instanceof Element
+      ? node
+      : node instanceof Node
+        ? node.parentElement
+        : null;
+
+  // INP is the 98th percentile of the interaction durations, which is
+  // approximated by ignoring the longest interaction for every 50.
+  const interactions = [...state.interactions.values()].sort(
+    (a, b) => b.duration - a.duration,
+  );
+  const interaction =
+    interactions[
+      Math.min(interactions.length - 1, Math.floor(interactions.length / 50))
+    ];
+
+  return {
+    collected: {
+      url: location.href,
+      lcp: state.lcp
+        ? {
+            value: sinceActivation(state.lcp.startTime),
+            url: state.lcp.url || undefined,
+          }
+        : undefined,
+      cls: state.cls.value,
+      inp: interaction
+        ? {
+            value: interaction.duration,
+            type: interaction.name,
+            inputDelay: interaction.processingStart - interaction.startTime,
+            processingDuration:
+              interaction.processingEnd - interaction.processingStart,
+            presentationDelay: Math.max(
+              interaction.startTime +
+                interaction.duration -
+                interaction.processingEnd,
+              0,
+            ),
+          }
+        : undefined,
+      fcp: state.fcp !== undefined ? sinceActivation(state.fcp) : undefined,
+      ttfb: navigation ? sinceActivation(navigation.responseStart) : undefined,
+    },
+    lcp: toElement(state.lcp?.element),
+    inp: toElement(interaction?.target),
+    cls: state.cls.nodes
+      .map(toElement)
+      .filter((element): element is Element => element !== null),
+  };
+}
+
+/**
+ * Injects a web vitals collector into every document of a page and reads the
+ * values it collected from the current document.
+ */
+export class WebVitalsCollector {
+  #page: Page;
+  #installed?: Promise<void>;
+
+  constructor(page: Page) {
+    this.#page = page;
+  }
+
+  #install(): Promise<void> {
+    this.#installed ??= (async () => {
+      await this.#page.evaluateOnNewDocument(collectWebVitals, STATE_KEY);
+      await this.#page.evaluate(collectWebVitals, STATE_KEY);
+    })().catch(error => {
+      this.#installed = undefined;
+      throw error;
+    });
+    return this.#installed;
+  }
+
+  /**
+   * Returns undefined if no web vitals were collected in the current document.
+   */
+  async getWebVitals(): Promise<WebVitals | undefined> {
+    await this.#install();
+    const handle = await this.#page.evaluateHandle(readWebVitals, STATE_KEY);
+    try {
+      const collectedHandle = await handle.getProperty('collected');
+      const collected = await collectedHandle.jsonValue();
+      await collectedHandle.dispose();
+      if (!collected) {
+        return;
+      }
+      const lcpElement = await getElement(await handle.getProperty('lcp'));
+      const inpTarget = await getElement(await handle.getProperty('inp'));
+      const shiftedElements: WebVitalsElement[] = [];
+      const clsHandle = await handle.getProperty('cls');
+      for (const elementHandle of (await clsHandle.getProperties()).values()) {
+        const element = await getElement(elementHandle);
+        if (element) {
+          shiftedElements.push(element);
+        }
+      }
+      await clsHandle.dispose();
+
+      return {
+        url: collected.url,
+        lcp: collected.lcp && {...collected.lcp, element: lcpElement},
+        cls: {value: collected.cls, shiftedElements},
+        inp: collected.inp && {...collected.inp, target: inpTarget},
+        fcp: collected.fcp,
+        ttfb: collected.ttfb,
+      };
+    } finally {
+      await handle.dispose();
+    }
+  }
+}
+
+async function getElement(
+  handle: JSHandle,
+): Promise<WebVitalsElement | undefined> {
+  const element = handle.asElement() as ElementHandle<Element> | null;
+  if (!element) {
+    await handle.dispose();
+    return;
+  }
+  try {
+    const description = await element.evaluate(element => {
+      const id = element.id ? `#${element.id}` : '';
+      const classes = Array.from(element.classList)
+        .slice(0, 2)
+        .map(name => `.${name}`)
+        .join('');
+      return `${element.localName}${id}${classes}`;
+    });
+    return {description, backendNodeId: await element.backendNodeId()};
+  } finally {
+    await element.dispose();
+  }
+}
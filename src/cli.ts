@@ -4,8 +4,11 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import fs from 'node:fs';
+
 import type {YargsOptions} from './third_party/index.js';
 import {yargs, hideBin} from './third_party/index.js';
+import {parseNetworkProfiles} from './utils/networkProfiles.js';
 
 export const cliOptions = {
   browserUrl: {
@@ -145,6 +148,60 @@ export const cliOptions = {
     describe:
       'Additional arguments for Chrome. Only applies when Chrome is launched by chrome-devtools-mcp.',
   },
+  transport: {
+    type: 'string',
+    description:
+      'Transport used to communicate with MCP clients. `stdio` serves a single client that starts the server as a child process. `http` serves the MCP Streamable HTTP transport so that multiple clients can connect to the same browser.',
+    choices: ['stdio', 'http'] as const,
+    default: 'stdio',
+  },
+  port: {
+    type: 'number',
+    description:
+      'Port to listen on when using the `http` transport. Set to 0 to pick a free port.',
+    default: 8000,
+  },
+  host: {
+    type: 'string',
+    description:
+      'Host to listen on when using the `http` transport. Exposing the server beyond localhost gives anyone on the network control over the browser.',
+    default: '127.0.0.1',
+  },
+  isolateSessions: {
+    type: 'boolean',
+    description:
+      'Whether every session of the `http` transport gets its own browser context so that sessions do not share pages, cookies or storage. Set to false to let all sessions work with the same pages.',
+    default: true,
+  },
+  snapshotDiff: {
+    type: 'boolean',
+    description:
+      'Whether the snapshots attached to the responses of input tools only list the nodes that were added, removed or changed since the previous snapshot. take_snapshot returns the full snapshot unless its `diff` parameter is set.',
+    default: false,
+  },
+  networkProfiles: {
+    type: 'string',
+    description:
+      'Path to a JSON file with custom network throttling profiles for the `emulate` tool. The file maps profile names to objects with `download` and `upload` throughput in bytes per second, `latency` in milliseconds and an optional WebRTC `packetLoss` percentage.',
+    coerce: (path: string | undefined) => {
+      if (!path) {
+        return;
+      }
+      try {
+        return parseNetworkProfiles(fs.readFileSync(path, 'utf-8'));
+      } catch (error) {
+        throw new Error(
+          `Invalid network profiles in ${path}: ${(error as Error).message}`,
+        );
+      }
+    },
+  },
+  rawTraceLimit: {
+    type: 'number',
+    description:
+      'The number of most recent performance traces whose raw events are kept in memory so that they can be saved with `performance_save_trace`. Older traces can still be analyzed.',
+    default: 3,
+  },
   categoryEmulation: {
     type: 'boolean',
     default: true,
@@ -206,6 +263,14 @@ export function parseArguments(version: string, argv = process.argv) {
         `$0 --chrome-arg='--no-sandbox' --chrome-arg='--disable-setuid-sandbox'`,
         'Launch Chrome without sandboxes. Use with caution.',
       ],
+      [
+        '$0 --transport http --port 8000',
+        'Serve MCP over Streamable HTTP at http://127.0.0.1:8000/mcp',
+      ],
+      [
+        '$0 --networkProfiles ./network-profiles.json',
+        'Make custom network throttling profiles available to the emulate tool',
+      ],
       ['$0 --no-category-emulation', 'Disable tools in the emulation category'],
       [
         '$0 --no-category-performance',
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {Protocol} from './third_party/index.js';
+
+// Nodes that do not stand for code that ran.
+const IGNORED_FUNCTIONS = new Set(['(root)', '(idle)']);
+
+/** Times are in milliseconds. */
+export interface FunctionStats {
+  callFrame: Protocol.Runtime.CallFrame;
+  selfTime: number;
+  /** The time spent in the function and its callees, counted once. */
+  totalTime: number;
+}
+
+/** Times are in milliseconds. */
+export interface CallTreeNode {
+  callFrame: Protocol.Runtime.CallFrame;
+  selfTime: number;
+  totalTime: number;
+  children: CallTreeNode[];
+}
+
+export interface CpuProfileSummary {
+  /** In milliseconds. */
+  duration: number;
+  sampleCount: number;
+  /** The functions sorted by self time, most first. */
+  functions: FunctionStats[];
+  root: CallTreeNode;
+}
+
+function getFunctionKey(callFrame: Protocol.Runtime.CallFrame): string {
+  return `${callFrame.functionName}@${callFrame.scriptId}:${callFrame.lineNumber}:${callFrame.columnNumber}`;
+}
+
+/**
+ * Computes the self and total time of each function and the call tree of a
+ * CPU profile recorded with the Profiler domain.
+ */
+export function summarizeCpuProfile(
+  profile: Protocol.Profiler.Profile,
+): CpuProfileSummary {
+  // A sample lasts until the next one.
+  const selfTimes = new Map<number, number>();
+  const samples = profile.samples ?? [];
+  const timeDeltas = profile.timeDeltas ?? [];
+  samples.forEach((nodeId, index) => {
+    const duration = (timeDeltas[index + 1] ?? 0) / 1000;
+    selfTimes.set(nodeId, (selfTimes.get(nodeId) ?? 0) + duration);
+  });
+
+  const profileNodes = new Map(profile.nodes.map(node => [node.id, node]));
+  const buildTree = (node: Protocol.Profiler.ProfileNode): CallTreeNode => {
+    const children = (node.children ?? [])
+      .map(id => profileNodes.get(id))
+      .filter(child => child !== undefined)
+      .map(buildTree)
+      .sort((a, b) => b.totalTime - a.totalTime);
+    const selfTime = selfTimes.get(node.id) ?? 0;
+    return {
+      callFrame: node.callFrame,
+      selfTime,
+      totalTime:
+        children.reduce((sum, child) => sum + child.totalTime, 0) + selfTime,
+      children,
+    };
+  };
+  const root = buildTree(profile.nodes[0]);
+
+  // Recursive calls would count the time of the inner calls twice, so only
+  // the outermost call of a function counts towards its total time.
+  const functions = new Map<string, FunctionStats>();
+  const functionsOnStack = new Map<string, number>();
+  const visit = (node: CallTreeNode) => {
+    const key = getFunctionKey(node.callFrame);
+    const onStack = functionsOnStack.get(key) ?? 0;
+    if (!IGNORED_FUNCTIONS.has(node.callFrame.functionName)) {
+      let stats = functions.get(key);
+      if (!stats) {
+        stats = {callFrame: node.callFrame, selfTime: 0, totalTime: 0};
+        functions.set(key, stats);
+      }
+      stats.selfTime += node.selfTime;
+      if (!onStack) {
+        stats.totalTime += node.totalTime;
+      }
+    }
+    functionsOnStack.set(key, onStack + 1);
+    node.children.forEach(visit);
+    functionsOnStack.set(key, onStack);
+  };
+  visit(root);
+
+  return {
+    duration: (profile.endTime - profile.startTime) / 1000,
+    sampleCount: samples.length,
+    functions: [...functions.values()]
+      .filter(stats => stats.totalTime > 0)
+      .sort((a, b) => b.selfTime - a.selfTime),
+    root,
+  };
+}
@@ -4,6 +4,19 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type {OriginalLocation} from '../utils/sourceMap.js';
+
+export interface ConsoleStackFrame {
+  functionName?: string;
+  url: string;
+  /** 0-based line number. */
+  lineNumber: number;
+  /** 0-based column number. */
+  columnNumber: number;
+  /** The location in the original source if the script has a source map. */
+  original?: OriginalLocation;
+}
+
 export interface ConsoleMessageData {
   consoleMessageStableId: number;
   type?: string;
@@ -11,6 +24,7 @@ export interface ConsoleMessageData {
   message?: string;
   count?: number;
   args?: string[];
+  stackTrace?: ConsoleStackFrame[];
 }
 
 // The short format for a console message, based on a previous format.
@@ -38,6 +52,7 @@ export function formatConsoleEventVerbose(msg: ConsoleMessageData): string {
     `ID: ${msg.consoleMessageStableId}`,
     `Message: ${msg.type}> ${msg.message}`,
     formatArgs(msg),
+    formatStackTrace(msg),
   ].filter(line => !!line);
 
   return result.join('\n');
@@ -62,3 +77,49 @@ function formatArgs(consoleData: ConsoleMessageData): string {
 
   return result.join('\n');
 }
+
+function formatStackTrace(consoleData: ConsoleMessageData): string {
+  if (!consoleData.stackTrace?.length) {
+    return '';
+  }
+
+  const result = ['### Stack trace'];
+
+  for (const frame of consoleData.stackTrace) {
+    const generated = `${frame.url}:${frame.lineNumber + 1}:${frame.columnNumber + 1}`;
+    const name = frame.functionName || '<anonymous>';
+    result.push(
+      frame.original
+        ? `at ${name} (${frame.original.source}:${frame.original.lineNumber + 1}:${frame.original.columnNumber + 1}) [generated: ${generated}]`
+        : `at ${name} (${generated})`,
+    );
+  }
+
+  return result.join('\n');
+}
+
+const STACK_FRAME_REGEX = /^\s*at (?:(.*?) \()?(.+):(\d+):(\d+)\)?$/;
+
+/**
+ * Parses the frames of a V8 stack, e.g. of uncaught page errors.
+ */
+export function parseErrorStack(stack: string): ConsoleStackFrame[] {
+  const frames: ConsoleStackFrame[] = [];
+  for (const line of stack.split('\n')) {
+    const match = STACK_FRAME_REGEX.exec(line);
+    if (!match) {
+      continue;
+    }
+    const [, functionName, url, lineNumber, columnNumber] = match;
+    frames.push({
+      functionName:
+        functionName && functionName !== '<anonymous>'
+          ? functionName
+          : undefined,
+      url,
+      lineNumber: Number(lineNumber) - 1,
+      columnNumber: Number(columnNumber) - 1,
+    });
+  }
+  return frames;
+}
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {CoverageEntry} from '../third_party/index.js';
+
+export interface CoverageSummary {
+  url: string;
+  type: 'script' | 'stylesheet';
+  /** The reqid of the network request that loaded the resource. */
+  reqid?: number;
+  /** The size of the resource in UTF-8 bytes. */
+  totalBytes: number;
+  usedBytes: number;
+  /**
+   * The used ranges as start and end offsets into the text of the resource,
+   * in UTF-16 code units like string indices.
+   */
+  ranges: Array<{start: number; end: number}>;
+}
+
+export function summarizeCoverage(
+  entries: CoverageEntry[],
+  type: CoverageSummary['type'],
+  getReqid: (url: string) => number | undefined,
+): CoverageSummary[] {
+  return entries.map(entry => ({
+    url: entry.url,
+    type,
+    reqid: getReqid(entry.url),
+    totalBytes: Buffer.byteLength(entry.text),
+    usedBytes: entry.ranges.reduce(
+      (sum, range) =>
+        sum + Buffer.byteLength(entry.text.slice(range.start, range.end)),
+      0,
+    ),
+    ranges: entry.ranges,
+  }));
+}
+
+function getUnusedBytes(summary: CoverageSummary): number {
+  return summary.totalBytes - summary.usedBytes;
+}
+
+function formatKb(bytes: number): string {
+  return `${(bytes / 1024).toFixed(1)} kB`;
+}
+
+function formatUnused(unusedBytes: number, totalBytes: number): string {
+  const percentage = totalBytes
+    ? Math.round((unusedBytes / totalBytes) * 100)
+    : 0;
+  return `${formatKb(unusedBytes)} of ${formatKb(totalBytes)} unused (${percentage}%)`;
+}
+
+/**
+ * Sorts the summaries by the number of unused bytes, most first.
+ */
+export function sortByUnusedBytes(
+  summaries: CoverageSummary[],
+): CoverageSummary[] {
+  return summaries.toSorted((a, b) => getUnusedBytes(b) - getUnusedBytes(a));
+}
+
+export function getShortDescriptionForCoverage(
+  summary: CoverageSummary,
+): string {
+  const reqid = summary.reqid !== undefined ? `reqid=${summary.reqid} ` : '';
+  return `${reqid}${summary.url} (${summary.type}): ${formatUnused(getUnusedBytes(summary), summary.totalBytes)}`;
+}
+
+export function formatCoverageTotal(summaries: CoverageSummary[]): string {
+  const totalBytes = summaries.reduce((sum, s) => sum + s.totalBytes, 0);
+  const usedBytes = summaries.reduce((sum, s) => sum + s.usedBytes, 0);
+  return `Total: ${formatUnused(totalBytes - usedBytes, totalBytes)}`;
+}
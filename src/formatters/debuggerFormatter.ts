@@ -0,0 +1,243 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  Breakpoint,
+  PageDebugger,
+  ScopeVariables,
+} from '../PageDebugger.js';
+import type {Protocol} from '../third_party/index.js';
+
+const SNIPPET_CONTEXT_LINES = 2;
+const MAX_LINE_LENGTH = 200;
+const PAUSED_SCOPE_TYPES = new Set(['local', 'block', 'catch']);
+
+export function getShortDescriptionForBreakpoint(
+  breakpoint: Breakpoint,
+): string {
+  const column =
+    breakpoint.columnNumber !== undefined ? `:${breakpoint.columnNumber}` : '';
+  const condition = breakpoint.condition
+    ? ` condition=${JSON.stringify(breakpoint.condition)}`
+    : '';
+  const resolved = breakpoint.locations.length
+    ? `(locations: ${breakpoint.locations.length})`
+    : '(not resolved yet)';
+  return `bpid=${breakpoint.id} ${breakpoint.url}:${breakpoint.lineNumber}${column}${condition} ${resolved}`;
+}
+
+export function formatLocation(
+  location: Protocol.Debugger.Location,
+  url: string | undefined,
+): string {
+  const column =
+    location.columnNumber !== undefined ? `:${location.columnNumber + 1}` : '';
+  return `${url || `<script ${location.scriptId}>`}:${location.lineNumber + 1}${column}`;
+}
+
+export function formatCallFrames(
+  callFrames: Protocol.Debugger.CallFrame[],
+  asyncStackTrace?: Protocol.Runtime.StackTrace,
+): string[] {
+  const lines = callFrames.map((frame, index) => {
+    return `#${index} ${frame.functionName || '(anonymous)'} (${formatLocation(frame.location, frame.url)})`;
+  });
+  let stackTrace = asyncStackTrace;
+  while (stackTrace) {
+    lines.push(`-- ${stackTrace.description || 'async'} --`);
+    for (const frame of stackTrace.callFrames) {
+      lines.push(
+        `   ${frame.functionName || '(anonymous)'} (${formatLocation(frame, frame.url)})`,
+      );
+    }
+    stackTrace = stackTrace.parent;
+  }
+  return lines;
+}
+
+/**
+ * Formats the lines around a location. `scriptStartLine` is the 0-based line
+ * the script starts at in its resource, e.g. for inline scripts.
+ */
+export function formatSourceSnippet(
+  source: string,
+  location: Protocol.Debugger.Location,
+  scriptStartLine = 0,
+): string[] {
+  const lines = source.split('\n');
+  const locationIndex = location.lineNumber - scriptStartLine;
+  const start = Math.max(locationIndex - SNIPPET_CONTEXT_LINES, 0);
+  const end = Math.min(locationIndex + SNIPPET_CONTEXT_LINES, lines.length - 1);
+  const width = String(scriptStartLine + end + 1).length;
+  const snippet: string[] = [];
+  for (let index = start; index <= end; index++) {
+    const isLocationLine = index === locationIndex;
+    const line = truncateLine(
+      lines[index],
+      isLocationLine ? (location.columnNumber ?? 0) : 0,
+    );
+    snippet.push(
+      `${isLocationLine ? '>' : ' '} ${String(scriptStartLine + index + 1).padStart(width)} | ${line}`,
+    );
+  }
+  return snippet;
+}
+
+/**
+ * Formats a 1-based, inclusive line range of a source. Line numbers are
+ * offset by `scriptStartLine` like in `formatSourceSnippet`.
+ */
+export function formatSourceLines(
+  source: string,
+  startLine: number,
+  endLine: number,
+  scriptStartLine = 0,
+): string[] {
+  const lines = source.split('\n');
+  const firstLine = scriptStartLine + 1;
+  const lastLine = scriptStartLine + lines.length;
+  const start = Math.max(startLine, firstLine);
+  const end = Math.min(endLine, lastLine);
+  if (start > end) {
+    return [
+      `No lines in range. The source has lines ${firstLine}-${lastLine}.`,
+    ];
+  }
+  const width = String(end).length;
+  const result = [`Lines ${start}-${end} of ${firstLine}-${lastLine}:`];
+  for (let lineNumber = start; lineNumber <= end; lineNumber++) {
+    result.push(
+      `${String(lineNumber).padStart(width)} | ${truncateLine(lines[lineNumber - firstLine], 0)}`,
+    );
+  }
+  return result;
+}
+
+// Keeps the column visible in long (e.g. minified) lines.
+function truncateLine(line: string, column: number): string {
+  if (line.length <= MAX_LINE_LENGTH) {
+    return line;
+  }
+  const start = Math.max(
+    Math.min(column - MAX_LINE_LENGTH / 2, line.length - MAX_LINE_LENGTH),
+    0,
+  );
+  const end = start + MAX_LINE_LENGTH;
+  return `${start > 0 ? '…' : ''}${line.slice(start, end)}${end < line.length ? '…' : ''}`;
+}
+
+export function formatRemoteObject(
+  object: Protocol.Runtime.RemoteObject,
+): string {
+  if (object.unserializableValue) {
+    return object.unserializableValue;
+  }
+  switch (object.type) {
+    case 'undefined':
+      return 'undefined';
+    case 'string':
+      return JSON.stringify(object.value);
+    case 'number':
+    case 'boolean':
+      return String(object.value);
+    case 'bigint':
+      return `${object.value}n`;
+  }
+  if (object.subtype === 'null') {
+    return 'null';
+  }
+  if (!object.preview) {
+    return object.description ?? object.type;
+  }
+  return `${object.description ?? object.type} ${formatObjectPreview(object.preview)}`;
+}
+
+function formatObjectPreview(preview: Protocol.Runtime.ObjectPreview): string {
+  const isArray = preview.subtype === 'array';
+  const properties = preview.properties.map(property => {
+    const value =
+      property.type === 'string'
+        ? JSON.stringify(property.value)
+        : (property.value ?? property.type);
+    return isArray ? value : `${property.name}: ${value}`;
+  });
+  if (preview.overflow) {
+    properties.push('…');
+  }
+  return isArray ? `[${properties.join(', ')}]` : `{${properties.join(', ')}}`;
+}
+
+export function formatScopeVariables(scopes: ScopeVariables[]): string[] {
+  const lines: string[] = [];
+  for (const scope of scopes) {
+    lines.push(
+      `### ${scope.type} scope${scope.name ? ` (${scope.name})` : ''}`,
+    );
+    if (!scope.variables.length) {
+      lines.push('<no variables>');
+    }
+    for (const variable of scope.variables) {
+      lines.push(
+        `${variable.name}: ${variable.value ? formatRemoteObject(variable.value) : '<accessor>'}`,
+      );
+    }
+  }
+  return lines;
+}
+
+/**
+ * Describes where the page is paused along with the surrounding source and
+ * the local variables of the top call frame.
+ */
+export async function getFormattedPausedState(
+  pageDebugger: PageDebugger,
+): Promise<string[]> {
+  const event = pageDebugger.getPausedEvent();
+  if (!event) {
+    return [];
+  }
+  const [topFrame] = event.callFrames;
+  const breakpoints = (event.hitBreakpoints ?? [])
+    .map(cdpId => pageDebugger.getBreakpointForCdpId(cdpId))
+    .filter(breakpoint => breakpoint !== undefined)
+    .map(breakpoint => `bpid=${breakpoint.id}`);
+  const lines = [
+    `Paused on ${event.reason}${breakpoints.length ? ` ${breakpoints.join(', ')}` : ''}${
+      topFrame
+        ? ` at ${formatLocation(topFrame.location, topFrame.url)} in ${topFrame.functionName || '(anonymous)'}`
+        : ''
+    }`,
+  ];
+  if (!topFrame) {
+    return lines;
+  }
+  try {
+    const source = await pageDebugger.getScriptSource(
+      topFrame.location.scriptId,
+    );
+    lines.push('### Source');
+    lines.push(
+      ...formatSourceSnippet(
+        source,
+        topFrame.location,
+        pageDebugger.getScript(topFrame.location.scriptId)?.startLine,
+      ),
+    );
+  } catch {
+    // The script might have been unloaded.
+  }
+  try {
+    const scopes = await pageDebugger.getScopeVariables(0);
+    lines.push(
+      ...formatScopeVariables(
+        scopes.filter(scope => PAUSED_SCOPE_TYPES.has(scope.type)),
+      ),
+    );
+  } catch {
+    // The page might have resumed in the meantime.
+  }
+  return lines;
+}
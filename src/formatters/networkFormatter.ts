@@ -6,6 +6,7 @@
 
 import {isUtf8} from 'node:buffer';
 
+import type {NetworkRoute} from '../NetworkRouter.js';
 import type {HTTPRequest, HTTPResponse} from '../third_party/index.js';
 
 const BODY_CONTEXT_SIZE_LIMIT = 10000;
@@ -14,9 +15,29 @@ export function getShortDescriptionForRequest(
   request: HTTPRequest,
   id: number,
   selectedInDevToolsUI = false,
+  route?: NetworkRoute,
 ): string {
   // TODO truncate the URL
-  return `reqid=${id} ${request.method()} ${request.url()} ${getStatusFromRequest(request)}${selectedInDevToolsUI ? ` [selected in the DevTools Network panel]` : ''}`;
+  return `reqid=${id} ${request.method()} ${request.url()} ${getStatusFromRequest(request)}${selectedInDevToolsUI ? ` [selected in the DevTools Network panel]` : ''}${route ? ` [${route.action} by routeid=${route.id}]` : ''}`;
+}
+
+export function getShortDescriptionForRoute(route: NetworkRoute): string {
+  const details: string[] = [];
+  if (route.action === 'fulfill') {
+    details.push(`status=${route.status ?? 200}`);
+  }
+  if (route.action === 'abort') {
+    details.push(`errorReason=${route.errorReason ?? 'failed'}`);
+  }
+  if (route.action === 'replay') {
+    details.push(
+      `har=${route.harFile} (entries: ${route.har?.log.entries.length ?? 0}) notFound=${route.notFound ?? 'abort'}`,
+    );
+  }
+  if (route.headers && Object.keys(route.headers).length) {
+    details.push(`headers=${JSON.stringify(route.headers)}`);
+  }
+  return `routeid=${route.id} ${route.action} ${route.url}${details.length ? ` ${details.join(' ')}` : ''} (hits: ${route.hitCount})`;
 }
 
 export function getStatusFromRequest(request: HTTPRequest): string {
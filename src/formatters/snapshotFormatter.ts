@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import type {TextSnapshot, TextSnapshotNode} from '../McpContext.js';
+import type {SnapshotMatch} from '../utils/snapshotQuery.js';
 
 export function formatSnapshotNode(
   root: TextSnapshotNode,
@@ -41,6 +42,131 @@ Get a verbose snapshot to include all elements if you are interested in the sele
   return chunks.join('');
 }
 
+/**
+ * Formats the nodes of `current` that were added, removed or changed since
+ * `previous`. Nodes are matched by their backendNodeId. Unchanged ancestors of
+ * the listed nodes are included for context.
+ */
+/**
+ * Whether two snapshots are of the same document. Nodes of different
+ * documents, e.g. before and after a navigation, cannot be compared.
+ */
+export function isSameDocument(
+  previous: TextSnapshot,
+  current: TextSnapshot,
+): boolean {
+  // The root node stands for the document.
+  return (
+    previous.root.backendNodeId !== undefined &&
+    previous.root.backendNodeId === current.root.backendNodeId
+  );
+}
+
+export function formatSnapshotDiff(
+  previous: TextSnapshot,
+  current: TextSnapshot,
+): string {
+  const previousNodes = new Map<number, TextSnapshotNode>();
+  const previousParents = new Map<TextSnapshotNode, TextSnapshotNode>();
+  const queue = [previous.root];
+  while (queue.length) {
+    const node = queue.pop()!;
+    if (node.backendNodeId !== undefined) {
+      previousNodes.set(node.backendNodeId, node);
+    }
+    for (const child of node.children) {
+      previousParents.set(child, node);
+      queue.push(child);
+    }
+  }
+
+  const matches = new Map<TextSnapshotNode, TextSnapshotNode>([
+    [current.root, previous.root],
+  ]);
+  const matchedPrevious = new Map<TextSnapshotNode, TextSnapshotNode>([
+    [previous.root, current.root],
+  ]);
+  queue.push(current.root);
+  while (queue.length) {
+    const node = queue.pop()!;
+    const match =
+      node.backendNodeId !== undefined
+        ? previousNodes.get(node.backendNodeId)
+        : undefined;
+    if (match && !matchedPrevious.has(match)) {
+      matches.set(node, match);
+      matchedPrevious.set(match, node);
+    }
+    queue.push(...node.children);
+  }
+
+  // Removed subtrees are listed once, under the current node that matches
+  // their closest remaining ancestor.
+  const removedChildren = new Map<TextSnapshotNode, TextSnapshotNode[]>();
+  for (const node of previousParents.keys()) {
+    const parent = previousParents.get(node)!;
+    const currentParent = matchedPrevious.get(parent);
+    if (matchedPrevious.has(node) || !currentParent) {
+      continue;
+    }
+    const removed = removedChildren.get(currentParent) ?? [];
+    removed.push(node);
+    removedChildren.set(currentParent, removed);
+  }
+
+  const formatNode = (node: TextSnapshotNode, depth: number): string[] => {
+    const lines: string[] = [];
+    for (const child of node.children) {
+      lines.push(...formatNode(child, depth + 1));
+    }
+    for (const removed of removedChildren.get(node) ?? []) {
+      lines.push(
+        `- ${' '.repeat((depth + 1) * 2)}${getAttributes(removed).join(' ')}`,
+      );
+    }
+
+    const attributes = getAttributes(node).join(' ');
+    const match = matches.get(node);
+    if (!match) {
+      return [`+ ${' '.repeat(depth * 2)}${attributes}`, ...lines];
+    }
+    const [, ...previousAttributes] = getAttributes(match);
+    const [, ...currentAttributes] = getAttributes(node);
+    if (previousAttributes.join(' ') !== currentAttributes.join(' ')) {
+      return [
+        `~ ${' '.repeat(depth * 2)}${attributes} (was: ${previousAttributes.join(' ')})`,
+        ...lines,
+      ];
+    }
+    if (!lines.length) {
+      return [];
+    }
+    return [`  ${' '.repeat(depth * 2)}${attributes}`, ...lines];
+  };
+
+  const lines = formatNode(current.root, 0);
+  if (!lines.length) {
+    return 'No changes since the previous snapshot.\n';
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Formats a node found in a snapshot along with the landmarks containing it.
+ */
+export function formatSnapshotMatch(match: SnapshotMatch): string {
+  const line = getAttributes(match.node).join(' ');
+  if (!match.landmarks.length) {
+    return line;
+  }
+  const landmarks = match.landmarks.map(landmark => {
+    return landmark.name
+      ? `${landmark.role} "${landmark.name}"`
+      : landmark.role;
+  });
+  return `${line} (in ${landmarks.join(' > ')})`;
+}
+
 function getAttributes(serializedAXNodeRoot: TextSnapshotNode): string[] {
   const attributes = [`uid=${serializedAXNodeRoot.id}`];
   if (serializedAXNodeRoot.role) {
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {Protocol} from '../third_party/index.js';
+
+export interface ElementStylesData {
+  computedStyle: Protocol.CSS.CSSComputedStyleProperty[];
+  matchedStyles: Protocol.CSS.GetMatchedStylesForNodeResponse;
+  styleSheets: Map<string, Protocol.CSS.CSSStyleSheetHeader>;
+}
+
+// The standard properties that inherit by default. Custom properties inherit
+// as well.
+const INHERITED_PROPERTIES = new Set([
+  'border-collapse',
+  'border-spacing',
+  'caption-side',
+  'caret-color',
+  'color',
+  'color-scheme',
+  'cursor',
+  'direction',
+  'empty-cells',
+  'font',
+  'font-family',
+  'font-feature-settings',
+  'font-kerning',
+  'font-size',
+  'font-size-adjust',
+  'font-stretch',
+  'font-style',
+  'font-variant',
+  'font-variation-settings',
+  'font-weight',
+  'hyphens',
+  'letter-spacing',
+  'line-height',
+  'list-style',
+  'list-style-image',
+  'list-style-position',
+  'list-style-type',
+  'orphans',
+  'overflow-wrap',
+  'paint-order',
+  'pointer-events',
+  'quotes',
+  'tab-size',
+  'text-align',
+  'text-align-last',
+  'text-indent',
+  'text-rendering',
+  'text-shadow',
+  'text-transform',
+  'text-wrap',
+  'visibility',
+  'white-space',
+  'widows',
+  'word-break',
+  'word-spacing',
+  'word-wrap',
+  'writing-mode',
+]);
+
+interface StyleSection {
+  heading: string;
+  style: Protocol.CSS.CSSStyle;
+  media?: Protocol.CSS.CSSMedia[];
+}
+
+function isInherited(name: string): boolean {
+  return name.startsWith('--') || INHERITED_PROPERTIES.has(name);
+}
+
+function getRuleHeading(
+  rule: Protocol.CSS.CSSRule,
+  styleSheets: Map<string, Protocol.CSS.CSSStyleSheetHeader>,
+): string {
+  const selector = rule.selectorList.text;
+  if (rule.origin === 'user-agent') {
+    return `${selector} (user agent stylesheet)`;
+  }
+  const header = rule.styleSheetId
+    ? styleSheets.get(rule.styleSheetId)
+    : undefined;
+  const range = rule.selectorList.selectors[0]?.range ?? rule.style.range;
+  if (!header?.sourceURL) {
+    return selector;
+  }
+  // Ranges are relative to the start of inline style sheets.
+  const line = range ? `:${header.startLine + range.startLine + 1}` : '';
+  return `${selector} (${header.sourceURL}${line})`;
+}
+
+/**
+ * Returns the styles of an element or an ancestor, from the most to the least
+ * specific one.
+ */
+function getSections(
+  entry: {
+    inlineStyle?: Protocol.CSS.CSSStyle;
+    attributesStyle?: Protocol.CSS.CSSStyle;
+    matchedCSSRules?: Protocol.CSS.RuleMatch[];
+  },
+  styleSheets: Map<string, Protocol.CSS.CSSStyleSheetHeader>,
+): StyleSection[] {
+  const sections: StyleSection[] = [];
+  if (entry.inlineStyle) {
+    sections.push({heading: 'element.style', style: entry.inlineStyle});
+  }
+  for (const {rule} of (entry.matchedCSSRules ?? []).toReversed()) {
+    sections.push({
+      heading: getRuleHeading(rule, styleSheets),
+      style: rule.style,
+      media: rule.media,
+    });
+  }
+  if (entry.attributesStyle) {
+    sections.push({heading: 'attributes style', style: entry.attributesStyle});
+  }
+  return sections;
+}
+
+/**
+ * Returns the declarations of a style as written. Shorthands are also listed
+ * expanded into their longhands, which are omitted.
+ */
+function getDeclarations(
+  style: Protocol.CSS.CSSStyle,
+): Protocol.CSS.CSSProperty[] {
+  const written = style.cssProperties.some(property => property.range);
+  return style.cssProperties.filter(
+    property =>
+      !property.disabled && !property.implicit && (!written || property.range),
+  );
+}
+
+/**
+ * Marks the declarations that lose the cascade to a declaration of the same
+ * property in a more specific style or an !important declaration.
+ */
+function getOverriddenDeclarations(
+  groups: StyleSection[][],
+): Set<Protocol.CSS.CSSProperty> {
+  const overridden = new Set<Protocol.CSS.CSSProperty>();
+  const applied = new Set<string>();
+  const apply = (property: Protocol.CSS.CSSProperty) => {
+    const longhands = property.longhandProperties?.map(({name}) => name) ?? [];
+    if (
+      applied.has(property.name) ||
+      (longhands.length && longhands.every(name => applied.has(name)))
+    ) {
+      overridden.add(property);
+      return;
+    }
+    applied.add(property.name);
+    longhands.forEach(name => applied.add(name));
+  };
+  // The declarations of the element itself take precedence over inherited
+  // ones, even !important ones. Within a style, later declarations win.
+  groups.forEach((sections, index) => {
+    const declarations = sections
+      .flatMap(section => getDeclarations(section.style).toReversed())
+      .filter(
+        property =>
+          property.parsedOk !== false &&
+          (index === 0 || isInherited(property.name)),
+      );
+    declarations.filter(property => property.important).forEach(apply);
+    declarations.filter(property => !property.important).forEach(apply);
+  });
+  return overridden;
+}
+
+/**
+ * Formats the computed style and the matched and inherited CSS rules of an
+ * element like the Styles pane in DevTools. If `properties` is given, only
+ * those properties and their longhands are included.
+ */
+export function formatElementStyles(
+  data: ElementStylesData,
+  properties?: string[],
+): string {
+  const matches = (property: {
+    name: string;
+    longhandProperties?: Protocol.CSS.CSSProperty[];
+  }) => {
+    const names = [
+      property.name,
+      ...(property.longhandProperties ?? []).map(({name}) => name),
+    ];
+    return (
+      !properties?.length ||
+      properties.some(filter =>
+        names.some(name => name === filter || name.startsWith(`${filter}-`)),
+      )
+    );
+  };
+
+  const {matchedStyles, styleSheets} = data;
+  const groups = [
+    getSections(matchedStyles, styleSheets),
+    ...(matchedStyles.inherited ?? []).map(entry =>
+      getSections(entry, styleSheets),
+    ),
+  ];
+  const overridden = getOverriddenDeclarations(groups);
+
+  const lines = ['## Computed style'];
+  const computedStyle = data.computedStyle.filter(matches);
+  if (!computedStyle.length) {
+    lines.push('No matching properties.');
+  }
+  for (const {name, value} of computedStyle) {
+    lines.push(`${name}: ${value}`);
+  }
+
+  groups.forEach((sections, index) => {
+    const sectionLines: string[] = [];
+    for (const section of sections) {
+      const declarations = getDeclarations(section.style).filter(
+        property =>
+          matches(property) && (index === 0 || isInherited(property.name)),
+      );
+      if (!declarations.length) {
+        continue;
+      }
+      sectionLines.push(`### ${section.heading}`);
+      for (const media of section.media ?? []) {
+        sectionLines.push(`@media ${media.text}`);
+      }
+      for (const property of declarations) {
+        const important = property.important ? ' !important' : '';
+        const status =
+          property.parsedOk === false
+            ? ' /* invalid */'
+            : overridden.has(property)
+              ? ' /* overridden */'
+              : '';
+        sectionLines.push(
+          `  ${property.name}: ${property.value}${important};${status}`,
+        );
+      }
+    }
+    if (index === 0) {
+      lines.push('## Matched rules');
+      if (!sectionLines.length) {
+        sectionLines.push('No matching rules.');
+      }
+    } else if (sectionLines.length) {
+      lines.push(
+        index === 1
+          ? '## Inherited from the parent'
+          : `## Inherited from ancestor ${index} levels up`,
+      );
+    }
+    lines.push(...sectionLines);
+  });
+
+  return lines.join('\n');
+}
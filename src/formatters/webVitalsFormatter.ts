@@ -0,0 +1,97 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {WebVitals, WebVitalsElement} from '../WebVitalsCollector.js';
+
+// The good and poor thresholds from https://web.dev/articles/vitals.
+const THRESHOLDS = {
+  lcp: [2500, 4000],
+  inp: [200, 500],
+  cls: [0.1, 0.25],
+  fcp: [1800, 3000],
+  ttfb: [800, 1800],
+} as const;
+
+function getRating(metric: keyof typeof THRESHOLDS, value: number): string {
+  const [good, poor] = THRESHOLDS[metric];
+  if (value <= good) {
+    return 'good';
+  }
+  return value <= poor ? 'needs improvement' : 'poor';
+}
+
+function formatMs(value: number): string {
+  return `${Math.round(value)} ms`;
+}
+
+function formatElement(
+  element: WebVitalsElement,
+  resolveUid: (backendNodeId: number) => string | undefined,
+): string {
+  const uid =
+    element.backendNodeId !== undefined
+      ? resolveUid(element.backendNodeId)
+      : undefined;
+  return uid ? `uid=${uid} (${element.description})` : element.description;
+}
+
+/**
+ * Formats the web vitals of a page. Elements are referenced by their uid if
+ * they are part of the latest snapshot.
+ */
+export function formatWebVitals(
+  vitals: WebVitals,
+  resolveUid: (backendNodeId: number) => string | undefined,
+): string {
+  const lines = [`## Web vitals for ${vitals.url}`];
+
+  const {lcp, cls, inp} = vitals;
+  if (lcp) {
+    lines.push(`LCP: ${formatMs(lcp.value)} (${getRating('lcp', lcp.value)})`);
+    if (lcp.element) {
+      lines.push(`- Element: ${formatElement(lcp.element, resolveUid)}`);
+    }
+    if (lcp.url) {
+      lines.push(`- Resource: ${lcp.url}`);
+    }
+  } else {
+    lines.push('LCP: not available yet');
+  }
+
+  lines.push(`CLS: ${cls.value.toFixed(2)} (${getRating('cls', cls.value)})`);
+  if (cls.shiftedElements.length) {
+    lines.push(
+      `- Shifted elements: ${cls.shiftedElements
+        .map(element => formatElement(element, resolveUid))
+        .join(', ')}`,
+    );
+  }
+
+  if (inp) {
+    lines.push(`INP: ${formatMs(inp.value)} (${getRating('inp', inp.value)})`);
+    lines.push(
+      `- Interaction: ${inp.type}${inp.target ? ` on ${formatElement(inp.target, resolveUid)}` : ''}`,
+    );
+    lines.push(`- Input delay: ${formatMs(inp.inputDelay)}`);
+    lines.push(`- Processing duration: ${formatMs(inp.processingDuration)}`);
+    lines.push(`- Presentation delay: ${formatMs(inp.presentationDelay)}`);
+  } else {
+    lines.push('INP: no interactions yet');
+  }
+
+  lines.push(
+    vitals.fcp !== undefined
+      ? `FCP: ${formatMs(vitals.fcp)} (${getRating('fcp', vitals.fcp)})`
+      : 'FCP: not available yet',
+  );
+  lines.push(
+    vitals.ttfb !== undefined
+      ? `TTFB: ${formatMs(vitals.ttfb)} (${getRating('ttfb', vitals.ttfb)})`
+      : 'TTFB: not available yet',
+  );
+
+  return lines.join('\n');
+}
@@ -0,0 +1,360 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {isUtf8} from 'node:buffer';
+
+import type {
+  HTTPRequest,
+  HTTPResponse,
+  Protocol,
+  ResponseForRequest,
+} from './third_party/index.js';
+import {VERSION} from './version.js';
+
+// Types follow the HAR 1.2 spec: http://www.softwareishard.com/blog/har-12-spec/
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarPostData {
+  mimeType: string;
+  text: string;
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: HarPostData;
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarContent {
+  size: number;
+  mimeType: string;
+  text?: string;
+  encoding?: 'base64';
+}
+
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: HarContent;
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+  /** The network error of requests that failed without a response. */
+  _error?: string;
+}
+
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: HarTimings;
+  serverIPAddress?: string;
+  _resourceType?: string;
+}
+
+export interface Har {
+  log: {
+    version: string;
+    creator: {name: string; version: string};
+    entries: HarEntry[];
+  };
+}
+
+const HAR_CREATOR = {name: 'chrome-devtools-mcp', version: VERSION};
+const HTTP_VERSION = 'HTTP/1.1';
+
+// The body served from a HAR is already decoded and measured anew.
+const REPLAY_EXCLUDED_HEADERS = new Set([
+  'content-encoding',
+  'content-length',
+  'transfer-encoding',
+]);
+
+/**
+ * Serializes requests into HAR. `getStartTime` returns the wall-clock time
+ * in milliseconds at which a request was issued.
+ */
+export async function createHar(
+  requests: HTTPRequest[],
+  getStartTime: (request: HTTPRequest) => number | undefined,
+): Promise<Har> {
+  const entries: HarEntry[] = [];
+  for (const request of requests) {
+    entries.push(
+      await createHarEntry(request, getStartTime(request) ?? Date.now()),
+    );
+  }
+  return {
+    log: {
+      version: '1.2',
+      creator: HAR_CREATOR,
+      entries,
+    },
+  };
+}
+
+async function createHarEntry(
+  request: HTTPRequest,
+  startTime: number,
+): Promise<HarEntry> {
+  const response = request.response();
+  const timings = getHarTimings(response?.timing() ?? null);
+  const time = [
+    timings.blocked,
+    timings.dns,
+    timings.connect,
+    timings.send,
+    timings.wait,
+    timings.receive,
+  ]
+    .filter(value => value > 0)
+    .reduce((sum, value) => sum + value, 0);
+  const entry: HarEntry = {
+    startedDateTime: new Date(startTime).toISOString(),
+    time,
+    request: await createHarRequest(request),
+    response: response
+      ? await createHarResponse(response)
+      : createFailedHarResponse(request),
+    cache: {},
+    timings,
+    _resourceType: request.resourceType(),
+  };
+  const remoteAddress = response?.remoteAddress();
+  if (remoteAddress?.ip) {
+    entry.serverIPAddress = remoteAddress.ip;
+  }
+  return entry;
+}
+
+async function createHarRequest(request: HTTPRequest): Promise<HarRequest> {
+  const headers = request.headers();
+  const harRequest: HarRequest = {
+    method: request.method(),
+    url: request.url(),
+    httpVersion: HTTP_VERSION,
+    cookies: [],
+    headers: toHarHeaders(headers),
+    queryString: getQueryString(request.url()),
+    headersSize: -1,
+    bodySize: 0,
+  };
+  const postData = await getPostData(request);
+  if (postData !== undefined) {
+    harRequest.postData = {
+      mimeType: headers['content-type'] ?? '',
+      text: postData,
+    };
+    harRequest.bodySize = Buffer.byteLength(postData);
+  }
+  return harRequest;
+}
+
+async function getPostData(request: HTTPRequest): Promise<string | undefined> {
+  if (!request.hasPostData()) {
+    return;
+  }
+  const data = request.postData();
+  if (data) {
+    return data;
+  }
+  try {
+    return await request.fetchPostData();
+  } catch {
+    return;
+  }
+}
+
+async function createHarResponse(response: HTTPResponse): Promise<HarResponse> {
+  const headers = response.headers();
+  const content: HarContent = {
+    size: 0,
+    mimeType: headers['content-type'] ?? '',
+  };
+  try {
+    const buffer = await response.buffer();
+    content.size = buffer.length;
+    if (isUtf8(buffer)) {
+      content.text = buffer.toString('utf8');
+    } else {
+      content.text = buffer.toString('base64');
+      content.encoding = 'base64';
+    }
+  } catch {
+    // The body is not available for redirects or once it has been evicted.
+  }
+  return {
+    status: response.status(),
+    statusText: response.statusText(),
+    httpVersion: HTTP_VERSION,
+    cookies: [],
+    headers: toHarHeaders(headers),
+    content,
+    redirectURL: headers['location'] ?? '',
+    headersSize: -1,
+    bodySize: content.text === undefined ? -1 : content.size,
+  };
+}
+
+function createFailedHarResponse(request: HTTPRequest): HarResponse {
+  const harResponse: HarResponse = {
+    status: 0,
+    statusText: '',
+    httpVersion: HTTP_VERSION,
+    cookies: [],
+    headers: [],
+    content: {size: 0, mimeType: ''},
+    redirectURL: '',
+    headersSize: -1,
+    bodySize: -1,
+  };
+  const failure = request.failure();
+  if (failure) {
+    harResponse._error = failure.errorText;
+  }
+  return harResponse;
+}
+
+export function getHarTimings(
+  timing: Protocol.Network.ResourceTiming | null,
+): HarTimings {
+  if (!timing) {
+    return {
+      blocked: -1,
+      dns: -1,
+      connect: -1,
+      ssl: -1,
+      send: 0,
+      wait: 0,
+      receive: 0,
+    };
+  }
+  // All ResourceTiming offsets are in milliseconds relative to requestTime
+  // and are -1 when the phase did not happen.
+  const duration = (start: number, end: number) => {
+    return start >= 0 && end >= start ? end - start : -1;
+  };
+  const firstPhaseStart = [
+    timing.dnsStart,
+    timing.connectStart,
+    timing.sendStart,
+  ].find(start => start >= 0);
+  return {
+    blocked: firstPhaseStart ?? -1,
+    dns: duration(timing.dnsStart, timing.dnsEnd),
+    connect: duration(timing.connectStart, timing.connectEnd),
+    ssl: duration(timing.sslStart, timing.sslEnd),
+    send: Math.max(duration(timing.sendStart, timing.sendEnd), 0),
+    wait: Math.max(duration(timing.sendEnd, timing.receiveHeadersEnd), 0),
+    // Puppeteer does not expose when the body finished loading.
+    receive: 0,
+  };
+}
+
+function toHarHeaders(headers: Record<string, string>): HarNameValue[] {
+  const harHeaders: HarNameValue[] = [];
+  for (const [name, value] of Object.entries(headers)) {
+    // Puppeteer joins repeated headers with new lines.
+    for (const line of value.split('\n')) {
+      harHeaders.push({name, value: line});
+    }
+  }
+  return harHeaders;
+}
+
+function getQueryString(url: string): HarNameValue[] {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => {
+      return {name, value};
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function parseHar(text: string): Har {
+  let har: Har;
+  try {
+    har = JSON.parse(text);
+  } catch (error) {
+    throw new Error('The HAR file is not valid JSON.', {cause: error});
+  }
+  if (!Array.isArray(har?.log?.entries)) {
+    throw new Error('The HAR file does not contain log.entries.');
+  }
+  return har;
+}
+
+/**
+ * Finds the recorded entry for a request by method and URL. Entries with the
+ * same post data are preferred.
+ */
+export function findHarEntry(
+  har: Har,
+  request: HTTPRequest,
+): HarEntry | undefined {
+  const method = request.method();
+  const url = request.url();
+  const candidates = har.log.entries.filter(entry => {
+    return entry.request.method === method && entry.request.url === url;
+  });
+  if (candidates.length <= 1) {
+    return candidates[0];
+  }
+  const postData = request.postData();
+  return (
+    candidates.find(entry => entry.request.postData?.text === postData) ??
+    candidates[0]
+  );
+}
+
+export function getResponseForHarEntry(
+  entry: HarEntry,
+): Partial<ResponseForRequest> {
+  const headers: Record<string, string[]> = {};
+  for (const {name, value} of entry.response.headers) {
+    const lowerCaseName = name.toLowerCase();
+    // Skip HTTP/2 pseudo-headers such as ":status".
+    if (
+      lowerCaseName.startsWith(':') ||
+      REPLAY_EXCLUDED_HEADERS.has(lowerCaseName)
+    ) {
+      continue;
+    }
+    headers[lowerCaseName] ??= [];
+    headers[lowerCaseName].push(value);
+  }
+  const {text, encoding} = entry.response.content;
+  return {
+    status: entry.response.status,
+    headers,
+    body: text ? Buffer.from(text, encoding ?? 'utf8') : '',
+  };
+}
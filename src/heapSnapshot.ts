@@ -0,0 +1,470 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The JSON format of V8 heap snapshots. Nodes and edges are flattened into
+// arrays with one entry per field listed in the meta data.
+interface HeapSnapshotMeta {
+  node_fields: string[];
+  node_types: [string[], ...unknown[]];
+  edge_fields: string[];
+  edge_types: [string[], ...unknown[]];
+}
+
+interface HeapSnapshotData {
+  meta: HeapSnapshotMeta;
+  nodes: ArrayLike<number>;
+  edges: ArrayLike<number>;
+  strings: string[];
+}
+
+export interface ConstructorStats {
+  count: number;
+  selfSize: number;
+  /**
+   * The size that would be freed if all objects of the constructor were
+   * collected, without counting objects retained by other objects of the same
+   * constructor twice.
+   */
+  retainedSize: number;
+}
+
+export interface HeapSnapshotSummary {
+  totalSize: number;
+  nodeCount: number;
+  constructors: Map<string, ConstructorStats>;
+}
+
+export interface ConstructorGrowth {
+  name: string;
+  before: ConstructorStats;
+  after: ConstructorStats;
+}
+
+function getFieldIndex(fields: string[], name: string): number {
+  const index = fields.indexOf(name);
+  if (index === -1) {
+    throw new Error(`Invalid heap snapshot: missing the ${name} field.`);
+  }
+  return index;
+}
+
+/**
+ * Returns the name the DevTools Memory panel groups objects by.
+ */
+function getClassName(type: string, name: string): string {
+  return type === 'object' || type === 'native' ? name : `(${type})`;
+}
+
+class Uint32ArrayBuilder {
+  #array = new Uint32Array(1024);
+  #length = 0;
+
+  push(value: number): void {
+    if (this.#length === this.#array.length) {
+      const array = new Uint32Array(this.#array.length * 2);
+      array.set(this.#array);
+      this.#array = array;
+    }
+    this.#array[this.#length++] = value;
+  }
+
+  build(): Uint32Array {
+    return this.#array.subarray(0, this.#length);
+  }
+}
+
+type ParserState =
+  'nodesKey' | 'nodes' | 'edgesKey' | 'edges' | 'stringsKey' | 'strings';
+
+const KEYS: Partial<Record<ParserState, RegExp>> = {
+  nodesKey: /"nodes"\s*:\s*\[/,
+  edgesKey: /"edges"\s*:\s*\[/,
+  stringsKey: /"strings"\s*:\s*\[/,
+};
+// Longer than any of the keys, so that a key split across chunks is found.
+const KEY_LOOKBEHIND = 32;
+
+/**
+ * Parses a heap snapshot from chunks of its JSON text, so that snapshots of
+ * hundreds of MB never have to be held in memory as a whole. The nodes and
+ * edges are read into typed arrays as they arrive. Like the DevTools loader,
+ * this relies on V8 writing the meta data first and the strings last.
+ */
+export class HeapSnapshotParser {
+  #state: ParserState = 'nodesKey';
+  // Text that could not be parsed yet.
+  #pending = '';
+  #meta?: HeapSnapshotMeta;
+  #nodes = new Uint32ArrayBuilder();
+  #edges = new Uint32ArrayBuilder();
+  #value = 0;
+  #inNumber = false;
+  #strings: string[] = [];
+  #error?: unknown;
+
+  /**
+   * Parses the next chunk. Errors are reported by close() so that chunks can
+   * be written from event listeners.
+   */
+  write(chunk: string): void {
+    if (this.#error) {
+      return;
+    }
+    try {
+      this.#parse(this.#pending + chunk);
+    } catch (error) {
+      this.#error = error;
+    }
+  }
+
+  close(): HeapSnapshotSummary {
+    if (this.#error) {
+      throw this.#error;
+    }
+    if (this.#state !== 'strings' || !this.#meta) {
+      throw new Error('Invalid heap snapshot: the snapshot is incomplete.');
+    }
+    const text = this.#strings.join('');
+    // Drop the end of the snapshot object after the strings array.
+    const strings: string[] = JSON.parse(
+      `[${text.slice(0, text.lastIndexOf(']') + 1)}`,
+    );
+    return summarize({
+      meta: this.#meta,
+      nodes: this.#nodes.build(),
+      edges: this.#edges.build(),
+      strings,
+    });
+  }
+
+  #parse(text: string): void {
+    this.#pending = '';
+    let offset = 0;
+    while (offset < text.length) {
+      const state = this.#state;
+      const key = KEYS[state];
+      if (key) {
+        const match = key.exec(text.slice(offset));
+        if (!match) {
+          // The meta data precedes the nodes and is kept until it is complete.
+          this.#pending =
+            state === 'nodesKey'
+              ? text
+              : text.slice(Math.max(offset, text.length - KEY_LOOKBEHIND));
+          return;
+        }
+        if (state === 'nodesKey') {
+          // The text up to the nodes is `{"snapshot":{...},`.
+          const header = text.slice(0, offset + match.index).trimEnd();
+          this.#meta = JSON.parse(`${header.replace(/,$/, '')}}`).snapshot
+            ?.meta;
+          if (!this.#meta) {
+            throw new Error('Invalid heap snapshot: missing the meta data.');
+          }
+        }
+        offset += match.index + match[0].length;
+        this.#state =
+          state === 'nodesKey'
+            ? 'nodes'
+            : state === 'edgesKey'
+              ? 'edges'
+              : 'strings';
+      } else if (state === 'nodes' || state === 'edges') {
+        const end = this.#readNumbers(
+          text,
+          offset,
+          state === 'nodes' ? this.#nodes : this.#edges,
+        );
+        if (end === -1) {
+          return;
+        }
+        offset = end;
+        this.#state = state === 'nodes' ? 'edgesKey' : 'stringsKey';
+      } else {
+        this.#strings.push(text.slice(offset));
+        return;
+      }
+    }
+  }
+
+  /**
+   * Reads the numbers of an array up to its closing bracket. Returns the
+   * offset after the bracket, or -1 if the array continues in the next chunk.
+   */
+  #readNumbers(
+    text: string,
+    offset: number,
+    builder: Uint32ArrayBuilder,
+  ): number {
+    for (let i = offset; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      if (code >= 0x30 && code <= 0x39) {
+        this.#value = this.#value * 10 + code - 0x30;
+        this.#inNumber = true;
+        continue;
+      }
+      if (this.#inNumber) {
+        builder.push(this.#value);
+        this.#value = 0;
+        this.#inNumber = false;
+      }
+      if (text[i] === ']') {
+        return i + 1;
+      }
+    }
+    return -1;
+  }
+}
+
+/**
+ * Computes the objects, self sizes and retained sizes by constructor of the
+ * objects reachable from the root of a heap snapshot. Weak edges do not
+ * retain objects.
+ */
+export function summarizeHeapSnapshot(data: string): HeapSnapshotSummary {
+  const parser = new HeapSnapshotParser();
+  parser.write(data);
+  return parser.close();
+}
+
+function summarize({
+  meta,
+  nodes,
+  edges,
+  strings,
+}: HeapSnapshotData): HeapSnapshotSummary {
+  const nodeFieldCount = meta.node_fields.length;
+  const nodeTypeOffset = getFieldIndex(meta.node_fields, 'type');
+  const nodeNameOffset = getFieldIndex(meta.node_fields, 'name');
+  const selfSizeOffset = getFieldIndex(meta.node_fields, 'self_size');
+  const edgeCountOffset = getFieldIndex(meta.node_fields, 'edge_count');
+  const edgeFieldCount = meta.edge_fields.length;
+  const edgeTypeOffset = getFieldIndex(meta.edge_fields, 'type');
+  const toNodeOffset = getFieldIndex(meta.edge_fields, 'to_node');
+  const nodeTypes = meta.node_types[0];
+  const weakEdgeType = meta.edge_types[0].indexOf('weak');
+  const nodeCount = nodes.length / nodeFieldCount;
+
+  // The edges of a node follow the edges of the previous node.
+  const firstEdge = new Uint32Array(nodeCount + 1);
+  for (let node = 0; node < nodeCount; node++) {
+    firstEdge[node + 1] =
+      firstEdge[node] +
+      nodes[node * nodeFieldCount + edgeCountOffset] * edgeFieldCount;
+  }
+  const forEachStrongEdge = (node: number, callback: (to: number) => void) => {
+    for (let edge = firstEdge[node]; edge < firstEdge[node + 1];) {
+      if (edges[edge + edgeTypeOffset] !== weakEdgeType) {
+        callback(edges[edge + toNodeOffset] / nodeFieldCount);
+      }
+      edge += edgeFieldCount;
+    }
+  };
+
+  // Number the nodes reachable from the root in depth-first postorder.
+  const postorderIndex = new Int32Array(nodeCount).fill(-1);
+  const postorder = new Uint32Array(nodeCount);
+  const visited = new Uint8Array(nodeCount);
+  const stackNodes = new Uint32Array(nodeCount);
+  const stackEdges = new Uint32Array(nodeCount);
+  let reachableCount = 0;
+  let stackSize = 1;
+  visited[0] = 1;
+  while (stackSize) {
+    const node = stackNodes[stackSize - 1];
+    const edge = stackEdges[stackSize - 1];
+    if (edge < firstEdge[node + 1]) {
+      stackEdges[stackSize - 1] = edge + edgeFieldCount;
+      const to = edges[edge + toNodeOffset] / nodeFieldCount;
+      if (edges[edge + edgeTypeOffset] !== weakEdgeType && !visited[to]) {
+        visited[to] = 1;
+        stackNodes[stackSize] = to;
+        stackEdges[stackSize] = firstEdge[to];
+        stackSize++;
+      }
+    } else {
+      postorderIndex[node] = reachableCount;
+      postorder[reachableCount++] = node;
+      stackSize--;
+    }
+  }
+
+  // The predecessors of the reachable nodes by postorder index.
+  const firstPredecessor = new Uint32Array(reachableCount + 1);
+  for (let index = 0; index < reachableCount; index++) {
+    forEachStrongEdge(postorder[index], to => {
+      firstPredecessor[postorderIndex[to] + 1]++;
+    });
+  }
+  for (let index = 0; index < reachableCount; index++) {
+    firstPredecessor[index + 1] += firstPredecessor[index];
+  }
+  const predecessors = new Uint32Array(firstPredecessor[reachableCount]);
+  const predecessorCounts = new Uint32Array(reachableCount);
+  for (let index = 0; index < reachableCount; index++) {
+    forEachStrongEdge(postorder[index], to => {
+      const toIndex = postorderIndex[to];
+      predecessors[firstPredecessor[toIndex] + predecessorCounts[toIndex]++] =
+        index;
+    });
+  }
+
+  // Compute the immediate dominators with the iterative algorithm from
+  // "A Simple, Fast Dominance Algorithm" by Cooper, Harvey and Kennedy. A
+  // dominator is an ancestor in the depth-first tree, so it always has a
+  // higher postorder index.
+  const rootIndex = reachableCount - 1;
+  const dominators = new Int32Array(reachableCount).fill(-1);
+  dominators[rootIndex] = rootIndex;
+  const intersect = (a: number, b: number) => {
+    while (a !== b) {
+      while (a < b) {
+        a = dominators[a];
+      }
+      while (b < a) {
+        b = dominators[b];
+      }
+    }
+    return a;
+  };
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let index = rootIndex - 1; index >= 0; index--) {
+      let dominator = -1;
+      for (
+        let i = firstPredecessor[index];
+        i < firstPredecessor[index + 1];
+        i++
+      ) {
+        const predecessor = predecessors[i];
+        if (dominators[predecessor] === -1) {
+          continue;
+        }
+        dominator =
+          dominator === -1 ? predecessor : intersect(predecessor, dominator);
+      }
+      if (dominators[index] !== dominator) {
+        dominators[index] = dominator;
+        changed = true;
+      }
+    }
+  }
+
+  const retainedSizes = new Float64Array(reachableCount);
+  const classIds = new Uint32Array(reachableCount);
+  const classNames: string[] = [];
+  const classIdsByName = new Map<string, number>();
+  for (let index = 0; index < reachableCount; index++) {
+    const offset = postorder[index] * nodeFieldCount;
+    retainedSizes[index] = nodes[offset + selfSizeOffset];
+    const className = getClassName(
+      nodeTypes[nodes[offset + nodeTypeOffset]],
+      strings[nodes[offset + nodeNameOffset]],
+    );
+    let classId = classIdsByName.get(className);
+    if (classId === undefined) {
+      classId = classNames.length;
+      classNames.push(className);
+      classIdsByName.set(className, classId);
+    }
+    classIds[index] = classId;
+  }
+  for (let index = 0; index < rootIndex; index++) {
+    retainedSizes[dominators[index]] += retainedSizes[index];
+  }
+
+  // Walk the dominator tree and only count the retained size of objects that
+  // are not dominated by an object of the same constructor.
+  const firstChild = new Uint32Array(reachableCount + 1);
+  for (let index = 0; index < rootIndex; index++) {
+    firstChild[dominators[index] + 1]++;
+  }
+  for (let index = 0; index < reachableCount; index++) {
+    firstChild[index + 1] += firstChild[index];
+  }
+  const children = new Uint32Array(Math.max(rootIndex, 0));
+  const childCounts = new Uint32Array(reachableCount);
+  for (let index = 0; index < rootIndex; index++) {
+    const dominator = dominators[index];
+    children[firstChild[dominator] + childCounts[dominator]++] = index;
+  }
+  const stats = classNames.map(() => ({
+    count: 0,
+    selfSize: 0,
+    retainedSize: 0,
+  }));
+  const classesOnStack = new Uint32Array(classNames.length);
+  const enter = (index: number) => {
+    const classId = classIds[index];
+    const classStats = stats[classId];
+    classStats.count++;
+    classStats.selfSize +=
+      nodes[postorder[index] * nodeFieldCount + selfSizeOffset];
+    if (!classesOnStack[classId]) {
+      classStats.retainedSize += retainedSizes[index];
+    }
+    classesOnStack[classId]++;
+  };
+  stackNodes[0] = rootIndex;
+  stackEdges[0] = firstChild[rootIndex];
+  stackSize = 1;
+  enter(rootIndex);
+  while (stackSize) {
+    const index = stackNodes[stackSize - 1];
+    const child = stackEdges[stackSize - 1];
+    if (child < firstChild[index + 1]) {
+      stackEdges[stackSize - 1]++;
+      const childIndex = children[child];
+      enter(childIndex);
+      stackNodes[stackSize] = childIndex;
+      stackEdges[stackSize] = firstChild[childIndex];
+      stackSize++;
+    } else {
+      classesOnStack[classIds[index]]--;
+      stackSize--;
+    }
+  }
+
+  const constructors = new Map<string, ConstructorStats>();
+  classNames.forEach((name, classId) => {
+    if (name !== '(synthetic)') {
+      constructors.set(name, stats[classId]);
+    }
+  });
+  return {
+    totalSize: retainedSizes[rootIndex] ?? 0,
+    nodeCount: reachableCount,
+    constructors,
+  };
+}
+
+/**
+ * Returns the constructors whose instance count and retained size both grew,
+ * sorted by the growth of the retained size.
+ */
+export function getConstructorGrowth(
+  before: HeapSnapshotSummary,
+  after: HeapSnapshotSummary,
+): ConstructorGrowth[] {
+  const empty: ConstructorStats = {count: 0, selfSize: 0, retainedSize: 0};
+  const growth: ConstructorGrowth[] = [];
+  for (const [name, afterStats] of after.constructors) {
+    const beforeStats = before.constructors.get(name) ?? empty;
+    if (
+      afterStats.count > beforeStats.count &&
+      afterStats.retainedSize > beforeStats.retainedSize
+    ) {
+      growth.push({name, before: beforeStats, after: afterStats});
+    }
+  }
+  return growth.sort(
+    (a, b) =>
+      b.after.retainedSize -
+      b.before.retainedSize -
+      (a.after.retainedSize - a.before.retainedSize),
+  );
+}
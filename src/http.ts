@@ -0,0 +1,182 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {randomUUID} from 'node:crypto';
+import http from 'node:http';
+import type {AddressInfo} from 'node:net';
+
+import {logger} from './logger.js';
+import {StreamableHTTPServerTransport} from './third_party/index.js';
+import type {McpServer} from './third_party/index.js';
+
+export const MCP_ENDPOINT = '/mcp';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /**
+   * Creates a new MCP server for every session. An MCP server can only be
+   * connected to a single transport, so sessions cannot share one.
+   */
+  createServer: () => McpServer;
+}
+
+function sendJsonRpcError(
+  res: http.ServerResponse,
+  statusCode: number,
+  message: string,
+) {
+  res.writeHead(statusCode, {'Content-Type': 'application/json'});
+  res.end(
+    JSON.stringify({
+      jsonrpc: '2.0',
+      error: {
+        code: -32000,
+        message,
+      },
+      id: null,
+    }),
+  );
+}
+
+/**
+ * Returns the `Host` header values the server accepts, so that pages cannot
+ * reach it through DNS rebinding. Servers listening on all interfaces accept
+ * any host.
+ */
+function getAllowedHosts(
+  httpServer: http.Server,
+  host: string,
+): Set<string> | undefined {
+  const {address, port} = httpServer.address() as AddressInfo;
+  if (address === '0.0.0.0' || address === '::') {
+    return;
+  }
+  const hosts = new Set([
+    new URL(getHttpServerUrl(httpServer)).host,
+    new URL(
+      `http://${host.includes(':') && !host.startsWith('[') ? `[${host}]` : host}:${port}`,
+    ).host,
+  ]);
+  if (address === '::1' || address.startsWith('127.')) {
+    hosts.add(`localhost:${port}`);
+  }
+  return hosts;
+}
+
+function isAllowedRequest(
+  req: http.IncomingMessage,
+  allowedHosts: Set<string>,
+): boolean {
+  const {host, origin} = req.headers;
+  if (!host || !allowedHosts.has(host.toLowerCase())) {
+    return false;
+  }
+  if (!origin) {
+    return true;
+  }
+  try {
+    return allowedHosts.has(new URL(origin).host);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Serves MCP over the Streamable HTTP transport. Every client gets its own
+ * session that is identified by the `Mcp-Session-Id` header.
+ */
+export async function startHttpServer(
+  options: HttpServerOptions,
+): Promise<http.Server> {
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+
+  async function handleMcpRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ) {
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const transport = transports.get(sessionId);
+      if (!transport) {
+        sendJsonRpcError(res, 404, `Session ${sessionId} not found`);
+        return;
+      }
+      await transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const transport: StreamableHTTPServerTransport =
+      new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => {
+          logger(`HTTP session ${id} initialized`);
+          transports.set(id, transport);
+        },
+      });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        logger(`HTTP session ${transport.sessionId} closed`);
+        transports.delete(transport.sessionId);
+      }
+    };
+    const server = options.createServer();
+    await server.connect(transport);
+    await transport.handleRequest(req, res);
+    // The transport rejects requests other than initialize without a session.
+    if (!transport.sessionId) {
+      await server.close();
+    }
+  }
+
+  const httpServer = http.createServer(async (req, res) => {
+    const allowedHosts = getAllowedHosts(httpServer, options.host);
+    if (allowedHosts && !isAllowedRequest(req, allowedHosts)) {
+      sendJsonRpcError(res, 403, 'Forbidden: Invalid Host or Origin header');
+      return;
+    }
+    const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+    if (url.pathname !== MCP_ENDPOINT) {
+      res.writeHead(404).end();
+      return;
+    }
+    try {
+      await handleMcpRequest(req, res);
+    } catch (error) {
+      logger('Error handling MCP request', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  });
+
+  httpServer.on('close', () => {
+    for (const transport of transports.values()) {
+      void transport.close();
+    }
+    transports.clear();
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
+
+export function getHttpServerUrl(httpServer: http.Server): string {
+  const {address, port, family} = httpServer.address() as AddressInfo;
+  const host = family === 'IPv6' ? `[${address}]` : address;
+  return `http://${host}:${port}${MCP_ENDPOINT}`;
+}
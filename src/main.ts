@@ -10,6 +10,7 @@ import type {Channel} from './browser.js';
 import {ensureBrowserConnected, ensureBrowserLaunched} from './browser.js';
 import {parseArguments} from './cli.js';
 import {features} from './features.js';
+import {getHttpServerUrl, startHttpServer} from './http.js';
 import {loadIssueDescriptions} from './issue-descriptions.js';
 import {logger, saveLogsToFile} from './logger.js';
 import {McpContext} from './McpContext.js';
@@ -18,52 +19,47 @@ import {Mutex} from './Mutex.js';
 import {
   McpServer,
   StdioServerTransport,
+  type Browser,
+  type BrowserContext,
   type CallToolResult,
   SetLevelRequestSchema,
 } from './third_party/index.js';
 import {ToolCategory} from './tools/categories.js';
 import * as consoleTools from './tools/console.js';
+import * as coverageTools from './tools/coverage.js';
+import * as debuggerTools from './tools/debugger.js';
 import * as emulationTools from './tools/emulation.js';
 import * as inputTools from './tools/input.js';
+import * as memoryTools from './tools/memory.js';
 import * as networkTools from './tools/network.js';
 import * as pagesTools from './tools/pages.js';
 import * as performanceTools from './tools/performance.js';
+import * as profilerTools from './tools/profiler.js';
 import * as screenshotTools from './tools/screenshot.js';
 import * as scriptTools from './tools/script.js';
 import * as snapshotTools from './tools/snapshot.js';
 import type {ToolDefinition} from './tools/ToolDefinition.js';
-
-// If moved update release-please config
-// x-release-please-start-version
-const VERSION = '0.10.2';
-// x-release-please-end
+import * as touchTools from './tools/touch.js';
+import {VERSION} from './version.js';
 
 export const args = parseArguments(VERSION);
 
 const logFile = args.logFile ? saveLogsToFile(args.logFile) : undefined;
 
 logger(`Starting Chrome DevTools MCP Server v${VERSION}`);
-const server = new McpServer(
-  {
-    name: 'chrome_devtools',
-    title: 'Chrome DevTools MCP server',
-    version: VERSION,
-  },
-  {capabilities: {logging: {}}},
-);
-server.server.setRequestHandler(SetLevelRequestSchema, () => {
-  return {};
-});
 
-let context: McpContext;
-async function getContext(): Promise<McpContext> {
-  const extraArgs: string[] = (args.chromeArg ?? []).map(String);
-  if (args.proxyServer) {
-    extraArgs.push(`--proxy-server=${args.proxyServer}`);
-  }
-  const devtools = args.experimentalDevtools ?? false;
-  const browser =
-    args.browserUrl || args.wsEndpoint
+const browserMutex = new Mutex();
+async function getBrowser(): Promise<Browser> {
+  // Sessions may request the browser concurrently but only one browser
+  // should be launched.
+  const guard = await browserMutex.acquire();
+  try {
+    const extraArgs: string[] = (args.chromeArg ?? []).map(String);
+    if (args.proxyServer) {
+      extraArgs.push(`--proxy-server=${args.proxyServer}`);
+    }
+    const devtools = args.experimentalDevtools ?? false;
+    return args.browserUrl || args.wsEndpoint
       ? await ensureBrowserConnected({
           browserURL: args.browserUrl,
           wsEndpoint: args.wsEndpoint,
@@ -81,14 +77,58 @@ async function getContext(): Promise<McpContext> {
           acceptInsecureCerts: args.acceptInsecureCerts,
           devtools,
         });
+  } finally {
+    guard.dispose();
+  }
+}
+
+/**
+ * The state of a single MCP client. Tool calls within a session run one at a
+ * time while different sessions do not block each other.
+ */
+class Session {
+  readonly toolMutex = new Mutex();
+  #context?: McpContext;
+  #browserContext?: BrowserContext;
+  #isolated: boolean;
+
+  constructor(isolated: boolean) {
+    this.#isolated = isolated;
+  }
+
+  async getContext(): Promise<McpContext> {
+    const browser = await getBrowser();
+    if (this.#context?.browser !== browser) {
+      this.#context?.dispose();
+      this.#browserContext = undefined;
+      if (this.#isolated) {
+        this.#browserContext = await browser.createBrowserContext();
+        // A new browser context has no pages that could be selected.
+        await this.#browserContext.newPage();
+      }
+      this.#context = await McpContext.from(browser, logger, {
+        experimentalDevToolsDebugging: args.experimentalDevtools ?? false,
+        experimentalIncludeAllPages: args.experimentalIncludeAllPages,
+        browserContext: this.#browserContext,
+        snapshotDiff: args.snapshotDiff,
+        networkProfiles: args.networkProfiles,
+        rawTraceLimit: args.rawTraceLimit,
+        toolMutex: this.toolMutex,
+      });
+    }
+    return this.#context;
+  }
 
-  if (context?.browser !== browser) {
-    context = await McpContext.from(browser, logger, {
-      experimentalDevToolsDebugging: devtools,
-      experimentalIncludeAllPages: args.experimentalIncludeAllPages,
-    });
+  async dispose(): Promise<void> {
+    this.#context?.dispose();
+    this.#context = undefined;
+    try {
+      await this.#browserContext?.close();
+    } catch (error) {
+      logger('Error closing the browser context of a session', error);
+    }
+    this.#browserContext = undefined;
   }
-  return context;
 }
 
 const logDisclaimers = () => {
@@ -99,9 +139,11 @@ Avoid sharing sensitive or personal information that you do not want to share wi
   );
 };
 
-const toolMutex = new Mutex();
-
-function registerTool(tool: ToolDefinition): void {
+function registerTool(
+  server: McpServer,
+  session: Session,
+  tool: ToolDefinition,
+): void {
   if (
     tool.annotations.category === ToolCategory.EMULATION &&
     args.categoryEmulation === false
@@ -128,10 +170,10 @@ function registerTool(tool: ToolDefinition): void {
       annotations: tool.annotations,
     },
     async (params): Promise<CallToolResult> => {
-      const guard = await toolMutex.acquire();
+      const guard = await session.toolMutex.acquire();
       try {
         logger(`${tool.name} request: ${JSON.stringify(params, null, '  ')}`);
-        const context = await getContext();
+        const context = await session.getContext();
         logger(`${tool.name} context: resolved`);
         await context.detectOpenDevToolsWindows();
         const response = new McpResponse();
@@ -173,28 +215,65 @@ function registerTool(tool: ToolDefinition): void {
 
 const tools = [
   ...Object.values(consoleTools),
+  ...Object.values(coverageTools),
+  ...Object.values(debuggerTools),
   ...Object.values(emulationTools),
   ...Object.values(inputTools),
+  ...Object.values(memoryTools),
   ...Object.values(networkTools),
   ...Object.values(pagesTools),
   ...Object.values(performanceTools),
+  ...Object.values(profilerTools),
   ...Object.values(screenshotTools),
   ...Object.values(scriptTools),
   ...Object.values(snapshotTools),
+  ...Object.values(touchTools),
 ] as ToolDefinition[];
 
 tools.sort((a, b) => {
   return a.name.localeCompare(b.name);
 });
 
-for (const tool of tools) {
-  registerTool(tool);
+function createServer(): McpServer {
+  const server = new McpServer(
+    {
+      name: 'chrome_devtools',
+      title: 'Chrome DevTools MCP server',
+      version: VERSION,
+    },
+    {capabilities: {logging: {}}},
+  );
+  server.server.setRequestHandler(SetLevelRequestSchema, () => {
+    return {};
+  });
+  const session = new Session(
+    args.transport === 'http' && args.isolateSessions,
+  );
+  server.server.onclose = () => {
+    void session.dispose();
+  };
+  for (const tool of tools) {
+    registerTool(server, session, tool);
+  }
+  return server;
 }
 
 if (features.issues) {
   await loadIssueDescriptions();
 }
-const transport = new StdioServerTransport();
-await server.connect(transport);
-logger('Chrome DevTools MCP Server connected');
+if (args.transport === 'http') {
+  const httpServer = await startHttpServer({
+    host: args.host,
+    port: args.port,
+    createServer,
+  });
+  logger('Chrome DevTools MCP Server listening');
+  console.error(
+    `chrome-devtools-mcp is listening on ${getHttpServerUrl(httpServer)}`,
+  );
+} else {
+  const transport = new StdioServerTransport();
+  await createServer().connect(transport);
+  logger('Chrome DevTools MCP Server connected');
+}
 logDisclaimers();
@@ -4,11 +4,30 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type {TextSnapshotNode} from '../McpContext.js';
+import type {CpuProfiler} from '../CpuProfiler.js';
+import type {
+  EmulatedDevice,
+  GeolocationEmulation,
+  PermissionState,
+  StoredTrace,
+  TextSnapshot,
+  TextSnapshotNode,
+} from '../McpContext.js';
+import type {NetworkRoute, NetworkRouteOptions} from '../NetworkRouter.js';
+import type {PageDebugger} from '../PageDebugger.js';
 import {zod} from '../third_party/index.js';
-import type {Dialog, ElementHandle, Page} from '../third_party/index.js';
+import type {
+  Dialog,
+  ElementHandle,
+  HTTPRequest,
+  MediaFeature,
+  Page,
+} from '../third_party/index.js';
+import type {TouchEmulator} from '../TouchEmulator.js';
 import type {TraceResult} from '../trace-processing/parse.js';
+import type {NetworkProfile} from '../utils/networkProfiles.js';
 import type {PaginationOptions} from '../utils/types.js';
+import type {WebVitalsCollector} from '../WebVitalsCollector.js';
 
 import type {ToolCategory} from './categories.js';
 
@@ -45,6 +64,9 @@ export interface ImageContentData {
 export interface SnapshotParams {
   verbose?: boolean;
   filePath?: string;
+  // Whether to only include the changes since the previous snapshot. Defaults
+  // to the snapshotDiff option of the server.
+  diff?: boolean;
 }
 
 export interface DevToolsData {
@@ -52,6 +74,17 @@ export interface DevToolsData {
   cdpBackendNodeId?: number;
 }
 
+/**
+ * Writes a file in chunks. Writes are queued, so write() does not need to be
+ * awaited.
+ */
+export interface FileWriter {
+  filename: string;
+  write(chunk: string): void;
+  /** Waits for the queued writes and closes the file. */
+  close(): Promise<void>;
+}
+
 export interface Response {
   appendResponseLine(value: string): void;
   setIncludePages(value: boolean): void;
@@ -84,8 +117,20 @@ export interface Response {
 export type Context = Readonly<{
   isRunningPerformanceTrace(): boolean;
   setIsRunningPerformanceTrace(x: boolean): void;
+  getRunningPerformanceTraceId(): number | undefined;
+  setUnreportedTraceOutput(lines: string[]): void;
+  takeUnreportedTraceOutput(): string[] | undefined;
+  runExclusive<T>(action: () => Promise<T>): Promise<T>;
   recordedTraces(): TraceResult[];
-  storeTraceRecording(result: TraceResult): void;
+  storeTraceRecording(
+    result: TraceResult,
+    source?: string,
+    rawData?: Uint8Array,
+  ): StoredTrace;
+  getStoredTraces(): StoredTrace[];
+  getStoredTrace(id?: number): StoredTrace;
+  isRunningCoverage(): boolean;
+  setIsRunningCoverage(x: boolean): void;
   getSelectedPage(): Page;
   getDialog(): Dialog | undefined;
   clearDialog(): void;
@@ -96,8 +141,37 @@ export type Context = Readonly<{
   selectPage(page: Page): void;
   getElementByUid(uid: string): Promise<ElementHandle<Element>>;
   getAXNodeByUid(uid: string): TextSnapshotNode | undefined;
-  setNetworkConditions(conditions: string | null): void;
+  createTextSnapshot(verbose?: boolean): Promise<void>;
+  getTextSnapshot(): TextSnapshot | null;
+  setNetworkConditions(
+    conditions: string | null,
+    profile?: NetworkProfile,
+  ): void;
+  getNetworkProfile(name: string): NetworkProfile | undefined;
+  getNetworkProfileNames(): string[];
   setCpuThrottlingRate(rate: number): void;
+  setEmulatedDevice(device: EmulatedDevice | null): void;
+  setGeolocation(geolocation: GeolocationEmulation | null): void;
+  setTimezone(timezoneId: string | null): void;
+  setLocale(locale: string | null): void;
+  setPermission(
+    origin: string,
+    permission: string,
+    state: PermissionState,
+  ): void;
+  setMediaType(mediaType: string | null): void;
+  setMediaFeatures(features: MediaFeature[]): void;
+  setVisionDeficiency(type: string | null): void;
+  addNetworkRoute(options: NetworkRouteOptions): Promise<NetworkRoute>;
+  removeNetworkRoute(id: number): Promise<void>;
+  getNetworkRoutes(): NetworkRoute[];
+  getNetworkRequests(includePreservedRequests?: boolean): HTTPRequest[];
+  getNetworkRequestStartTime(request: HTTPRequest): number | undefined;
+  getNetworkRequestStableId(request: HTTPRequest): number;
+  getPageDebugger(): PageDebugger;
+  getTouchEmulator(): TouchEmulator;
+  getCpuProfiler(): CpuProfiler;
+  getWebVitalsCollector(): WebVitalsCollector;
   saveTemporaryFile(
     data: Uint8Array<ArrayBufferLike>,
     mimeType: 'image/png' | 'image/jpeg' | 'image/webp',
@@ -106,6 +180,9 @@ export type Context = Readonly<{
     data: Uint8Array<ArrayBufferLike>,
     filename: string,
   ): Promise<{filename: string}>;
+  loadFile(filename: string): Promise<Uint8Array>;
+  createFileWriter(filename: string): Promise<FileWriter>;
+  readFileChunks(filename: string): AsyncIterable<string>;
   waitForEventsAfterAction(action: () => Promise<unknown>): Promise<void>;
   waitForTextOnPage(params: {
     text: string;
@@ -143,3 +220,12 @@ export const timeoutSchema = {
       return value && value <= 0 ? undefined : value;
     }),
 };
+
+export const traceInteractionSchema = {
+  traceInteraction: zod
+    .boolean()
+    .optional()
+    .describe(
+      'Set to true to record a performance trace of just this interaction and report its Interaction to Next Paint (INP) breakdown with the long tasks that delayed it.',
+    ),
+};
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  formatCoverageTotal,
+  getShortDescriptionForCoverage,
+  sortByUnusedBytes,
+  summarizeCoverage,
+} from '../formatters/coverageFormatter.js';
+import {zod} from '../third_party/index.js';
+
+import {ToolCategory} from './categories.js';
+import {defineTool} from './ToolDefinition.js';
+
+export const startCoverage = defineTool({
+  name: 'start_coverage',
+  description:
+    'Starts recording which JavaScript and CSS code of the selected page is used. Use stop_coverage to get the used and unused bytes of each script and stylesheet.',
+  annotations: {
+    category: ToolCategory.PERFORMANCE,
+    readOnlyHint: true,
+  },
+  schema: {
+    reload: zod
+      .boolean()
+      .optional()
+      .describe(
+        'Set to true to reload the page after starting so that the code that runs while the page loads is included.',
+      ),
+    resetOnNavigation: zod
+      .boolean()
+      .optional()
+      .describe(
+        'Set to false to keep the coverage of the previous documents when the page navigates. Default is true.',
+      ),
+  },
+  handler: async (request, response, context) => {
+    if (context.isRunningCoverage()) {
+      throw new Error(
+        'Coverage is already being recorded for the selected page. Use stop_coverage to stop it.',
+      );
+    }
+    const page = context.getSelectedPage();
+    const resetOnNavigation = request.params.resetOnNavigation ?? true;
+    await page.coverage.startJSCoverage({resetOnNavigation});
+    try {
+      await page.coverage.startCSSCoverage({resetOnNavigation});
+    } catch (error) {
+      // Stop the JS coverage so that the next start does not fail.
+      await page.coverage.stopJSCoverage();
+      throw error;
+    }
+    context.setIsRunningCoverage(true);
+    if (request.params.reload) {
+      await page.reload({waitUntil: ['load']});
+    }
+    response.appendResponseLine(
+      'Coverage recording started. Use stop_coverage to stop it and get the results.',
+    );
+  },
+});
+
+export const stopCoverage = defineTool({
+  name: 'stop_coverage',
+  description:
+    'Stops recording the JavaScript and CSS coverage of the selected page and reports the used and unused bytes of each script and stylesheet, sorted by the number of unused bytes. Resources are referenced by the reqid of the request that loaded them if it is still available in list_network_requests.',
+  annotations: {
+    category: ToolCategory.PERFORMANCE,
+    // Not read-only due to filePath param.
+    readOnlyHint: false,
+  },
+  schema: {
+    filePath: zod
+      .string()
+      .optional()
+      .describe(
+        'The absolute path, or a path relative to the current working directory, to save the used ranges of each script and stylesheet to as JSON.',
+      ),
+  },
+  handler: async (request, response, context) => {
+    if (!context.isRunningCoverage()) {
+      throw new Error(
+        'No coverage is being recorded for the selected page. Use start_coverage to start it.',
+      );
+    }
+    const page = context.getSelectedPage();
+    const [scripts, stylesheets] = await Promise.all([
+      page.coverage.stopJSCoverage(),
+      page.coverage.stopCSSCoverage(),
+    ]).finally(() => {
+      context.setIsRunningCoverage(false);
+    });
+
+    const reqids = new Map<string, number>();
+    for (const networkRequest of context.getNetworkRequests(true)) {
+      reqids.set(
+        networkRequest.url(),
+        context.getNetworkRequestStableId(networkRequest),
+      );
+    }
+    const getReqid = (url: string) => reqids.get(url);
+    const summaries = sortByUnusedBytes([
+      ...summarizeCoverage(scripts, 'script', getReqid),
+      ...summarizeCoverage(stylesheets, 'stylesheet', getReqid),
+    ]);
+
+    response.appendResponseLine('## JavaScript and CSS coverage');
+    if (!summaries.length) {
+      response.appendResponseLine('No scripts or stylesheets were loaded.');
+    } else {
+      response.appendResponseLine(formatCoverageTotal(summaries));
+      for (const summary of summaries) {
+        response.appendResponseLine(getShortDescriptionForCoverage(summary));
+      }
+    }
+
+    if (request.params.filePath) {
+      const file = await context.saveFile(
+        new TextEncoder().encode(JSON.stringify(summaries, null, 2)),
+        request.params.filePath,
+      );
+      response.appendResponseLine(`Saved the used ranges to ${file.filename}.`);
+    }
+  },
+});
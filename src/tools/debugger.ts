@@ -0,0 +1,364 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  formatCallFrames,
+  formatScopeVariables,
+  formatSourceLines,
+  getShortDescriptionForBreakpoint,
+} from '../formatters/debuggerFormatter.js';
+import type {PageDebugger} from '../PageDebugger.js';
+import {zod} from '../third_party/index.js';
+
+import {ToolCategory} from './categories.js';
+import type {Context, Response} from './ToolDefinition.js';
+import {defineTool} from './ToolDefinition.js';
+
+export const setBreakpoint = defineTool({
+  name: 'set_breakpoint',
+  description: `Sets a breakpoint in the currently selected page. The breakpoint applies to all scripts loaded from the URL, including scripts loaded after future navigations. When an action hits the breakpoint, the response shows where the page is paused.`,
+  annotations: {
+    category: ToolCategory.DEBUGGING,
+    readOnlyHint: false,
+  },
+  schema: {
+    url: zod.string().describe('The full URL of the script.'),
+    lineNumber: zod
+      .number()
+      .int()
+      .min(1)
+      .describe('The 1-based line number to set the breakpoint on.'),
+    columnNumber: zod
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe(
+        'The 1-based column number to set the breakpoint on. Useful for minified scripts.',
+      ),
+    condition: zod
+      .string()
+      .optional()
+      .describe(
+        'A JavaScript expression. The page only pauses when it evaluates to true.',
+      ),
+  },
+  handler: async (request, response, context) => {
+    const breakpoint = await context
+      .getPageDebugger()
+      .setBreakpoint(request.params);
+    response.appendResponseLine(`Set breakpoint ${breakpoint.id}.`);
+    appendBreakpoints(response, context);
+  },
+});
+
+export const listBreakpoints = defineTool({
+  name: 'list_breakpoints',
+  description: `List the breakpoints of the currently selected page.`,
+  annotations: {
+    category: ToolCategory.DEBUGGING,
+    readOnlyHint: true,
+  },
+  schema: {},
+  handler: async (_request, response, context) => {
+    appendBreakpoints(response, context);
+  },
+});
+
+export const removeBreakpoint = defineTool({
+  name: 'remove_breakpoint',
+  description: `Removes a breakpoint from the currently selected page.`,
+  annotations: {
+    category: ToolCategory.DEBUGGING,
+    readOnlyHint: false,
+  },
+  schema: {
+    breakpointId: zod
+      .number()
+      .describe(
+        'The bpid of the breakpoint to remove. Call list_breakpoints to list breakpoints.',
+      ),
+  },
+  handler: async (request, response, context) => {
+    await context
+      .getPageDebugger()
+      .removeBreakpoint(request.params.breakpointId);
+    response.appendResponseLine(
+      `Removed breakpoint ${request.params.breakpointId}.`,
+    );
+    appendBreakpoints(response, context);
+  },
+});
+
+export const resume = defineTool({
+  name: 'resume',
+  description: `Resumes the execution of the currently selected page if it is paused in the debugger.`,
+  annotations: {
+    category: ToolCategory.DEBUGGING,
+    readOnlyHint: false,
+  },
+  schema: {},
+  handler: async (_request, response, context) => {
+    await continueExecution(
+      context,
+      response,
+      pageDebugger => pageDebugger.resume(),
+      'Resumed.',
+    );
+  },
+});
+
+export const stepOver = defineTool({
+  name: 'step_over',
+  description: `Steps over the next statement of the currently selected page if it is paused in the debugger.`,
+  annotations: {
+    category: ToolCategory.DEBUGGING,
+    readOnlyHint: false,
+  },
+  schema: {},
+  handler: async (_request, response, context) => {
+    await continueExecution(
+      context,
+      response,
+      pageDebugger => pageDebugger.stepOver(),
+      'Stepped over.',
+    );
+  },
+});
+
+export const stepInto = defineTool({
+  name: 'step_into',
+  description: `Steps into the next function call of the currently selected page if it is paused in the debugger.`,
+  annotations: {
+    category: ToolCategory.DEBUGGING,
+    readOnlyHint: false,
+  },
+  schema: {},
+  handler: async (_request, response, context) => {
+    await continueExecution(
+      context,
+      response,
+      pageDebugger => pageDebugger.stepInto(),
+      'Stepped into.',
+    );
+  },
+});
+
+export const stepOut = defineTool({
+  name: 'step_out',
+  description: `Steps out of the current function of the currently selected page if it is paused in the debugger.`,
+  annotations: {
+    category: ToolCategory.DEBUGGING,
+    readOnlyHint: false,
+  },
+  schema: {},
+  handler: async (_request, response, context) => {
+    await continueExecution(
+      context,
+      response,
+      pageDebugger => pageDebugger.stepOut(),
+      'Stepped out.',
+    );
+  },
+});
+
+export const getCallStack = defineTool({
+  name: 'get_call_stack',
+  description: `Gets the call stack, including async frames, of the currently selected page while it is paused in the debugger.`,
+  annotations: {
+    category: ToolCategory.DEBUGGING,
+    readOnlyHint: true,
+  },
+  schema: {},
+  handler: async (_request, response, context) => {
+    const event = context.getPageDebugger().getPausedEvent();
+    if (!event) {
+      response.appendResponseLine(
+        'The selected page is not paused in the debugger.',
+      );
+      return;
+    }
+    response.appendResponseLine('## Call stack');
+    for (const line of formatCallFrames(
+      event.callFrames,
+      event.asyncStackTrace,
+    )) {
+      response.appendResponseLine(line);
+    }
+  },
+});
+
+export const getScopeVariables = defineTool({
+  name: 'get_scope_variables',
+  description: `Gets the variables of all scopes of a call frame of the currently selected page while it is paused in the debugger.`,
+  annotations: {
+    category: ToolCategory.DEBUGGING,
+    readOnlyHint: true,
+  },
+  schema: {
+    frameIndex: zod
+      .number()
+      .int()
+      .min(0)
+      .default(0)
+      .optional()
+      .describe(
+        'The index of the call frame as listed by get_call_stack. Default is the top frame.',
+      ),
+    includeGlobal: zod
+      .boolean()
+      .default(false)
+      .optional()
+      .describe('Set to true to also return the variables of global scope.'),
+  },
+  handler: async (request, response, context) => {
+    const scopes = await context
+      .getPageDebugger()
+      .getScopeVariables(
+        request.params.frameIndex ?? 0,
+        request.params.includeGlobal,
+      );
+    response.appendResponseLine(
+      `## Scope variables of frame #${request.params.frameIndex ?? 0}`,
+    );
+    for (const line of formatScopeVariables(scopes)) {
+      response.appendResponseLine(line);
+    }
+  },
+});
+
+const DEFAULT_SOURCE_LINE_COUNT = 100;
+
+export const getScriptSource = defineTool({
+  name: 'get_script_source',
+  description: `Lists the scripts parsed in the currently selected page since the last navigation along with the original sources of their source maps, or returns a range of lines of one script or original source.`,
+  annotations: {
+    category: ToolCategory.DEBUGGING,
+    readOnlyHint: true,
+  },
+  schema: {
+    url: zod
+      .string()
+      .optional()
+      .describe(
+        'The URL of a script or of an original source listed in its source map. When omitted, lists the scripts.',
+      ),
+    scriptId: zod
+      .string()
+      .optional()
+      .describe(
+        'The scriptId of the script. Use it to pick one of several inline scripts of the same document.',
+      ),
+    startLine: zod
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe('The 1-based first line to return. Default is 1.'),
+    endLine: zod
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe(
+        `The 1-based last line to return. Default is ${DEFAULT_SOURCE_LINE_COUNT - 1} lines after startLine.`,
+      ),
+  },
+  handler: async (request, response, context) => {
+    const pageDebugger = context.getPageDebugger();
+    const {url, scriptId} = request.params;
+    const scripts = await pageDebugger.getScripts();
+    if (!url && !scriptId) {
+      response.appendResponseLine('## Scripts');
+      if (!scripts.length) {
+        response.appendResponseLine('No scripts.');
+      }
+      for (const script of scripts) {
+        response.appendResponseLine(
+          `scriptId=${script.scriptId} ${script.url} (lines ${script.startLine + 1}-${script.endLine + 1})`,
+        );
+        const sourceMap = await pageDebugger.getSourceMap(script.scriptId);
+        for (const source of sourceMap?.sources() ?? []) {
+          response.appendResponseLine(`  original: ${source}`);
+        }
+      }
+      return;
+    }
+
+    const startLine = request.params.startLine ?? 1;
+    const endLine =
+      request.params.endLine ?? startLine + DEFAULT_SOURCE_LINE_COUNT - 1;
+    const script = scripts.findLast(script => {
+      return scriptId ? script.scriptId === scriptId : script.url === url;
+    });
+    if (script) {
+      const source = await pageDebugger.getScriptSource(script.scriptId);
+      response.appendResponseLine(
+        `## Source of scriptId=${script.scriptId} ${script.url}`,
+      );
+      for (const line of formatSourceLines(
+        source,
+        startLine,
+        endLine,
+        script.startLine,
+      )) {
+        response.appendResponseLine(line);
+      }
+      return;
+    }
+    if (scriptId) {
+      throw new Error(`No script with scriptId ${scriptId} found.`);
+    }
+
+    for (const script of scripts) {
+      const sourceMap = await pageDebugger.getSourceMap(script.scriptId);
+      if (!sourceMap?.sources().includes(url!)) {
+        continue;
+      }
+      const source = sourceMap.sourceContent(url!);
+      if (source === undefined) {
+        throw new Error(
+          `The source map of ${script.url} does not include the content of ${url}.`,
+        );
+      }
+      response.appendResponseLine(
+        `## Original source ${url} (source-mapped from ${script.url})`,
+      );
+      for (const line of formatSourceLines(source, startLine, endLine)) {
+        response.appendResponseLine(line);
+      }
+      return;
+    }
+    throw new Error(`No script or original source with URL ${url} found.`);
+  },
+});
+
+async function continueExecution(
+  context: Context,
+  response: Response,
+  action: (pageDebugger: PageDebugger) => Promise<void>,
+  message: string,
+) {
+  const pageDebugger = context.getPageDebugger();
+  await context.waitForEventsAfterAction(() => action(pageDebugger));
+  response.appendResponseLine(
+    pageDebugger.getPausedEvent()
+      ? message
+      : `${message} The page is no longer paused.`,
+  );
+}
+
+function appendBreakpoints(response: Response, context: Context) {
+  response.appendResponseLine('## Breakpoints');
+  const breakpoints = context.getPageDebugger().getBreakpoints();
+  if (!breakpoints.length) {
+    response.appendResponseLine('No breakpoints.');
+    return;
+  }
+  for (const breakpoint of breakpoints) {
+    response.appendResponseLine(getShortDescriptionForBreakpoint(breakpoint));
+  }
+}
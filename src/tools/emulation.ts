@@ -4,17 +4,145 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import {zod, PredefinedNetworkConditions} from '../third_party/index.js';
+import type {EmulatedDevice} from '../McpContext.js';
+import {
+  zod,
+  KnownDevices,
+  PredefinedNetworkConditions,
+} from '../third_party/index.js';
+import type {CDPSession, Page} from '../third_party/index.js';
+import type {NetworkProfile} from '../utils/networkProfiles.js';
+import {networkProfileSchema} from '../utils/networkProfiles.js';
 
 import {ToolCategory} from './categories.js';
 import {defineTool} from './ToolDefinition.js';
 
-const throttlingOptions: [string, ...string[]] = [
-  'No emulation',
+const NO_EMULATION = 'No emulation';
+
+const throttlingOptions = [
+  NO_EMULATION,
   'Offline',
   ...Object.keys(PredefinedNetworkConditions),
 ];
 
+const customDeviceSchema = zod.object({
+  name: zod.string().optional().describe('A name to report the device as.'),
+  width: zod.number().int().positive().describe('The viewport width.'),
+  height: zod.number().int().positive().describe('The viewport height.'),
+  deviceScaleFactor: zod
+    .number()
+    .positive()
+    .optional()
+    .describe('The device pixel ratio. Default is 1.'),
+  isMobile: zod
+    .boolean()
+    .optional()
+    .describe('Whether to emulate a mobile device. Default is false.'),
+  hasTouch: zod
+    .boolean()
+    .optional()
+    .describe('Whether the device supports touch. Default is false.'),
+  isLandscape: zod
+    .boolean()
+    .optional()
+    .describe('Whether the device is in landscape mode.'),
+  userAgent: zod
+    .string()
+    .optional()
+    .describe(
+      'The user agent of the device. If omitted, the default user agent is used.',
+    ),
+});
+
+function getKnownDevice(name: string): EmulatedDevice {
+  const knownName = Object.keys(KnownDevices).find(
+    knownName => knownName.toLowerCase() === name.toLowerCase(),
+  ) as keyof typeof KnownDevices | undefined;
+  if (!knownName) {
+    // Suggest devices of the same family, e.g. "iPhone" or "Pixel".
+    const [family] = name.toLowerCase().split(' ');
+    const portraitNames = Object.keys(KnownDevices).filter(
+      knownName => !knownName.endsWith('landscape'),
+    );
+    const similarNames = portraitNames.filter(knownName =>
+      knownName.toLowerCase().includes(family),
+    );
+    throw new Error(
+      `Unknown device "${name}". Known devices include: ${(similarNames.length ? similarNames : portraitNames).join(', ')}.`,
+    );
+  }
+  return {name: knownName, ...KnownDevices[knownName]};
+}
+
+function getCustomDevice({
+  name,
+  userAgent,
+  ...viewport
+}: zod.infer<typeof customDeviceSchema>): EmulatedDevice {
+  return {name: name ?? 'Custom device', userAgent: userAgent ?? '', viewport};
+}
+
+const MEDIA_FEATURES = [
+  'color-gamut',
+  'forced-colors',
+  'prefers-color-scheme',
+  'prefers-contrast',
+  'prefers-reduced-data',
+  'prefers-reduced-motion',
+  'prefers-reduced-transparency',
+] as const;
+
+const VISION_DEFICIENCIES = [
+  'achromatopsia',
+  'blurredVision',
+  'deuteranopia',
+  'protanopia',
+  'reducedContrast',
+  'tritanopia',
+] as const;
+
+const PERMISSIONS = [
+  'accelerometer',
+  'background-sync',
+  'camera',
+  'clipboard-read',
+  'clipboard-write',
+  'geolocation',
+  'gyroscope',
+  'idle-detection',
+  'magnetometer',
+  'microphone',
+  'midi',
+  'notifications',
+  'payment-handler',
+  'persistent-storage',
+] as const;
+
+// Overrides that Puppeteer has no API for are sent on the session of the page
+// so that they last as long as the page.
+function getPageSession(page: Page): CDPSession {
+  // @ts-expect-error use existing CDP client (internal Puppeteer API).
+  return page._client() as CDPSession;
+}
+
+async function emulateNetworkProfile(
+  page: Page,
+  profile: NetworkProfile,
+): Promise<void> {
+  await page.emulateNetworkConditions(profile);
+  if (profile.packetLoss) {
+    // Puppeteer does not support packet loss, so the conditions are sent again
+    // with it.
+    await getPageSession(page).send('Network.emulateNetworkConditions', {
+      offline: false,
+      latency: profile.latency,
+      downloadThroughput: profile.download,
+      uploadThroughput: profile.upload,
+      packetLoss: profile.packetLoss,
+    });
+  }
+}
+
 export const emulate = defineTool({
   name: 'emulate',
   description: `Emulates various features on the selected page.`,
@@ -24,10 +152,21 @@ export const emulate = defineTool({
   },
   schema: {
     networkConditions: zod
-      .enum(throttlingOptions)
+      .string()
       .optional()
       .describe(
-        `Throttle network. Set to "No emulation" to disable. If omitted, conditions remain unchanged.`,
+        `Throttle network. One of ${throttlingOptions.map(option => `"${option}"`).join(', ')} or the name of a custom profile from the --networkProfiles file. Set to "${NO_EMULATION}" to disable. If omitted, conditions remain unchanged.`,
+      ),
+    customNetworkConditions: networkProfileSchema
+      .extend({
+        name: zod
+          .string()
+          .optional()
+          .describe('A name to report the network conditions as.'),
+      })
+      .optional()
+      .describe(
+        'Custom network conditions to throttle the network with instead of named conditions.',
       ),
     cpuThrottlingRate: zod
       .number()
@@ -37,38 +176,211 @@ export const emulate = defineTool({
       .describe(
         'Represents the CPU slowdown factor. Set the rate to 1 to disable throttling. If omitted, throttling remains unchanged.',
       ),
+    device: zod
+      .string()
+      .optional()
+      .describe(
+        `The name of a device from Puppeteer's KnownDevices list to emulate the viewport, device scale factor, mobile mode, touch support and user agent of, for example "iPhone 15 Pro", "Pixel 5" or "iPad Pro landscape". Set to "${NO_EMULATION}" to disable. If omitted, device emulation remains unchanged. Changing mobile mode or touch support reloads the page.`,
+      ),
+    customDevice: customDeviceSchema
+      .optional()
+      .describe('A custom device to emulate instead of a known device.'),
+    geolocation: zod
+      .object({
+        latitude: zod.number().min(-90).max(90).describe('The latitude.'),
+        longitude: zod.number().min(-180).max(180).describe('The longitude.'),
+        accuracy: zod
+          .number()
+          .min(0)
+          .optional()
+          .describe('The accuracy in meters.'),
+      })
+      .nullable()
+      .optional()
+      .describe(
+        'The position to report to the Geolocation API. Pages also need the geolocation permission, see set_permission. Set to null to disable. If omitted, the geolocation remains unchanged.',
+      ),
+    timezone: zod
+      .string()
+      .optional()
+      .describe(
+        `An IANA timezone ID, for example "Europe/Berlin". Set to "${NO_EMULATION}" to disable. If omitted, the timezone remains unchanged.`,
+      ),
+    locale: zod
+      .string()
+      .optional()
+      .describe(
+        `An ICU locale, for example "de-DE", that changes Intl formatting and navigator.language. Set to "${NO_EMULATION}" to disable. If omitted, the locale remains unchanged.`,
+      ),
+    mediaType: zod
+      .enum(['screen', 'print', NO_EMULATION])
+      .optional()
+      .describe(
+        `The CSS media type to emulate, for example "print" to check print styles. Set to "${NO_EMULATION}" to disable. If omitted, the media type remains unchanged.`,
+      ),
+    mediaFeatures: zod
+      .array(
+        zod.object({
+          name: zod.enum(MEDIA_FEATURES).describe('The media feature.'),
+          value: zod
+            .string()
+            .describe(
+              'The value of the media feature, for example "dark" for prefers-color-scheme, "reduce" for prefers-reduced-motion or "active" for forced-colors.',
+            ),
+        }),
+      )
+      .optional()
+      .describe(
+        'The CSS media features to emulate. Replaces the previously emulated media features. Set to an empty list to disable. If omitted, the media features remain unchanged.',
+      ),
+    visionDeficiency: zod
+      .enum([...VISION_DEFICIENCIES, NO_EMULATION])
+      .optional()
+      .describe(
+        `The vision deficiency to render the page with, for example to check color contrast for color-blind users in screenshots. Set to "${NO_EMULATION}" to disable. If omitted, the vision deficiency remains unchanged.`,
+      ),
   },
-  handler: async (request, _response, context) => {
+  handler: async (request, response, context) => {
     const page = context.getSelectedPage();
     const networkConditions = request.params.networkConditions;
     const cpuThrottlingRate = request.params.cpuThrottlingRate;
+    const {device, customDevice} = request.params;
 
-    if (networkConditions) {
-      if (networkConditions === 'No emulation') {
-        await page.emulateNetworkConditions(null);
-        context.setNetworkConditions(null);
-        return;
+    const {customNetworkConditions} = request.params;
+    if (device && customDevice) {
+      throw new Error('Provide either device or customDevice, not both.');
+    }
+    if (networkConditions && customNetworkConditions) {
+      throw new Error(
+        'Provide either networkConditions or customNetworkConditions, not both.',
+      );
+    }
+    // Validate the arguments before emulating anything so that a rejected
+    // call leaves the page unchanged.
+    let networkProfile: NetworkProfile | undefined;
+    if (
+      networkConditions &&
+      networkConditions !== NO_EMULATION &&
+      networkConditions !== 'Offline'
+    ) {
+      networkProfile = context.getNetworkProfile(networkConditions);
+      if (!networkProfile) {
+        throw new Error(
+          `Unknown network conditions "${networkConditions}". Available conditions: ${[NO_EMULATION, 'Offline', ...context.getNetworkProfileNames()].join(', ')}.`,
+        );
       }
+    }
+    const {geolocation, timezone, locale} = request.params;
+    if (timezone && timezone !== NO_EMULATION) {
+      try {
+        new Intl.DateTimeFormat(undefined, {timeZone: timezone});
+      } catch {
+        throw new Error(`Invalid timezone: ${timezone}`);
+      }
+    }
+    if (locale && locale !== NO_EMULATION) {
+      try {
+        Intl.getCanonicalLocales(locale);
+      } catch {
+        throw new Error(`Invalid locale: ${locale}`);
+      }
+    }
+    const emulatedDevice =
+      device && device !== NO_EMULATION
+        ? getKnownDevice(device)
+        : customDevice
+          ? getCustomDevice(customDevice)
+          : undefined;
+
+    if (device === NO_EMULATION) {
+      await context.waitForEventsAfterAction(async () => {
+        await page.setViewport(null);
+        await page.setUserAgent('');
+      });
+      context.setEmulatedDevice(null);
+    } else if (emulatedDevice) {
+      await context.waitForEventsAfterAction(async () => {
+        await page.setViewport(emulatedDevice.viewport);
+        await page.setUserAgent(emulatedDevice.userAgent);
+      });
+      context.setEmulatedDevice(emulatedDevice);
+    }
+
+    if (geolocation === null) {
+      await getPageSession(page).send('Emulation.clearGeolocationOverride');
+      context.setGeolocation(null);
+    } else if (geolocation) {
+      await page.setGeolocation(geolocation);
+      context.setGeolocation(geolocation);
+    }
 
-      if (networkConditions === 'Offline') {
-        await page.emulateNetworkConditions({
-          offline: true,
-          download: 0,
-          upload: 0,
-          latency: 0,
+    if (timezone === NO_EMULATION) {
+      await page.emulateTimezone(undefined);
+      context.setTimezone(null);
+    } else if (timezone) {
+      await page.emulateTimezone(timezone);
+      context.setTimezone(timezone);
+    }
+
+    if (locale === NO_EMULATION) {
+      await getPageSession(page).send('Emulation.setLocaleOverride', {});
+      context.setLocale(null);
+    } else if (locale) {
+      try {
+        await getPageSession(page).send('Emulation.setLocaleOverride', {
+          locale,
         });
-        context.setNetworkConditions('Offline');
-        return;
+      } catch {
+        throw new Error(`Invalid locale: ${locale}`);
       }
+      context.setLocale(locale);
+    }
 
-      if (networkConditions in PredefinedNetworkConditions) {
-        const networkCondition =
-          PredefinedNetworkConditions[
-            networkConditions as keyof typeof PredefinedNetworkConditions
-          ];
-        await page.emulateNetworkConditions(networkCondition);
-        context.setNetworkConditions(networkConditions);
-      }
+    const {mediaType, mediaFeatures, visionDeficiency} = request.params;
+    if (mediaType === NO_EMULATION) {
+      await page.emulateMediaType(undefined);
+      context.setMediaType(null);
+    } else if (mediaType) {
+      await page.emulateMediaType(mediaType);
+      context.setMediaType(mediaType);
+    }
+
+    if (mediaFeatures) {
+      await page.emulateMediaFeatures(
+        mediaFeatures.length ? mediaFeatures : undefined,
+      );
+      context.setMediaFeatures(mediaFeatures);
+    }
+
+    if (visionDeficiency === NO_EMULATION) {
+      await page.emulateVisionDeficiency('none');
+      context.setVisionDeficiency(null);
+    } else if (visionDeficiency) {
+      await page.emulateVisionDeficiency(visionDeficiency);
+      context.setVisionDeficiency(visionDeficiency);
+    }
+
+    if (networkConditions === NO_EMULATION) {
+      await page.emulateNetworkConditions(null);
+      context.setNetworkConditions(null);
+    } else if (networkConditions === 'Offline') {
+      await page.emulateNetworkConditions({
+        offline: true,
+        download: 0,
+        upload: 0,
+        latency: 0,
+      });
+      context.setNetworkConditions('Offline');
+    } else if (networkConditions && networkProfile) {
+      await emulateNetworkProfile(page, networkProfile);
+      context.setNetworkConditions(networkConditions, networkProfile);
+    } else if (customNetworkConditions) {
+      const {name, ...profile} = customNetworkConditions;
+      await emulateNetworkProfile(page, profile);
+      context.setNetworkConditions(
+        name ?? 'Custom network conditions',
+        profile,
+      );
     }
 
     if (cpuThrottlingRate) {
@@ -77,3 +389,53 @@ export const emulate = defineTool({
     }
   },
 });
+
+export const setPermission = defineTool({
+  name: 'set_permission',
+  description: `Grants, denies or resets a permission, for example geolocation, notifications or clipboard-read, for an origin in the browser context of the selected page.`,
+  annotations: {
+    category: ToolCategory.EMULATION,
+    readOnlyHint: false,
+  },
+  schema: {
+    permission: zod.enum(PERMISSIONS).describe('The permission to set.'),
+    state: zod
+      .enum(['granted', 'denied', 'prompt'])
+      .describe(
+        'The state of the permission. "prompt" resets the permission to its default.',
+      ),
+    origin: zod
+      .string()
+      .optional()
+      .describe(
+        'The origin to set the permission for, for example "https://example.com". Defaults to the origin of the selected page.',
+      ),
+  },
+  handler: async (request, response, context) => {
+    const page = context.getSelectedPage();
+    const {permission, state} = request.params;
+    const origin = request.params.origin
+      ? new URL(request.params.origin).origin
+      : new URL(page.url()).origin;
+    if (origin === 'null') {
+      throw new Error(
+        'The selected page has no origin. Navigate to a page or provide an origin.',
+      );
+    }
+    const session = await page.browser().target().createCDPSession();
+    try {
+      await session.send('Browser.setPermission', {
+        permission: {name: permission},
+        setting: state,
+        origin,
+        browserContextId: page.browserContext().id,
+      });
+    } finally {
+      await session.detach();
+    }
+    context.setPermission(origin, permission, state);
+    response.appendResponseLine(
+      `Set the ${permission} permission to ${state} for ${origin}.`,
+    );
+  },
+});
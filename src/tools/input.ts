@@ -7,10 +7,24 @@
 import type {McpContext, TextSnapshotNode} from '../McpContext.js';
 import {zod} from '../third_party/index.js';
 import type {ElementHandle} from '../third_party/index.js';
+import {withInteractionTrace} from '../trace-processing/interaction.js';
 import {parseKey} from '../utils/keyboard.js';
 
 import {ToolCategory} from './categories.js';
-import {defineTool} from './ToolDefinition.js';
+import {defineTool, traceInteractionSchema} from './ToolDefinition.js';
+
+const mouseButtonSchema = zod
+  .enum(['left', 'right', 'middle'])
+  .optional()
+  .describe('The mouse button to click with. Default is left.');
+
+function describeClick(
+  button: 'left' | 'right' | 'middle' | undefined,
+  dblClick: boolean | undefined,
+): string {
+  const prefix = button && button !== 'left' ? `${button} ` : '';
+  return `${prefix}${dblClick ? 'double clicked' : 'clicked'}`;
+}
 
 export const click = defineTool({
   name: 'click',
@@ -29,20 +43,23 @@ export const click = defineTool({
       .boolean()
       .optional()
       .describe('Set to true for double clicks. Default is false.'),
+    button: mouseButtonSchema,
+    ...traceInteractionSchema,
   },
   handler: async (request, response, context) => {
-    const uid = request.params.uid;
+    const {uid, button, dblClick, traceInteraction} = request.params;
     const handle = await context.getElementByUid(uid);
     try {
-      await context.waitForEventsAfterAction(async () => {
-        await handle.asLocator().click({
-          count: request.params.dblClick ? 2 : 1,
-        });
-      });
+      await withInteractionTrace(context, response, traceInteraction, () =>
+        context.waitForEventsAfterAction(async () => {
+          await handle.asLocator().click({
+            count: dblClick ? 2 : 1,
+            button,
+          });
+        }),
+      );
       response.appendResponseLine(
-        request.params.dblClick
-          ? `Successfully double clicked on the element`
-          : `Successfully clicked on the element`,
+        `Successfully ${describeClick(button, dblClick)} on the element`,
       );
       response.includeSnapshot();
     } finally {
@@ -51,6 +68,69 @@ export const click = defineTool({
   },
 });
 
+export const mouseClickAt = defineTool({
+  name: 'mouse_click_at',
+  description: `Clicks at the given coordinates of the page. Use it for elements that are not in the page content snapshot, for example on a canvas or a map.`,
+  annotations: {
+    category: ToolCategory.INPUT,
+    readOnlyHint: false,
+  },
+  schema: {
+    x: zod
+      .number()
+      .describe(
+        'The x coordinate in CSS pixels from the left of the viewport.',
+      ),
+    y: zod
+      .number()
+      .describe('The y coordinate in CSS pixels from the top of the viewport.'),
+    button: mouseButtonSchema,
+    dblClick: zod
+      .boolean()
+      .optional()
+      .describe('Set to true for double clicks. Default is false.'),
+  },
+  handler: async (request, response, context) => {
+    const {x, y, button, dblClick} = request.params;
+    const page = context.getSelectedPage();
+    await context.waitForEventsAfterAction(async () => {
+      await page.mouse.click(x, y, {button, count: dblClick ? 2 : 1});
+    });
+    response.appendResponseLine(
+      `Successfully ${describeClick(button, dblClick)} at (${x}, ${y})`,
+    );
+    response.includeSnapshot();
+  },
+});
+
+export const mouseMoveAt = defineTool({
+  name: 'mouse_move_at',
+  description: `Moves the mouse to the given coordinates of the page, for example to hover over parts of a canvas or a chart.`,
+  annotations: {
+    category: ToolCategory.INPUT,
+    readOnlyHint: false,
+  },
+  schema: {
+    x: zod
+      .number()
+      .describe(
+        'The x coordinate in CSS pixels from the left of the viewport.',
+      ),
+    y: zod
+      .number()
+      .describe('The y coordinate in CSS pixels from the top of the viewport.'),
+  },
+  handler: async (request, response, context) => {
+    const {x, y} = request.params;
+    const page = context.getSelectedPage();
+    await context.waitForEventsAfterAction(async () => {
+      await page.mouse.move(x, y);
+    });
+    response.appendResponseLine(`Successfully moved the mouse to (${x}, ${y})`);
+    response.includeSnapshot();
+  },
+});
+
 export const hover = defineTool({
   name: 'hover',
   description: `Hover over the provided element`,
@@ -149,15 +229,22 @@ export const fill = defineTool({
         'The uid of an element on the page from the page content snapshot',
       ),
     value: zod.string().describe('The value to fill in'),
+    ...traceInteractionSchema,
   },
   handler: async (request, response, context) => {
-    await context.waitForEventsAfterAction(async () => {
-      await fillFormElement(
-        request.params.uid,
-        request.params.value,
-        context as McpContext,
-      );
-    });
+    await withInteractionTrace(
+      context,
+      response,
+      request.params.traceInteraction,
+      () =>
+        context.waitForEventsAfterAction(async () => {
+          await fillFormElement(
+            request.params.uid,
+            request.params.value,
+            context as McpContext,
+          );
+        }),
+    );
     response.appendResponseLine(`Successfully filled out the element`);
     response.includeSnapshot();
   },
@@ -192,6 +279,89 @@ export const drag = defineTool({
   },
 });
 
+export const scroll = defineTool({
+  name: 'scroll',
+  description: `Scrolls the page or a scrollable element. Scrolls by deltaX/deltaY, to the top or bottom with "to", or, if only a uid is given, scrolls that element into view.`,
+  annotations: {
+    category: ToolCategory.INPUT,
+    readOnlyHint: false,
+  },
+  schema: {
+    uid: zod
+      .string()
+      .optional()
+      .describe(
+        'The uid of an element from the page content snapshot. With deltaX, deltaY or to, the element is the scroll container. Omit to scroll the page.',
+      ),
+    deltaX: zod
+      .number()
+      .optional()
+      .describe('The number of CSS pixels to scroll to the right.'),
+    deltaY: zod
+      .number()
+      .optional()
+      .describe('The number of CSS pixels to scroll down.'),
+    to: zod
+      .enum(['top', 'bottom'])
+      .optional()
+      .describe('Scrolls to the top or the bottom of the scroll container.'),
+  },
+  handler: async (request, response, context) => {
+    const {uid, deltaX, deltaY, to} = request.params;
+    const scrollsContainer =
+      deltaX !== undefined || deltaY !== undefined || to !== undefined;
+    if (!uid && !scrollsContainer) {
+      throw new Error('Provide a uid, deltaX, deltaY or to.');
+    }
+    const handle = uid
+      ? await context.getElementByUid(uid)
+      : await context
+          .getSelectedPage()
+          .evaluateHandle(
+            () => document.scrollingElement ?? document.documentElement,
+          );
+    try {
+      if (!scrollsContainer) {
+        await context.waitForEventsAfterAction(async () => {
+          await handle.scrollIntoView();
+        });
+        response.appendResponseLine(
+          `Successfully scrolled the element into view`,
+        );
+        response.includeSnapshot();
+        return;
+      }
+      await context.waitForEventsAfterAction(async () => {
+        await handle.evaluate(
+          (element, deltaX, deltaY, to) => {
+            if (to) {
+              element.scrollTo({top: to === 'top' ? 0 : element.scrollHeight});
+            }
+            element.scrollBy(deltaX, deltaY);
+          },
+          deltaX ?? 0,
+          deltaY ?? 0,
+          to,
+        );
+      });
+      const position = await handle.evaluate(element => {
+        return {
+          x: Math.round(element.scrollLeft),
+          y: Math.round(element.scrollTop),
+          maxX: element.scrollWidth - element.clientWidth,
+          maxY: element.scrollHeight - element.clientHeight,
+        };
+      });
+      response.appendResponseLine(
+        `Successfully scrolled ${uid ? 'the element' : 'the page'}. The scroll position is x=${position.x} of ${position.maxX}, y=${position.y} of ${position.maxY}.`,
+      );
+      response.includeSnapshot();
+    } finally {
+      void handle.dispose();
+    }
+  },
+});
+
 export const fillForm = defineTool({
   name: 'fill_form',
   description: `Fill out multiple form elements at once`,
@@ -285,21 +455,28 @@ export const pressKey = defineTool({
       .describe(
         'A key or a combination (e.g., "Enter", "Control+A", "Control++", "Control+Shift+R"). Modifiers: Control, Shift, Alt, Meta',
       ),
+    ...traceInteractionSchema,
   },
   handler: async (request, response, context) => {
     const page = context.getSelectedPage();
     const tokens = parseKey(request.params.key);
     const [key, ...modifiers] = tokens;
 
-    await context.waitForEventsAfterAction(async () => {
-      for (const modifier of modifiers) {
-        await page.keyboard.down(modifier);
-      }
-      await page.keyboard.press(key);
-      for (const modifier of modifiers.toReversed()) {
-        await page.keyboard.up(modifier);
-      }
-    });
+    await withInteractionTrace(
+      context,
+      response,
+      request.params.traceInteraction,
+      () =>
+        context.waitForEventsAfterAction(async () => {
+          for (const modifier of modifiers) {
+            await page.keyboard.down(modifier);
+          }
+          await page.keyboard.press(key);
+          for (const modifier of modifiers.toReversed()) {
+            await page.keyboard.up(modifier);
+          }
+        }),
+    );
 
     response.appendResponseLine(
       `Successfully pressed key: ${request.params.key}`,
@@ -0,0 +1,189 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {HeapSnapshotSummary} from '../heapSnapshot.js';
+import {getConstructorGrowth, HeapSnapshotParser} from '../heapSnapshot.js';
+import {zod} from '../third_party/index.js';
+import type {Page} from '../third_party/index.js';
+
+import {ToolCategory} from './categories.js';
+import type {Context} from './ToolDefinition.js';
+import {defineTool} from './ToolDefinition.js';
+
+const MAX_CONSTRUCTORS = 20;
+
+function formatBytes(bytes: number): string {
+  if (Math.abs(bytes) < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} kB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatSigned(value: number, format: (value: number) => string) {
+  return `${value >= 0 ? '+' : '-'}${format(Math.abs(value))}`;
+}
+
+/**
+ * Takes a heap snapshot and passes its chunks to `onChunk` as they arrive
+ * instead of collecting the whole snapshot.
+ */
+async function takeHeapSnapshotOfPage(
+  page: Page,
+  onChunk: (chunk: string) => void,
+): Promise<void> {
+  const session = await page.createCDPSession();
+  try {
+    session.on('HeapProfiler.addHeapSnapshotChunk', ({chunk}) => {
+      onChunk(chunk);
+    });
+    await session.send('HeapProfiler.enable');
+    await session.send('HeapProfiler.takeHeapSnapshot', {
+      reportProgress: false,
+    });
+  } finally {
+    await session.detach();
+  }
+}
+
+async function summarizeHeapSnapshotFile(
+  context: Context,
+  filePath: string,
+): Promise<HeapSnapshotSummary> {
+  const parser = new HeapSnapshotParser();
+  for await (const chunk of context.readFileChunks(filePath)) {
+    parser.write(chunk);
+  }
+  return parser.close();
+}
+
+function getLargestConstructors(summary: HeapSnapshotSummary): string[] {
+  return [...summary.constructors]
+    .sort(([, a], [, b]) => b.retainedSize - a.retainedSize)
+    .slice(0, MAX_CONSTRUCTORS)
+    .map(
+      ([name, stats]) =>
+        `- ${name}: ${stats.count} objects, ${formatBytes(stats.retainedSize)} retained`,
+    );
+}
+
+export const takeHeapSnapshot = defineTool({
+  name: 'take_heap_snapshot',
+  description:
+    'Takes a heap snapshot of the JavaScript heap of the selected page after a garbage collection, saves it to a file that can be loaded in the DevTools Memory panel and reports the constructors that retain the most memory.',
+  annotations: {
+    category: ToolCategory.PERFORMANCE,
+    // Not read-only due to filePath param.
+    readOnlyHint: false,
+  },
+  schema: {
+    filePath: zod
+      .string()
+      .describe(
+        'The absolute path, or a path relative to the current working directory, to save the heap snapshot to, for example "before.heapsnapshot".',
+      ),
+  },
+  handler: async (request, response, context) => {
+    const parser = new HeapSnapshotParser();
+    const file = await context.createFileWriter(request.params.filePath);
+    try {
+      await takeHeapSnapshotOfPage(context.getSelectedPage(), chunk => {
+        parser.write(chunk);
+        file.write(chunk);
+      });
+    } finally {
+      await file.close();
+    }
+    const summary = parser.close();
+    response.appendResponseLine(`Saved the heap snapshot to ${file.filename}.`);
+    response.appendResponseLine(
+      `Total: ${formatBytes(summary.totalSize)} in ${summary.nodeCount} objects`,
+    );
+    response.appendResponseLine('## Largest constructors by retained size');
+    for (const line of getLargestConstructors(summary)) {
+      response.appendResponseLine(line);
+    }
+  },
+});
+
+export const compareHeapSnapshots = defineTool({
+  name: 'compare_heap_snapshots',
+  description:
+    'Compares two heap snapshots saved by take_heap_snapshot and lists the constructors whose instance count and retained size both grew. To find a leak, take a snapshot, repeat an interaction several times, take another snapshot and compare them. Constructors that grow with the number of repetitions are likely leaking.',
+  annotations: {
+    category: ToolCategory.PERFORMANCE,
+    readOnlyHint: true,
+  },
+  schema: {
+    beforeFilePath: zod
+      .string()
+      .describe('The path of the heap snapshot to compare against.'),
+    afterFilePath: zod
+      .string()
+      .describe('The path of the heap snapshot taken later.'),
+  },
+  handler: async (request, response, context) => {
+    const {beforeFilePath, afterFilePath} = request.params;
+    const before = await summarizeHeapSnapshotFile(context, beforeFilePath);
+    const after = await summarizeHeapSnapshotFile(context, afterFilePath);
+    response.appendResponseLine(
+      `# Comparison of ${beforeFilePath} with ${afterFilePath}`,
+    );
+    response.appendResponseLine(
+      `Total: ${formatBytes(before.totalSize)} -> ${formatBytes(after.totalSize)} (${formatSigned(after.totalSize - before.totalSize, formatBytes)})`,
+    );
+    response.appendResponseLine('## Constructors that grew');
+    const growth = getConstructorGrowth(before, after);
+    if (!growth.length) {
+      response.appendResponseLine(
+        'No constructor grew in both instance count and retained size.',
+      );
+    }
+    for (const {name, before, after} of growth.slice(0, MAX_CONSTRUCTORS)) {
+      response.appendResponseLine(
+        `- ${name}: ${before.count} -> ${after.count} objects (${formatSigned(after.count - before.count, String)}), ${formatBytes(before.retainedSize)} -> ${formatBytes(after.retainedSize)} retained (${formatSigned(after.retainedSize - before.retainedSize, formatBytes)})`,
+      );
+    }
+  },
+});
+
+export const getMemoryUsage = defineTool({
+  name: 'get_memory_usage',
+  description:
+    'Reports the JavaScript heap size, the number of DOM nodes and documents and the number of JavaScript event listeners of the selected page.',
+  annotations: {
+    category: ToolCategory.PERFORMANCE,
+    readOnlyHint: true,
+  },
+  schema: {
+    collectGarbage: zod
+      .boolean()
+      .optional()
+      .describe(
+        'Set to true to run a garbage collection first so that only memory that is still in use is reported.',
+      ),
+  },
+  handler: async (request, response, context) => {
+    const page = context.getSelectedPage();
+    if (request.params.collectGarbage) {
+      const session = await page.createCDPSession();
+      try {
+        await session.send('HeapProfiler.collectGarbage');
+      } finally {
+        await session.detach();
+      }
+    }
+    const metrics = await page.metrics();
+    response.appendResponseLine('## Memory usage');
+    response.appendResponseLine(
+      `JS heap: ${formatBytes(metrics.JSHeapUsedSize ?? 0)} used of ${formatBytes(metrics.JSHeapTotalSize ?? 0)}`,
+    );
+    response.appendResponseLine(`DOM nodes: ${metrics.Nodes ?? 0}`);
+    response.appendResponseLine(`Documents: ${metrics.Documents ?? 0}`);
+    response.appendResponseLine(
+      `JS event listeners: ${metrics.JSEventListeners ?? 0}`,
+    );
+  },
+});
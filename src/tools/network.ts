@@ -4,10 +4,13 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import {getShortDescriptionForRoute} from '../formatters/networkFormatter.js';
+import {createHar, parseHar} from '../har.js';
 import {zod} from '../third_party/index.js';
-import type {ResourceType} from '../third_party/index.js';
+import type {ErrorCode, ResourceType} from '../third_party/index.js';
 
 import {ToolCategory} from './categories.js';
+import type {Context, Response} from './ToolDefinition.js';
 import {defineTool} from './ToolDefinition.js';
 
 const FILTERABLE_RESOURCE_TYPES: readonly [ResourceType, ...ResourceType[]] = [
@@ -120,3 +123,202 @@ export const getNetworkRequest = defineTool({
     }
   },
 });
+
+const NETWORK_ERROR_REASONS: readonly [ErrorCode, ...ErrorCode[]] = [
+  'aborted',
+  'accessdenied',
+  'addressunreachable',
+  'blockedbyclient',
+  'blockedbyresponse',
+  'connectionaborted',
+  'connectionclosed',
+  'connectionfailed',
+  'connectionrefused',
+  'connectionreset',
+  'internetdisconnected',
+  'namenotresolved',
+  'timedout',
+  'failed',
+];
+
+export const addNetworkRoute = defineTool({
+  name: 'add_network_route',
+  description: `Intercepts requests of the currently selected page whose URL matches a pattern and fulfills them with a mocked response, aborts them or continues them with modified headers. Routes stay active across navigations until removed. When several routes match a request, the route added last is used.`,
+  annotations: {
+    category: ToolCategory.NETWORK,
+    readOnlyHint: false,
+  },
+  schema: {
+    url: zod
+      .string()
+      .describe(
+        'The URL pattern to match against the full request URL. Either a glob pattern where "*" matches any characters (e.g., "*/api/users*") or a regular expression enclosed in slashes (e.g., "/\\/api\\/v\\d+\\//").',
+      ),
+    action: zod
+      .enum(['fulfill', 'abort', 'continue'])
+      .describe(
+        'Whether to fulfill matching requests with a mocked response, abort them or continue them with modified headers.',
+      ),
+    status: zod
+      .number()
+      .int()
+      .min(100)
+      .max(599)
+      .optional()
+      .describe('The HTTP status of the mocked response. Default is 200.'),
+    headers: zod
+      .record(zod.string())
+      .optional()
+      .describe(
+        'For "fulfill", the headers of the mocked response. For "continue", the request headers to add or override.',
+      ),
+    body: zod
+      .string()
+      .optional()
+      .describe('The body of the mocked response (only action=fulfill).'),
+    errorReason: zod
+      .enum(NETWORK_ERROR_REASONS)
+      .optional()
+      .describe(
+        'The network error to abort matching requests with (only action=abort). Default is "failed".',
+      ),
+  },
+  handler: async (request, response, context) => {
+    const route = await context.addNetworkRoute(request.params);
+    response.appendResponseLine(`Added network route ${route.id}.`);
+    appendNetworkRoutes(response, context);
+  },
+});
+
+export const removeNetworkRoute = defineTool({
+  name: 'remove_network_route',
+  description: `Removes a network route from the currently selected page.`,
+  annotations: {
+    category: ToolCategory.NETWORK,
+    readOnlyHint: false,
+  },
+  schema: {
+    routeId: zod
+      .number()
+      .describe(
+        'The routeid of the network route to remove. Call list_network_routes to list routes.',
+      ),
+  },
+  handler: async (request, response, context) => {
+    await context.removeNetworkRoute(request.params.routeId);
+    response.appendResponseLine(
+      `Removed network route ${request.params.routeId}.`,
+    );
+    appendNetworkRoutes(response, context);
+  },
+});
+
+export const listNetworkRoutes = defineTool({
+  name: 'list_network_routes',
+  description: `List the network routes of the currently selected page along with the number of requests they matched.`,
+  annotations: {
+    category: ToolCategory.NETWORK,
+    readOnlyHint: true,
+  },
+  schema: {},
+  handler: async (_request, response, context) => {
+    appendNetworkRoutes(response, context);
+  },
+});
+
+export const exportHar = defineTool({
+  name: 'export_har',
+  description: `Exports the network requests of the currently selected page since the last navigation as a HAR 1.2 file, including timings, headers, redirects and the response bodies that are still available.`,
+  annotations: {
+    category: ToolCategory.NETWORK,
+    // Not read-only due to filePath param.
+    readOnlyHint: false,
+  },
+  schema: {
+    filePath: zod
+      .string()
+      .describe(
+        'The absolute path, or a path relative to the current working directory, to save the HAR file to.',
+      ),
+    includePreservedRequests: zod
+      .boolean()
+      .default(false)
+      .optional()
+      .describe(
+        'Set to true to also export the preserved requests over the last 3 navigations.',
+      ),
+  },
+  handler: async (request, response, context) => {
+    const requests = context.getNetworkRequests(
+      request.params.includePreservedRequests,
+    );
+    const har = await createHar(requests, networkRequest =>
+      context.getNetworkRequestStartTime(networkRequest),
+    );
+    const file = await context.saveFile(
+      new TextEncoder().encode(JSON.stringify(har, null, 2)),
+      request.params.filePath,
+    );
+    response.appendResponseLine(
+      `Exported ${har.log.entries.length} network requests to ${file.filename}.`,
+    );
+  },
+});
+
+export const replayHar = defineTool({
+  name: 'replay_har',
+  description: `Serves the requests of the currently selected page from the responses recorded in a HAR file instead of the network. Requests are matched by method and URL. The replay is added as a network route and stays active until removed with remove_network_route.`,
+  annotations: {
+    category: ToolCategory.NETWORK,
+    readOnlyHint: false,
+  },
+  schema: {
+    filePath: zod
+      .string()
+      .describe(
+        'The absolute path, or a path relative to the current working directory, of the HAR file to replay.',
+      ),
+    url: zod
+      .string()
+      .default('*')
+      .optional()
+      .describe(
+        'Only replay requests whose URL matches this pattern. Uses the same syntax as add_network_route. Default is all requests.',
+      ),
+    notFound: zod
+      .enum(['abort', 'continue'])
+      .default('abort')
+      .optional()
+      .describe(
+        'Whether to abort matching requests that are not in the HAR file or to send them to the network. Default is "abort".',
+      ),
+  },
+  handler: async (request, response, context) => {
+    const {filePath, url, notFound} = request.params;
+    const data = await context.loadFile(filePath);
+    const har = parseHar(new TextDecoder().decode(data));
+    const route = await context.addNetworkRoute({
+      url: url ?? '*',
+      action: 'replay',
+      har,
+      harFile: filePath,
+      notFound,
+    });
+    response.appendResponseLine(
+      `Replaying ${har.log.entries.length} recorded requests from ${filePath} with network route ${route.id}.`,
+    );
+    appendNetworkRoutes(response, context);
+  },
+});
+
+function appendNetworkRoutes(response: Response, context: Context) {
+  response.appendResponseLine('## Network routes');
+  const routes = context.getNetworkRoutes();
+  if (!routes.length) {
+    response.appendResponseLine('No network routes.');
+    return;
+  }
+  for (const route of routes) {
+    response.appendResponseLine(getShortDescriptionForRoute(route));
+  }
+}
@@ -4,14 +4,19 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import zlib from 'node:zlib';
+
+import {formatWebVitals} from '../formatters/webVitalsFormatter.js';
 import {logger} from '../logger.js';
 import {zod} from '../third_party/index.js';
 import type {Page} from '../third_party/index.js';
+import {compareTraces as formatTraceComparison} from '../trace-processing/compare.js';
 import type {InsightName} from '../trace-processing/parse.js';
 import {
   getInsightOutput,
   getTraceSummary,
   parseRawTraceBuffer,
+  TRACE_CATEGORIES,
   traceResultIsSuccess,
 } from '../trace-processing/parse.js';
 
@@ -19,6 +24,11 @@ import {ToolCategory} from './categories.js';
 import type {Context, Response} from './ToolDefinition.js';
 import {defineTool} from './ToolDefinition.js';
 
+const DEFAULT_TRACE_DURATION = 5_000;
+const DEFAULT_MAX_TRACE_DURATION = 30_000;
+// How long the network has to be idle for a trace to stop.
+const NETWORK_IDLE_TIME = 500;
+
 export const startTrace = defineTool({
   name: 'performance_start_trace',
   description:
@@ -38,6 +48,27 @@ export const startTrace = defineTool({
       .describe(
         'Determines if the trace recording should be automatically stopped.',
       ),
+    stopOn: zod
+      .enum(['duration', 'networkIdle', 'interaction'])
+      .optional()
+      .describe(
+        `When to stop the trace recording automatically if autoStop is true. "duration" stops after durationMs. "networkIdle" stops once the network is idle, at the latest after durationMs. "interaction" returns right away and stops once the network is idle after the next click, tap or key press on the page, for example from an input tool, at the latest after durationMs. Use performance_stop_trace to get the results of a trace that stopped after an interaction. Default is "duration".`,
+      ),
+    durationMs: zod
+      .number()
+      .int()
+      .positive()
+      .max(120_000)
+      .optional()
+      .describe(
+        `How long to record for if autoStop is true. Default is ${DEFAULT_TRACE_DURATION} ms, or ${DEFAULT_MAX_TRACE_DURATION} ms if stopOn is "networkIdle" or "interaction".`,
+      ),
+    extraCategories: zod
+      .array(zod.string())
+      .optional()
+      .describe(
+        'Trace categories to record in addition to the default ones, for example "disabled-by-default-devtools.timeline.layers" or "disabled-by-default-memory-infra".',
+      ),
   },
   handler: async (request, response, context) => {
     if (context.isRunningPerformanceTrace()) {
@@ -58,26 +89,9 @@ export const startTrace = defineTool({
       });
     }
 
-    // Keep in sync with the categories arrays in:
-    // https://source.chromium.org/chromium/chromium/src/+/main:third_party/devtools-frontend/src/front_end/panels/timeline/TimelineController.ts
-    // https://github.com/GoogleChrome/lighthouse/blob/master/lighthouse-core/gather/gatherers/trace.js
     const categories = [
-      '-*',
-      'blink.console',
-      'blink.user_timing',
-      'devtools.timeline',
-      'disabled-by-default-devtools.screenshot',
-      'disabled-by-default-devtools.timeline',
-      'disabled-by-default-devtools.timeline.invalidationTracking',
-      'disabled-by-default-devtools.timeline.frame',
-      'disabled-by-default-devtools.timeline.stack',
-      'disabled-by-default-v8.cpu_profiler',
-      'disabled-by-default-v8.cpu_profiler.hires',
-      'latencyInfo',
-      'loading',
-      'disabled-by-default-lighthouse',
-      'v8.execute',
-      'v8',
+      ...TRACE_CATEGORIES,
+      ...(request.params.extraCategories ?? []),
     ];
     await page.tracing.start({
       categories,
@@ -89,8 +103,23 @@ export const startTrace = defineTool({
       });
     }
 
-    if (request.params.autoStop) {
-      await new Promise(resolve => setTimeout(resolve, 5_000));
+    const stopOn = request.params.stopOn ?? 'duration';
+    const durationMs =
+      request.params.durationMs ??
+      (stopOn === 'duration'
+        ? DEFAULT_TRACE_DURATION
+        : DEFAULT_MAX_TRACE_DURATION);
+    if (request.params.autoStop && stopOn === 'interaction') {
+      await stopTracingAfterInteraction(page, context, durationMs);
+      response.appendResponseLine(
+        `The performance trace is being recorded and stops once the network is idle after the next interaction with the page. Then use performance_stop_trace to get the results.`,
+      );
+    } else if (request.params.autoStop) {
+      if (stopOn === 'networkIdle') {
+        await waitForNetworkIdle(page, durationMs);
+      } else {
+        await new Promise(resolve => setTimeout(resolve, durationMs));
+      }
       await stopTracingAndAppendOutput(page, response, context);
     } else {
       response.appendResponseLine(
@@ -103,7 +132,7 @@ export const startTrace = defineTool({
 export const stopTrace = defineTool({
   name: 'performance_stop_trace',
   description:
-    'Stops the active performance trace recording on the selected page.',
+    'Stops the active performance trace recording on the selected page, or reports the results of a trace that stopped after an interaction.',
   annotations: {
     category: ToolCategory.PERFORMANCE,
     readOnlyHint: true,
@@ -111,6 +140,10 @@ export const stopTrace = defineTool({
   schema: {},
   handler: async (_request, response, context) => {
     if (!context.isRunningPerformanceTrace()) {
+      // Report a trace that stopped after an interaction.
+      for (const line of context.takeUnreportedTraceOutput() ?? []) {
+        response.appendResponseLine(line);
+      }
       return;
     }
     const page = context.getSelectedPage();
@@ -137,18 +170,27 @@ export const analyzeInsight = defineTool({
       .describe(
         'The name of the Insight you want more information on. For example: "DocumentLatency" or "LCPBreakdown"',
       ),
+    traceId: zod
+      .number()
+      .optional()
+      .describe(
+        'The id of the trace to analyze. Defaults to the most recent trace.',
+      ),
   },
   handler: async (request, response, context) => {
-    const lastRecording = context.recordedTraces().at(-1);
-    if (!lastRecording) {
+    if (
+      request.params.traceId === undefined &&
+      !context.getStoredTraces().length
+    ) {
       response.appendResponseLine(
         'No recorded traces found. Record a performance trace so you have Insights to analyze.',
       );
       return;
     }
+    const trace = context.getStoredTrace(request.params.traceId);
 
     const insightOutput = getInsightOutput(
-      lastRecording,
+      trace.result,
       request.params.insightSetId,
       request.params.insightName as InsightName,
     );
@@ -161,9 +203,231 @@ export const analyzeInsight = defineTool({
   },
 });
 
+export const listTraces = defineTool({
+  name: 'performance_list_traces',
+  description:
+    'Lists the performance traces that were recorded or loaded in this session with their ids.',
+  annotations: {
+    category: ToolCategory.PERFORMANCE,
+    readOnlyHint: true,
+  },
+  schema: {},
+  handler: async (_request, response, context) => {
+    const traces = context.getStoredTraces();
+    if (!traces.length) {
+      response.appendResponseLine('No recorded traces found.');
+      return;
+    }
+    for (const trace of traces) {
+      response.appendResponseLine(
+        `traceId=${trace.id} ${trace.source}${trace.rawData ? '' : ' (raw events discarded, cannot be saved)'}`,
+      );
+    }
+  },
+});
+
+export const saveTrace = defineTool({
+  name: 'performance_save_trace',
+  description:
+    'Saves the raw events of a performance trace to a file that can be loaded in the DevTools Performance panel or with performance_load_trace.',
+  annotations: {
+    category: ToolCategory.PERFORMANCE,
+    readOnlyHint: false,
+  },
+  schema: {
+    filePath: zod
+      .string()
+      .describe(
+        'The path to save the trace to. If the path ends with ".gz", the trace is gzipped.',
+      ),
+    traceId: zod
+      .number()
+      .optional()
+      .describe(
+        'The id of the trace to save. Defaults to the most recent trace.',
+      ),
+  },
+  handler: async (request, response, context) => {
+    const {filePath, traceId} = request.params;
+    const trace = context.getStoredTrace(traceId);
+    if (!trace.rawData) {
+      throw new Error(
+        `The raw events of trace ${trace.id} are no longer available. Only the raw events of the most recent traces are kept.`,
+      );
+    }
+    const data = filePath.endsWith('.gz')
+      ? zlib.gzipSync(trace.rawData)
+      : trace.rawData;
+    const file = await context.saveFile(data, filePath);
+    response.appendResponseLine(`Saved trace ${trace.id} to ${file.filename}.`);
+  },
+});
+
+export const compareTraces = defineTool({
+  name: 'performance_compare_traces',
+  description:
+    'Compares two stored performance traces, for example from before and after a fix. Reports the changes in Core Web Vitals, the insights found in only one of the traces, the main thread time by category and the network requests that changed the most.',
+  annotations: {
+    category: ToolCategory.PERFORMANCE,
+    readOnlyHint: true,
+  },
+  schema: {
+    beforeTraceId: zod
+      .number()
+      .describe('The id of the trace to compare against, e.g. before a fix.'),
+    afterTraceId: zod
+      .number()
+      .optional()
+      .describe(
+        'The id of the trace to compare, e.g. after a fix. Defaults to the most recent trace.',
+      ),
+  },
+  handler: async (request, response, context) => {
+    const before = context.getStoredTrace(request.params.beforeTraceId);
+    const after = context.getStoredTrace(request.params.afterTraceId);
+    if (before === after) {
+      throw new Error('Provide the ids of two different traces to compare.');
+    }
+    response.appendResponseLine(
+      `# Comparison of trace ${before.id} (${before.source}) with trace ${after.id} (${after.source})`,
+    );
+    response.appendResponseLine(
+      formatTraceComparison(before.result, after.result),
+    );
+  },
+});
+
+export const loadTrace = defineTool({
+  name: 'performance_load_trace',
+  description:
+    'Loads a performance trace from a JSON or gzipped JSON file, for example one saved from the DevTools Performance panel or by Lighthouse, and reports its summary. The trace can then be analyzed like a recorded trace.',
+  annotations: {
+    category: ToolCategory.PERFORMANCE,
+    readOnlyHint: true,
+  },
+  schema: {
+    filePath: zod.string().describe('The path of the trace file to load.'),
+  },
+  handler: async (request, response, context) => {
+    const {filePath} = request.params;
+    const data = decompressIfGzipped(await context.loadFile(filePath));
+    const result = await parseRawTraceBuffer(data);
+    if (traceResultIsSuccess(result)) {
+      const trace = context.storeTraceRecording(
+        result,
+        `Loaded from ${filePath}`,
+        data,
+      );
+      response.appendResponseLine(
+        `The performance trace has been loaded from ${filePath}.`,
+      );
+      response.appendResponseLine(`Trace id: ${trace.id}`);
+      response.appendResponseLine(getTraceSummary(result));
+    } else {
+      response.appendResponseLine(
+        `There was an unexpected error parsing the trace in ${filePath}:`,
+      );
+      response.appendResponseLine(result.error);
+    }
+  },
+});
+
+export const getWebVitals = defineTool({
+  name: 'get_web_vitals',
+  description:
+    'Reports the current Core Web Vitals (LCP, CLS and INP) plus FCP and TTFB of the selected page without recording a trace, with the LCP element, the elements that shifted the most and the target of the slowest interaction. The first call installs a collector that keeps collecting in every document the page navigates to, so call it again after interacting with the page to get updated values.',
+  annotations: {
+    category: ToolCategory.PERFORMANCE,
+    readOnlyHint: true,
+  },
+  schema: {},
+  handler: async (_request, response, context) => {
+    const vitals = await context.getWebVitalsCollector().getWebVitals();
+    if (!vitals) {
+      response.appendResponseLine('No web vitals collected yet.');
+      return;
+    }
+    response.appendResponseLine(
+      formatWebVitals(vitals, backendNodeId =>
+        context.resolveCdpElementId(backendNodeId),
+      ),
+    );
+  },
+});
+
+function decompressIfGzipped(data: Uint8Array): Uint8Array {
+  // Gzip data starts with the magic number 0x1f 0x8b.
+  if (data[0] === 0x1f && data[1] === 0x8b) {
+    return zlib.gunzipSync(data);
+  }
+  return data;
+}
+
+async function waitForNetworkIdle(page: Page, timeout: number) {
+  try {
+    await page.waitForNetworkIdle({idleTime: NETWORK_IDLE_TIME, timeout});
+  } catch {
+    // Stop at the latest after the timeout.
+  }
+}
+
+/**
+ * Stops the trace once the network is idle after the next click, tap or key
+ * press on the page, or after `durationMs`. Resolves once the page listens
+ * for the interaction.
+ */
+async function stopTracingAfterInteraction(
+  page: Page,
+  context: Context,
+  durationMs: number,
+): Promise<void> {
+  const start = Date.now();
+  // The promise is wrapped so that evaluateHandle does not wait for it.
+  const listener = await page.evaluateHandle(
+    timeout => ({
+      interaction: new Promise<void>(resolve => {
+        for (const type of ['pointerup', 'keyup']) {
+          addEventListener(type, () => resolve(), {once: true, capture: true});
+        }
+        setTimeout(resolve, timeout);
+      }),
+    }),
+    durationMs,
+  );
+  const traceId = context.getRunningPerformanceTraceId();
+  void (async () => {
+    try {
+      await listener.evaluate(listener => listener.interaction);
+      void listener.dispose();
+    } catch {
+      // The interaction navigated the page.
+    }
+    await waitForNetworkIdle(
+      page,
+      Math.max(durationMs - (Date.now() - start), NETWORK_IDLE_TIME),
+    );
+    await context.runExclusive(async () => {
+      // The trace might have been stopped manually and another one started in
+      // the meantime.
+      if (context.getRunningPerformanceTraceId() !== traceId) {
+        return;
+      }
+      const lines: string[] = [];
+      await stopTracingAndAppendOutput(
+        page,
+        {appendResponseLine: line => lines.push(line)},
+        context,
+      );
+      context.setUnreportedTraceOutput(lines);
+    });
+  })().catch(error => {
+    logger('Error stopping the performance trace after an interaction', error);
+  });
+}
+
 async function stopTracingAndAppendOutput(
   page: Page,
-  response: Response,
+  response: Pick<Response, 'appendResponseLine'>,
   context: Context,
 ): Promise<void> {
   try {
@@ -171,7 +435,12 @@ async function stopTracingAndAppendOutput(
     const result = await parseRawTraceBuffer(traceEventsBuffer);
     response.appendResponseLine('The performance trace has been stopped.');
     if (traceResultIsSuccess(result)) {
-      context.storeTraceRecording(result);
+      const trace = context.storeTraceRecording(
+        result,
+        `Recorded on ${page.url()}`,
+        traceEventsBuffer,
+      );
+      response.appendResponseLine(`Trace id: ${trace.id}`);
       const traceSummaryText = getTraceSummary(result);
       response.appendResponseLine(traceSummaryText);
     } else {
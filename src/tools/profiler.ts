@@ -0,0 +1,146 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {CallTreeNode} from '../cpuProfile.js';
+import {summarizeCpuProfile} from '../cpuProfile.js';
+import {logger} from '../logger.js';
+import type {PageDebugger} from '../PageDebugger.js';
+import {zod} from '../third_party/index.js';
+import type {Protocol} from '../third_party/index.js';
+
+import {ToolCategory} from './categories.js';
+import {defineTool} from './ToolDefinition.js';
+
+const DEFAULT_FUNCTION_LIMIT = 20;
+const MAX_CALL_TREE_DEPTH = 8;
+// Call tree nodes that take less than this share of the profile are omitted.
+const MIN_CALL_TREE_SHARE = 0.01;
+
+function formatMs(value: number): string {
+  return `${value.toFixed(1)} ms`;
+}
+
+/**
+ * Formats the function of a call frame with its original location if the
+ * script has a source map.
+ */
+async function formatFunction(
+  callFrame: Protocol.Runtime.CallFrame,
+  pageDebugger: PageDebugger,
+): Promise<string> {
+  const name = callFrame.functionName || '(anonymous)';
+  if (!callFrame.url) {
+    return name;
+  }
+  const generated = `${callFrame.url}:${callFrame.lineNumber + 1}:${callFrame.columnNumber + 1}`;
+  try {
+    const original = await pageDebugger.resolveLocation(
+      callFrame.url,
+      callFrame.lineNumber,
+      callFrame.columnNumber,
+    );
+    if (original) {
+      return `${name} (${original.source}:${original.lineNumber + 1}:${original.columnNumber + 1}) [generated: ${generated}]`;
+    }
+  } catch (error) {
+    logger('Failed to resolve the location of a profiled function', error);
+  }
+  return `${name} (${generated})`;
+}
+
+export const startCpuProfile = defineTool({
+  name: 'start_cpu_profile',
+  description:
+    'Starts recording a JavaScript CPU profile of the selected page. This is cheaper than a performance trace when you only need to know which functions take the most time. Use stop_cpu_profile to stop it and get a summary.',
+  annotations: {
+    category: ToolCategory.PERFORMANCE,
+    readOnlyHint: true,
+  },
+  schema: {
+    samplingIntervalUs: zod
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        'The interval between samples in microseconds. Smaller intervals are more precise but slow the page down more. Default is 1000.',
+      ),
+  },
+  handler: async (request, response, context) => {
+    // Collect the scripts so that the profiled functions can be mapped to
+    // their original sources.
+    await context.getPageDebugger().getScripts();
+    await context.getCpuProfiler().start(request.params.samplingIntervalUs);
+    response.appendResponseLine(
+      'CPU profile recording started. Use stop_cpu_profile to stop it and get the results.',
+    );
+  },
+});
+
+export const stopCpuProfile = defineTool({
+  name: 'stop_cpu_profile',
+  description:
+    'Stops recording the CPU profile of the selected page, saves it to a .cpuprofile file that can be loaded in the DevTools Performance panel and reports the functions with the most self time (bottom-up) and the call tree with the most total time (top-down), with locations mapped to the original sources where source maps are available.',
+  annotations: {
+    category: ToolCategory.PERFORMANCE,
+    // Not read-only due to filePath param.
+    readOnlyHint: false,
+  },
+  schema: {
+    filePath: zod
+      .string()
+      .describe(
+        'The absolute path, or a path relative to the current working directory, to save the CPU profile to, for example "profile.cpuprofile".',
+      ),
+    limit: zod
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        `The number of functions to list in the bottom-up summary. Default is ${DEFAULT_FUNCTION_LIMIT}.`,
+      ),
+  },
+  handler: async (request, response, context) => {
+    const profile = await context.getCpuProfiler().stop();
+    const file = await context.saveFile(
+      new TextEncoder().encode(JSON.stringify(profile)),
+      request.params.filePath,
+    );
+    const summary = summarizeCpuProfile(profile);
+    const pageDebugger = context.getPageDebugger();
+
+    response.appendResponseLine(`Saved the CPU profile to ${file.filename}.`);
+    response.appendResponseLine(
+      `Duration: ${formatMs(summary.duration)}, ${summary.sampleCount} samples`,
+    );
+
+    response.appendResponseLine('## Bottom-up (self time)');
+    const limit = request.params.limit ?? DEFAULT_FUNCTION_LIMIT;
+    for (const stats of summary.functions.slice(0, limit)) {
+      response.appendResponseLine(
+        `- ${formatMs(stats.selfTime)} self, ${formatMs(stats.totalTime)} total: ${await formatFunction(stats.callFrame, pageDebugger)}`,
+      );
+    }
+
+    response.appendResponseLine('## Top-down (total time)');
+    const minTotalTime = summary.root.totalTime * MIN_CALL_TREE_SHARE;
+    const appendCallTree = async (node: CallTreeNode, depth: number) => {
+      for (const child of node.children) {
+        if (child.totalTime < minTotalTime) {
+          continue;
+        }
+        response.appendResponseLine(
+          `${'  '.repeat(depth)}- ${formatMs(child.totalTime)}: ${await formatFunction(child.callFrame, pageDebugger)}`,
+        );
+        if (depth + 1 < MAX_CALL_TREE_DEPTH) {
+          await appendCallTree(child, depth + 1);
+        }
+      }
+    };
+    await appendCallTree(summary.root, 0);
+  },
+});
@@ -4,7 +4,12 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import {formatSnapshotMatch} from '../formatters/snapshotFormatter.js';
+import type {ElementStylesData} from '../formatters/stylesFormatter.js';
+import {formatElementStyles} from '../formatters/stylesFormatter.js';
 import {zod} from '../third_party/index.js';
+import type {Page, Protocol} from '../third_party/index.js';
+import {findSnapshotNodes} from '../utils/snapshotQuery.js';
 
 import {ToolCategory} from './categories.js';
 import {defineTool, timeoutSchema} from './ToolDefinition.js';
@@ -12,7 +17,7 @@ import {defineTool, timeoutSchema} from './ToolDefinition.js';
 export const takeSnapshot = defineTool({
   name: 'take_snapshot',
   description: `Take a text snapshot of the currently selected page based on the a11y tree. The snapshot lists page elements along with a unique
-identifier (uid). Always use the latest snapshot. Prefer taking a snapshot over taking a screenshot. The snapshot indicates the element selected
+identifier (uid). An element keeps its uid in later snapshots as long as it stays on the page. Prefer taking a snapshot over taking a screenshot. The snapshot indicates the element selected
 in the DevTools Elements panel (if any).`,
   annotations: {
     category: ToolCategory.DEBUGGING,
@@ -32,15 +37,125 @@ in the DevTools Elements panel (if any).`,
       .describe(
         'The absolute path, or a path relative to the current working directory, to save the snapshot to instead of attaching it to the response.',
       ),
+    diff: zod
+      .boolean()
+      .optional()
+      .describe(
+        'Whether to only list the elements that were added, removed or changed since the previous snapshot of the page. Default is false.',
+      ),
   },
   handler: async (request, response) => {
     response.includeSnapshot({
       verbose: request.params.verbose ?? false,
       filePath: request.params.filePath,
+      diff: request.params.diff ?? false,
     });
   },
 });
 
+const DEFAULT_MAX_RESULTS = 20;
+
+export const findElements = defineTool({
+  name: 'find_elements',
+  description: `Find elements in the a11y tree of the currently selected page by role, accessible name, state or containing landmark. Returns only the matching elements with their uid instead of the full snapshot. Takes a new snapshot of the page on every call.`,
+  annotations: {
+    category: ToolCategory.DEBUGGING,
+    readOnlyHint: true,
+  },
+  schema: {
+    role: zod
+      .string()
+      .optional()
+      .describe('The role of the elements, for example "button" or "link".'),
+    name: zod
+      .string()
+      .optional()
+      .describe(
+        'A case-insensitive substring of the accessible name of the elements.',
+      ),
+    nameRegex: zod
+      .string()
+      .optional()
+      .describe(
+        'A case-insensitive regular expression the accessible name of the elements must match.',
+      ),
+    focused: zod
+      .boolean()
+      .optional()
+      .describe('Whether the elements are focused.'),
+    disabled: zod
+      .boolean()
+      .optional()
+      .describe('Whether the elements are disabled.'),
+    checked: zod
+      .boolean()
+      .optional()
+      .describe(
+        'Whether the elements are checked. Only matches checkable elements.',
+      ),
+    expanded: zod
+      .boolean()
+      .optional()
+      .describe('Whether the elements are expanded.'),
+    landmark: zod
+      .string()
+      .optional()
+      .describe(
+        'The role (for example "main" or "navigation") or a substring of the accessible name of a landmark that contains the elements.',
+      ),
+    verbose: zod
+      .boolean()
+      .optional()
+      .describe(
+        'Whether to search all elements of the full a11y tree. Default is false.',
+      ),
+    maxResults: zod
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        `The maximum number of elements to return. Default is ${DEFAULT_MAX_RESULTS}.`,
+      ),
+  },
+  handler: async (request, response, context) => {
+    const {verbose, nameRegex, maxResults, ...query} = request.params;
+    let regex: RegExp | undefined;
+    if (nameRegex !== undefined) {
+      try {
+        regex = new RegExp(nameRegex, 'i');
+      } catch {
+        throw new Error(`Invalid nameRegex: ${nameRegex}`);
+      }
+    }
+    // The page might have changed since the latest snapshot, so always take a
+    // new one. Elements keep their uids across snapshots.
+    await context.createTextSnapshot(verbose ?? false);
+    const snapshot = context.getTextSnapshot();
+    if (!snapshot) {
+      throw new Error('Could not take a snapshot of the selected page.');
+    }
+    const matches = findSnapshotNodes(snapshot.root, {
+      ...query,
+      nameRegex: regex,
+    });
+    const limit = maxResults ?? DEFAULT_MAX_RESULTS;
+    response.appendResponseLine('## Found elements');
+    if (!matches.length) {
+      response.appendResponseLine('No elements found.');
+      return;
+    }
+    if (matches.length > limit) {
+      response.appendResponseLine(
+        `Showing ${limit} of ${matches.length} elements. Narrow down the query or increase maxResults to see more.`,
+      );
+    }
+    for (const match of matches.slice(0, limit)) {
+      response.appendResponseLine(formatSnapshotMatch(match));
+    }
+  },
+});
+
 export const waitFor = defineTool({
   name: 'wait_for',
   description: `Wait for the specified text to appear on the selected page.`,
@@ -62,3 +177,87 @@ export const waitFor = defineTool({
     response.includeSnapshot();
   },
 });
+
+async function getElementStylesData(
+  page: Page,
+  backendNodeId: number,
+): Promise<ElementStylesData> {
+  const session = await page.createCDPSession();
+  try {
+    const styleSheets = new Map<string, Protocol.CSS.CSSStyleSheetHeader>();
+    session.on('CSS.styleSheetAdded', ({header}) => {
+      styleSheets.set(header.styleSheetId, header);
+    });
+    await session.send('DOM.enable');
+    await session.send('CSS.enable');
+    // The CSS domain only accepts nodes known to the DOM agent of the session.
+    await session.send('DOM.getDocument', {depth: 0});
+    const {
+      nodeIds: [nodeId],
+    } = await session.send('DOM.pushNodesByBackendIdsToFrontend', {
+      backendNodeIds: [backendNodeId],
+    });
+    if (!nodeId) {
+      throw new Error('The element is no longer on the page.');
+    }
+    const {computedStyle} = await session.send('CSS.getComputedStyleForNode', {
+      nodeId,
+    });
+    const matchedStyles = await session.send('CSS.getMatchedStylesForNode', {
+      nodeId,
+    });
+    return {computedStyle, matchedStyles, styleSheets};
+  } finally {
+    await session.detach();
+  }
+}
+
+export const getElementStyles = defineTool({
+  name: 'get_element_styles',
+  description: `Get the styles of an element like the Styles pane in DevTools: the computed style, the matched CSS rules with their stylesheet URL and line, the properties inherited from ancestors and which declarations are overridden.`,
+  annotations: {
+    category: ToolCategory.DEBUGGING,
+    readOnlyHint: true,
+  },
+  schema: {
+    uid: zod
+      .string()
+      .optional()
+      .describe(
+        'The uid of an element on the page from the page content snapshot. If omitted returns the styles of the element currently selected in the DevTools Elements panel.',
+      ),
+    properties: zod
+      .array(zod.string())
+      .optional()
+      .describe(
+        'The names of the CSS properties to include, for example ["color", "margin"]. Shorthands also include their longhands. Default is all properties.',
+      ),
+  },
+  handler: async (request, response, context) => {
+    const {uid, properties} = request.params;
+    let backendNodeId: number | undefined;
+    if (uid) {
+      const handle = await context.getElementByUid(uid);
+      try {
+        backendNodeId = await handle.backendNodeId();
+      } finally {
+        void handle.dispose();
+      }
+    } else {
+      const data = await context.getDevToolsData();
+      response.attachDevToolsData(data);
+      backendNodeId = data?.cdpBackendNodeId;
+    }
+    if (!backendNodeId) {
+      response.appendResponseLine(
+        `Nothing is currently selected in the DevTools Elements panel.`,
+      );
+      return;
+    }
+    const data = await getElementStylesData(
+      context.getSelectedPage(),
+      backendNodeId,
+    );
+    response.appendResponseLine(formatElementStyles(data, properties));
+  },
+});
@@ -0,0 +1,204 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {zod} from '../third_party/index.js';
+import type {Point} from '../TouchEmulator.js';
+
+import {ToolCategory} from './categories.js';
+import type {Context} from './ToolDefinition.js';
+import {defineTool} from './ToolDefinition.js';
+
+const DEFAULT_LONG_PRESS_DURATION = 800;
+const DEFAULT_SWIPE_DISTANCE = 200;
+const DEFAULT_GESTURE_DURATION = 300;
+const PINCH_START_DISTANCE = 100;
+
+const targetSchema = {
+  uid: zod
+    .string()
+    .optional()
+    .describe(
+      'The uid of an element on the page from the page content snapshot. The gesture starts at the center of the element. Omit to use x and y.',
+    ),
+  x: zod
+    .number()
+    .optional()
+    .describe('The x coordinate in CSS pixels from the left of the viewport.'),
+  y: zod
+    .number()
+    .optional()
+    .describe('The y coordinate in CSS pixels from the top of the viewport.'),
+};
+
+const durationSchema = (defaultDuration: number) =>
+  zod
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      `The duration of the gesture in milliseconds. Default is ${defaultDuration}.`,
+    );
+
+async function getTargetPoint(
+  context: Context,
+  target: {uid?: string; x?: number; y?: number},
+): Promise<Point> {
+  if (target.uid) {
+    const handle = await context.getElementByUid(target.uid);
+    try {
+      await handle.scrollIntoView();
+      return await handle.clickablePoint();
+    } finally {
+      void handle.dispose();
+    }
+  }
+  if (target.x === undefined || target.y === undefined) {
+    throw new Error('Provide either a uid or both x and y.');
+  }
+  return {x: target.x, y: target.y};
+}
+
+function formatPoint(point: Point): string {
+  return `(${Math.round(point.x)}, ${Math.round(point.y)})`;
+}
+
+export const tap = defineTool({
+  name: 'tap',
+  description: `Taps on the provided element or coordinates with a touch event. Enables touch emulation on the page.`,
+  annotations: {
+    category: ToolCategory.INPUT,
+    readOnlyHint: false,
+  },
+  schema: {
+    ...targetSchema,
+  },
+  handler: async (request, response, context) => {
+    const point = await getTargetPoint(context, request.params);
+    await context.waitForEventsAfterAction(async () => {
+      await context.getTouchEmulator().tap(point);
+    });
+    response.appendResponseLine(`Successfully tapped at ${formatPoint(point)}`);
+    response.includeSnapshot();
+  },
+});
+
+export const longPress = defineTool({
+  name: 'long_press',
+  description: `Touches and holds the provided element or coordinates. Enables touch emulation on the page.`,
+  annotations: {
+    category: ToolCategory.INPUT,
+    readOnlyHint: false,
+  },
+  schema: {
+    ...targetSchema,
+    durationMs: durationSchema(DEFAULT_LONG_PRESS_DURATION),
+  },
+  handler: async (request, response, context) => {
+    const point = await getTargetPoint(context, request.params);
+    await context.waitForEventsAfterAction(async () => {
+      await context
+        .getTouchEmulator()
+        .longPress(
+          point,
+          request.params.durationMs ?? DEFAULT_LONG_PRESS_DURATION,
+        );
+    });
+    response.appendResponseLine(
+      `Successfully long pressed at ${formatPoint(point)}`,
+    );
+    response.includeSnapshot();
+  },
+});
+
+export const swipe = defineTool({
+  name: 'swipe',
+  description: `Swipes with one finger from the provided element or coordinates in a direction, for example to move a carousel or to pull to refresh. Enables touch emulation on the page.`,
+  annotations: {
+    category: ToolCategory.INPUT,
+    readOnlyHint: false,
+  },
+  schema: {
+    ...targetSchema,
+    direction: zod
+      .enum(['up', 'down', 'left', 'right'])
+      .describe(
+        'The direction the finger moves in. Swiping up scrolls the content down.',
+      ),
+    distance: zod
+      .number()
+      .positive()
+      .optional()
+      .describe(
+        `The distance to swipe in CSS pixels. Default is ${DEFAULT_SWIPE_DISTANCE}.`,
+      ),
+    durationMs: durationSchema(DEFAULT_GESTURE_DURATION),
+  },
+  handler: async (request, response, context) => {
+    const from = await getTargetPoint(context, request.params);
+    const distance = request.params.distance ?? DEFAULT_SWIPE_DISTANCE;
+    const to = {...from};
+    switch (request.params.direction) {
+      case 'up':
+        to.y -= distance;
+        break;
+      case 'down':
+        to.y += distance;
+        break;
+      case 'left':
+        to.x -= distance;
+        break;
+      case 'right':
+        to.x += distance;
+        break;
+    }
+    await context.waitForEventsAfterAction(async () => {
+      await context
+        .getTouchEmulator()
+        .swipe(from, to, request.params.durationMs ?? DEFAULT_GESTURE_DURATION);
+    });
+    response.appendResponseLine(
+      `Successfully swiped ${request.params.direction} from ${formatPoint(from)} to ${formatPoint(to)}`,
+    );
+    response.includeSnapshot();
+  },
+});
+
+export const pinch = defineTool({
+  name: 'pinch',
+  description: `Pinches with two fingers around the provided element or coordinates to zoom in or out, for example on a map. Enables touch emulation on the page.`,
+  annotations: {
+    category: ToolCategory.INPUT,
+    readOnlyHint: false,
+  },
+  schema: {
+    ...targetSchema,
+    scale: zod
+      .number()
+      .positive()
+      .describe(
+        'The factor the distance between the fingers changes by. Values above 1 zoom in, values below 1 zoom out.',
+      ),
+    durationMs: durationSchema(DEFAULT_GESTURE_DURATION),
+  },
+  handler: async (request, response, context) => {
+    const center = await getTargetPoint(context, request.params);
+    await context.waitForEventsAfterAction(async () => {
+      await context
+        .getTouchEmulator()
+        .pinch(
+          center,
+          PINCH_START_DISTANCE,
+          request.params.scale,
+          request.params.durationMs ?? DEFAULT_GESTURE_DURATION,
+        );
+    });
+    response.appendResponseLine(
+      `Successfully pinched with scale ${request.params.scale} at ${formatPoint(center)}`,
+    );
+    response.includeSnapshot();
+  },
+});
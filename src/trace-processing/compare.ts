@@ -0,0 +1,227 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {TraceEngine} from '../../node_modules/chrome-devtools-frontend/mcp/mcp.js';
+
+import type {TraceResult} from './parse.js';
+
+const MAX_NETWORK_CHANGES = 10;
+
+interface Metrics {
+  lcp: number | null;
+  inp: number | null;
+  cls: number | null;
+}
+
+interface RequestStats {
+  transferSize: number;
+  duration: number;
+}
+
+function getPrimaryInsightSet(
+  result: TraceResult,
+): TraceEngine.Insights.Types.InsightSet | undefined {
+  return [...(result.insights?.values() ?? [])][0];
+}
+
+function getMetrics(result: TraceResult): Metrics {
+  const insightSet = getPrimaryInsightSet(result);
+  if (!insightSet) {
+    return {lcp: null, inp: null, cls: null};
+  }
+  const lcp = TraceEngine.Insights.Common.getLCP(insightSet);
+  const inp = TraceEngine.Insights.Common.getINP(insightSet);
+  const cls = TraceEngine.Insights.Common.getCLS(insightSet);
+  return {
+    lcp: lcp ? lcp.value / 1000 : null,
+    inp: inp ? inp.value / 1000 : null,
+    cls: cls.value,
+  };
+}
+
+/**
+ * Returns the names of the insights that failed or have information to show.
+ * Insights that could not be computed are skipped.
+ */
+function getInsightNames(result: TraceResult): Set<string> {
+  const insightSet = getPrimaryInsightSet(result);
+  if (!insightSet) {
+    return new Set();
+  }
+  return new Set(
+    Object.entries(insightSet.model)
+      .filter(
+        ([, model]) =>
+          !(model instanceof Error) &&
+          (model.state === 'fail' || model.state === 'informative'),
+      )
+      .map(([name]) => name),
+  );
+}
+
+/**
+ * Sums the self time of the events on the main threads of the main frame by
+ * the category the Performance panel shows them in, in milliseconds.
+ */
+function getMainThreadTimeByCategory(result: TraceResult): Map<string, number> {
+  const {data} = result.parsedTrace;
+  const times = new Map<string, number>();
+  for (const process of data.Renderer.processes.values()) {
+    if (!process.isOnMainFrame) {
+      continue;
+    }
+    for (const thread of process.threads.values()) {
+      if (thread.name !== 'CrRendererMain') {
+        continue;
+      }
+      for (const entry of thread.entries) {
+        const selfTime = data.Renderer.entryToNode.get(entry)?.selfTime ?? 0;
+        const category =
+          TraceEngine.Styles.getEventStyle(
+            entry.name as TraceEngine.Types.Events.Name,
+          )?.category.name ?? 'other';
+        times.set(category, (times.get(category) ?? 0) + selfTime / 1000);
+      }
+    }
+  }
+  return times;
+}
+
+function getRequestStats(result: TraceResult): Map<string, RequestStats> {
+  const stats = new Map<string, RequestStats>();
+  for (const request of result.parsedTrace.data.NetworkRequests.byTime) {
+    const url = request.args.data.url;
+    const requestStats = stats.get(url) ?? {transferSize: 0, duration: 0};
+    requestStats.transferSize += request.args.data.encodedDataLength;
+    requestStats.duration += request.dur / 1000;
+    stats.set(url, requestStats);
+  }
+  return stats;
+}
+
+function formatDelta(
+  before: number | null,
+  after: number | null,
+  format: (value: number) => string,
+): string {
+  if (before === null && after === null) {
+    return 'n/a';
+  }
+  if (before === null || after === null) {
+    return `${before === null ? 'n/a' : format(before)} -> ${after === null ? 'n/a' : format(after)}`;
+  }
+  const delta = after - before;
+  return `${format(before)} -> ${format(after)} (${delta >= 0 ? '+' : '-'}${format(Math.abs(delta))})`;
+}
+
+function formatMs(value: number): string {
+  return `${Math.round(value)} ms`;
+}
+
+function formatKb(value: number): string {
+  return `${(value / 1024).toFixed(1)} kB`;
+}
+
+function formatRequestStats(stats: RequestStats | undefined): string {
+  return stats
+    ? `${formatKb(stats.transferSize)}, ${formatMs(stats.duration)}`
+    : 'not requested';
+}
+
+/**
+ * Formats the differences between two traces: the Core Web Vitals and
+ * insights of their first insight sets, the main thread time by category and
+ * the network requests that changed the most.
+ */
+export function compareTraces(before: TraceResult, after: TraceResult): string {
+  const lines: string[] = [];
+
+  const beforeMetrics = getMetrics(before);
+  const afterMetrics = getMetrics(after);
+  lines.push('## Core Web Vitals');
+  lines.push(
+    `- LCP: ${formatDelta(beforeMetrics.lcp, afterMetrics.lcp, formatMs)}`,
+  );
+  lines.push(
+    `- INP: ${formatDelta(beforeMetrics.inp, afterMetrics.inp, formatMs)}`,
+  );
+  lines.push(
+    `- CLS: ${formatDelta(beforeMetrics.cls, afterMetrics.cls, value =>
+      value.toFixed(2),
+    )}`,
+  );
+
+  const beforeInsights = getInsightNames(before);
+  const afterInsights = getInsightNames(after);
+  const resolved = [...beforeInsights].filter(name => !afterInsights.has(name));
+  const introduced = [...afterInsights].filter(
+    name => !beforeInsights.has(name),
+  );
+  lines.push('## Insights');
+  if (!resolved.length && !introduced.length) {
+    lines.push('Both traces have the same insights.');
+  }
+  if (resolved.length) {
+    lines.push(`Only in the first trace: ${resolved.join(', ')}`);
+  }
+  if (introduced.length) {
+    lines.push(`Only in the second trace: ${introduced.join(', ')}`);
+  }
+
+  const beforeTimes = getMainThreadTimeByCategory(before);
+  const afterTimes = getMainThreadTimeByCategory(after);
+  const categories = [
+    ...new Set([...beforeTimes.keys(), ...afterTimes.keys()]),
+  ].sort(
+    (a, b) =>
+      Math.abs((afterTimes.get(b) ?? 0) - (beforeTimes.get(b) ?? 0)) -
+      Math.abs((afterTimes.get(a) ?? 0) - (beforeTimes.get(a) ?? 0)),
+  );
+  lines.push('## Main thread time by category');
+  for (const category of categories) {
+    lines.push(
+      `- ${category}: ${formatDelta(
+        beforeTimes.get(category) ?? 0,
+        afterTimes.get(category) ?? 0,
+        formatMs,
+      )}`,
+    );
+  }
+
+  const beforeRequests = getRequestStats(before);
+  const afterRequests = getRequestStats(after);
+  const transferSizeChange = (url: string) =>
+    Math.abs(
+      (afterRequests.get(url)?.transferSize ?? 0) -
+        (beforeRequests.get(url)?.transferSize ?? 0),
+    );
+  const durationChange = (url: string) =>
+    Math.abs(
+      (afterRequests.get(url)?.duration ?? 0) -
+        (beforeRequests.get(url)?.duration ?? 0),
+    );
+  const changedUrls = [
+    ...new Set([...beforeRequests.keys(), ...afterRequests.keys()]),
+  ]
+    .filter(url => transferSizeChange(url) > 0 || durationChange(url) >= 1)
+    .sort(
+      (a, b) =>
+        transferSizeChange(b) - transferSizeChange(a) ||
+        durationChange(b) - durationChange(a),
+    )
+    .slice(0, MAX_NETWORK_CHANGES);
+  lines.push('## Largest changes in network requests');
+  if (!changedUrls.length) {
+    lines.push('No network requests changed.');
+  }
+  for (const url of changedUrls) {
+    lines.push(
+      `- ${url}: ${formatRequestStats(beforeRequests.get(url))} -> ${formatRequestStats(afterRequests.get(url))}`,
+    );
+  }
+
+  return lines.join('\n');
+}
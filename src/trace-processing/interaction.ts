@@ -0,0 +1,199 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {TraceEngine} from '../../node_modules/chrome-devtools-frontend/mcp/mcp.js';
+import type {Context, Response} from '../tools/ToolDefinition.js';
+
+import type {TraceResult} from './parse.js';
+import {
+  getInsightOutput,
+  parseRawTraceBuffer,
+  TRACE_CATEGORIES,
+  traceResultIsSuccess,
+} from './parse.js';
+
+// Tasks on the main thread that take longer than this block interactions.
+const LONG_TASK_THRESHOLD_MS = 50;
+const MAX_CULPRITS_PER_TASK = 3;
+
+type Event = TraceEngine.Types.Events.Event;
+type TraceEntryNode = TraceEngine.Helpers.TreeHelpers.TraceEntryNode;
+
+function formatMicro(value: number): string {
+  return `${Math.round(value / 1000)} ms`;
+}
+
+function getLabel(entry: Event): string {
+  if (TraceEngine.Types.Events.isProfileCall(entry)) {
+    const {functionName, url, lineNumber, columnNumber} = entry.callFrame;
+    const name = functionName || '(anonymous)';
+    return url
+      ? `${name} (${url}:${lineNumber + 1}:${columnNumber + 1})`
+      : name;
+  }
+  return entry.name;
+}
+
+/**
+ * Sums the self time of the entries in a task by label and returns the
+ * labels that took the longest.
+ */
+function getCulprits(
+  node: TraceEntryNode,
+): Array<{label: string; selfTime: number}> {
+  const selfTimes = new Map<string, number>();
+  const visit = (node: TraceEntryNode) => {
+    const label = getLabel(node.entry);
+    selfTimes.set(label, (selfTimes.get(label) ?? 0) + (node.selfTime ?? 0));
+    node.children.forEach(visit);
+  };
+  node.children.forEach(visit);
+  return [...selfTimes]
+    .map(([label, selfTime]) => ({label, selfTime}))
+    .filter(({selfTime}) => selfTime > 0)
+    .sort((a, b) => b.selfTime - a.selfTime)
+    .slice(0, MAX_CULPRITS_PER_TASK);
+}
+
+/**
+ * Returns the long tasks on the main thread of the main frame that overlap
+ * with the interaction.
+ */
+function getLongTasks(
+  result: TraceResult,
+  interaction: TraceEngine.Types.Events.SyntheticInteractionPair,
+): Event[] {
+  const {data} = result.parsedTrace;
+  const interactionEnd = interaction.ts + interaction.dur;
+  const tasks: Event[] = [];
+  for (const process of data.Renderer.processes.values()) {
+    if (!process.isOnMainFrame) {
+      continue;
+    }
+    for (const thread of process.threads.values()) {
+      if (thread.name !== 'CrRendererMain') {
+        continue;
+      }
+      for (const entry of thread.entries) {
+        if (
+          TraceEngine.Types.Events.isRunTask(entry) &&
+          entry.dur !== undefined &&
+          entry.dur / 1000 >= LONG_TASK_THRESHOLD_MS &&
+          entry.ts < interactionEnd &&
+          entry.ts + entry.dur > interaction.ts
+        ) {
+          tasks.push(entry);
+        }
+      }
+    }
+  }
+  return tasks;
+}
+
+/**
+ * Formats the phases of the longest interaction in a trace, the long tasks
+ * that overlap with it and the INPBreakdown insight.
+ */
+export function getInteractionBreakdown(result: TraceResult): string {
+  const insightSet = [...(result.insights?.values() ?? [])].find(
+    insightSet => insightSet.model.INPBreakdown.longestInteractionEvent,
+  );
+  const interaction = insightSet?.model.INPBreakdown.longestInteractionEvent;
+  if (!insightSet || !interaction) {
+    return 'No interaction was recorded in the trace.';
+  }
+
+  const lines = [
+    '## Interaction to Next Paint',
+    `Interaction: ${interaction.type}`,
+    `Total duration: ${formatMicro(interaction.dur)}`,
+    `Input delay: ${formatMicro(interaction.inputDelay)}`,
+    `Processing duration: ${formatMicro(interaction.mainThreadHandling)}`,
+    `Presentation delay: ${formatMicro(interaction.presentationDelay)}`,
+    '## Long tasks during the interaction',
+  ];
+  const longTasks = getLongTasks(result, interaction);
+  if (!longTasks.length) {
+    lines.push('None');
+  }
+  for (const task of longTasks) {
+    const start = task.ts - interaction.ts;
+    lines.push(
+      `- ${formatMicro(task.dur ?? 0)} task starting ${start < 0 ? '-' : '+'}${formatMicro(Math.abs(start))} from the input`,
+    );
+    const node = result.parsedTrace.data.Renderer.entryToNode.get(task);
+    for (const {label, selfTime} of node ? getCulprits(node) : []) {
+      lines.push(`  - ${formatMicro(selfTime)} in ${label}`);
+    }
+  }
+
+  const insightOutput = getInsightOutput(result, insightSet.id, 'INPBreakdown');
+  if ('output' in insightOutput) {
+    lines.push(insightOutput.output);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Runs the action and, if `trace` is set, records a performance trace of it
+ * and appends the breakdown of the interaction to the response.
+ */
+export async function withInteractionTrace(
+  context: Context,
+  response: Response,
+  trace: boolean | undefined,
+  action: () => Promise<void>,
+): Promise<void> {
+  if (!trace) {
+    await action();
+    return;
+  }
+  if (context.isRunningPerformanceTrace()) {
+    throw new Error(
+      'A performance trace is already running. Use performance_stop_trace to stop it before tracing an interaction.',
+    );
+  }
+  const page = context.getSelectedPage();
+  context.setIsRunningPerformanceTrace(true);
+  let traceEventsBuffer: Uint8Array | undefined;
+  try {
+    await page.tracing.start({categories: TRACE_CATEGORIES});
+    try {
+      await action();
+      try {
+        // Let the page present the next frame so that the trace contains the
+        // end of the interaction.
+        await page.evaluate(
+          () =>
+            new Promise(resolve =>
+              requestAnimationFrame(() => setTimeout(resolve, 0)),
+            ),
+        );
+      } catch {
+        // The interaction navigated the page.
+      }
+    } finally {
+      traceEventsBuffer = await page.tracing.stop();
+    }
+  } finally {
+    context.setIsRunningPerformanceTrace(false);
+  }
+  const result = await parseRawTraceBuffer(traceEventsBuffer);
+  if (!traceResultIsSuccess(result)) {
+    response.appendResponseLine(
+      'There was an unexpected error parsing the trace of the interaction:',
+    );
+    response.appendResponseLine(result.error);
+    return;
+  }
+  const {id} = context.storeTraceRecording(
+    result,
+    `Interaction on ${page.url()}`,
+    traceEventsBuffer,
+  );
+  response.appendResponseLine(`Trace id: ${id}`);
+  response.appendResponseLine(getInteractionBreakdown(result));
+}
@@ -12,7 +12,27 @@ import {
 } from '../../node_modules/chrome-devtools-frontend/mcp/mcp.js';
 import {logger} from '../logger.js';
 
-const engine = TraceEngine.TraceModel.Model.createWithAllHandlers();
+// Keep in sync with the categories arrays in:
+// https://source.chromium.org/chromium/chromium/src/+/main:third_party/devtools-frontend/src/front_end/panels/timeline/TimelineController.ts
+// https://github.com/GoogleChrome/lighthouse/blob/master/lighthouse-core/gather/gatherers/trace.js
+export const TRACE_CATEGORIES = [
+  '-*',
+  'blink.console',
+  'blink.user_timing',
+  'devtools.timeline',
+  'disabled-by-default-devtools.screenshot',
+  'disabled-by-default-devtools.timeline',
+  'disabled-by-default-devtools.timeline.invalidationTracking',
+  'disabled-by-default-devtools.timeline.frame',
+  'disabled-by-default-devtools.timeline.stack',
+  'disabled-by-default-v8.cpu_profiler',
+  'disabled-by-default-v8.cpu_profiler.hires',
+  'latencyInfo',
+  'loading',
+  'disabled-by-default-lighthouse',
+  'v8.execute',
+  'v8',
+];
 
 export interface TraceResult {
   parsedTrace: TraceEngine.TraceModel.ParsedTrace;
@@ -32,7 +52,6 @@ export interface TraceParseError {
 export async function parseRawTraceBuffer(
   buffer: Uint8Array<ArrayBufferLike> | undefined,
 ): Promise<TraceResult | TraceParseError> {
-  engine.resetProcessor();
   if (!buffer) {
     return {
       error: 'No buffer was provided.',
@@ -52,6 +71,9 @@ export async function parseRawTraceBuffer(
       | TraceEngine.Types.Events.Event[];
 
     const events = Array.isArray(data) ? data : data.traceEvents;
+    // Traces of different sessions can be parsed at the same time, so each
+    // parse gets its own engine.
+    const engine = TraceEngine.TraceModel.Model.createWithAllHandlers();
     await engine.parse(events);
     const parsedTrace = engine.parsedTrace();
     if (!parsedTrace) {
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {PredefinedNetworkConditions, zod} from '../third_party/index.js';
+
+export const networkProfileSchema = zod.object({
+  download: zod
+    .number()
+    .min(-1)
+    .describe(
+      'The download throughput in bytes per second. Set to -1 to disable download throttling.',
+    ),
+  upload: zod
+    .number()
+    .min(-1)
+    .describe(
+      'The upload throughput in bytes per second. Set to -1 to disable upload throttling.',
+    ),
+  latency: zod
+    .number()
+    .min(0)
+    .describe('The latency added to each request in milliseconds.'),
+  packetLoss: zod
+    .number()
+    .min(0)
+    .max(100)
+    .optional()
+    .describe('The percentage of WebRTC packets to drop.'),
+});
+
+export type NetworkProfile = zod.infer<typeof networkProfileSchema>;
+
+// Timeouts are tuned for an unthrottled connection that is at least as fast
+// as Fast 4G.
+const REFERENCE_PROFILE = PredefinedNetworkConditions['Fast 4G'];
+
+/**
+ * Returns the factor to scale timeouts by for a throttled connection: the
+ * larger of how much higher the latency and how much lower the download
+ * throughput are than on the reference connection.
+ */
+export function getNetworkMultiplier(profile: NetworkProfile | null): number {
+  if (!profile) {
+    return 1;
+  }
+  const latencyMultiplier = profile.latency / REFERENCE_PROFILE.latency;
+  const downloadMultiplier =
+    profile.download > 0 ? REFERENCE_PROFILE.download / profile.download : 1;
+  return Math.max(1, latencyMultiplier, downloadMultiplier);
+}
+
+/**
+ * Parses a JSON object that maps profile names to network profiles.
+ */
+export function parseNetworkProfiles(
+  json: string,
+): Record<string, NetworkProfile> {
+  const result = zod
+    .record(zod.string(), networkProfileSchema)
+    .safeParse(JSON.parse(json));
+  if (!result.success) {
+    throw new Error(
+      result.error.issues
+        .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        .join(', '),
+    );
+  }
+  return result.data;
+}
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {TextSnapshotNode} from '../McpContext.js';
+
+const LANDMARK_ROLES = new Set([
+  'banner',
+  'complementary',
+  'contentinfo',
+  'form',
+  'main',
+  'navigation',
+  'region',
+  'search',
+]);
+
+export interface SnapshotQuery {
+  role?: string;
+  // Case-insensitive substring of the accessible name.
+  name?: string;
+  nameRegex?: RegExp;
+  focused?: boolean;
+  disabled?: boolean;
+  checked?: boolean;
+  expanded?: boolean;
+  // Role or case-insensitive substring of the name of an ancestor landmark.
+  landmark?: string;
+}
+
+export interface SnapshotMatch {
+  node: TextSnapshotNode;
+  // The landmarks containing the node, outermost first.
+  landmarks: TextSnapshotNode[];
+}
+
+function isLandmark(node: TextSnapshotNode): boolean {
+  return LANDMARK_ROLES.has(node.role);
+}
+
+/**
+ * Finds the nodes of a snapshot that match all criteria of the query, in
+ * document order.
+ */
+export function findSnapshotNodes(
+  root: TextSnapshotNode,
+  query: SnapshotQuery,
+): SnapshotMatch[] {
+  const matches: SnapshotMatch[] = [];
+  const visit = (node: TextSnapshotNode, landmarks: TextSnapshotNode[]) => {
+    if (matchesNode(node, query) && matchesLandmark(landmarks, query)) {
+      matches.push({node, landmarks});
+    }
+    const childLandmarks = isLandmark(node) ? [...landmarks, node] : landmarks;
+    for (const child of node.children) {
+      visit(child, childLandmarks);
+    }
+  };
+  visit(root, []);
+  return matches;
+}
+
+function matchesNode(node: TextSnapshotNode, query: SnapshotQuery): boolean {
+  if (query.role && node.role.toLowerCase() !== query.role.toLowerCase()) {
+    return false;
+  }
+  const name = node.name ?? '';
+  if (
+    query.name !== undefined &&
+    !name.toLowerCase().includes(query.name.toLowerCase())
+  ) {
+    return false;
+  }
+  if (query.nameRegex && !query.nameRegex.test(name)) {
+    return false;
+  }
+  if (query.focused !== undefined && Boolean(node.focused) !== query.focused) {
+    return false;
+  }
+  if (
+    query.disabled !== undefined &&
+    Boolean(node.disabled) !== query.disabled
+  ) {
+    return false;
+  }
+  // Only checkable nodes have the checked state.
+  if (query.checked !== undefined && node.checked !== query.checked) {
+    return false;
+  }
+  if (
+    query.expanded !== undefined &&
+    Boolean(node.expanded) !== query.expanded
+  ) {
+    return false;
+  }
+  return true;
+}
+
+function matchesLandmark(
+  landmarks: TextSnapshotNode[],
+  query: SnapshotQuery,
+): boolean {
+  if (!query.landmark) {
+    return true;
+  }
+  const landmark = query.landmark.toLowerCase();
+  return landmarks.some(node => {
+    return (
+      node.role === landmark ||
+      (node.name ?? '').toLowerCase().includes(landmark)
+    );
+  });
+}
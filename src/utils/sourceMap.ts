@@ -0,0 +1,193 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// See https://tc39.es/ecma426/ for the source map format.
+export interface SourceMapPayload {
+  version: number;
+  sources?: Array<string | null>;
+  sourcesContent?: Array<string | null>;
+  sourceRoot?: string;
+  names?: string[];
+  mappings?: string;
+  sections?: Array<{
+    offset: {line: number; column: number};
+    map: SourceMapPayload;
+  }>;
+}
+
+export interface OriginalLocation {
+  source: string;
+  /** 0-based line number. */
+  lineNumber: number;
+  /** 0-based column number. */
+  columnNumber: number;
+  name?: string;
+}
+
+interface Mapping {
+  generatedColumn: number;
+  source?: number;
+  originalLine?: number;
+  originalColumn?: number;
+  name?: number;
+}
+
+const BASE64_CHARS =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES = new Map(
+  [...BASE64_CHARS].map((char, index) => [char, index]),
+);
+const VLQ_CONTINUATION_BIT = 1 << 5;
+const VLQ_VALUE_MASK = VLQ_CONTINUATION_BIT - 1;
+
+export function decodeVlqSegment(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) {
+      throw new Error(`Invalid base64 character "${char}" in source map`);
+    }
+    value += (digit & VLQ_VALUE_MASK) << shift;
+    if (digit & VLQ_CONTINUATION_BIT) {
+      shift += 5;
+      continue;
+    }
+    // The lowest bit is the sign.
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+  return values;
+}
+
+/**
+ * A decoded source map that maps generated positions to original ones.
+ */
+export class SourceMap {
+  /** The URL relative sources are resolved against. */
+  readonly url: string;
+  #sources: string[] = [];
+  #sourcesContent: Array<string | undefined> = [];
+  #names: string[] = [];
+  // Mappings per generated line, sorted by generated column.
+  #lines: Mapping[][] = [];
+
+  constructor(payload: SourceMapPayload, url: string) {
+    this.url = url;
+    this.#addPayload(payload, 0, 0);
+  }
+
+  #addPayload(
+    payload: SourceMapPayload,
+    lineOffset: number,
+    columnOffset: number,
+  ): void {
+    if (payload.sections) {
+      for (const section of payload.sections) {
+        this.#addPayload(
+          section.map,
+          lineOffset + section.offset.line,
+          section.offset.column,
+        );
+      }
+      return;
+    }
+    const sourceOffset = this.#sources.length;
+    const nameOffset = this.#names.length;
+    const sourceRoot = payload.sourceRoot ?? '';
+    for (const [index, source] of (payload.sources ?? []).entries()) {
+      this.#sources.push(this.#resolveSourceUrl(sourceRoot + (source ?? '')));
+      this.#sourcesContent.push(payload.sourcesContent?.[index] ?? undefined);
+    }
+    this.#names.push(...(payload.names ?? []));
+
+    let source = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+    let name = 0;
+    const lines = (payload.mappings ?? '').split(';');
+    for (const [lineIndex, line] of lines.entries()) {
+      const generatedLine = lineOffset + lineIndex;
+      const mappings = (this.#lines[generatedLine] ??= []);
+      let generatedColumn = lineIndex === 0 ? columnOffset : 0;
+      for (const segment of line.split(',')) {
+        if (!segment) {
+          continue;
+        }
+        const values = decodeVlqSegment(segment);
+        generatedColumn += values[0];
+        const mapping: Mapping = {generatedColumn};
+        if (values.length >= 4) {
+          source += values[1];
+          originalLine += values[2];
+          originalColumn += values[3];
+          mapping.source = sourceOffset + source;
+          mapping.originalLine = originalLine;
+          mapping.originalColumn = originalColumn;
+          if (values.length >= 5) {
+            name += values[4];
+            mapping.name = nameOffset + name;
+          }
+        }
+        mappings.push(mapping);
+      }
+      mappings.sort((a, b) => a.generatedColumn - b.generatedColumn);
+    }
+  }
+
+  #resolveSourceUrl(source: string): string {
+    try {
+      return new URL(source, this.url).href;
+    } catch {
+      return source;
+    }
+  }
+
+  sources(): string[] {
+    return this.#sources;
+  }
+
+  sourceContent(source: string): string | undefined {
+    return this.#sourcesContent[this.#sources.indexOf(source)];
+  }
+
+  /**
+   * Finds the original location of a 0-based generated position.
+   */
+  findOriginalLocation(
+    lineNumber: number,
+    columnNumber: number,
+  ): OriginalLocation | undefined {
+    const mappings = this.#lines[lineNumber];
+    if (!mappings?.length) {
+      return;
+    }
+    // The last mapping that starts at or before the column.
+    let low = 0;
+    let high = mappings.length - 1;
+    let found: Mapping | undefined;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      if (mappings[middle].generatedColumn <= columnNumber) {
+        found = mappings[middle];
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    if (found?.source === undefined) {
+      return;
+    }
+    return {
+      source: this.#sources[found.source],
+      lineNumber: found.originalLine!,
+      columnNumber: found.originalColumn!,
+      name: found.name !== undefined ? this.#names[found.name] : undefined,
+    };
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// If moved update release-please config
+// x-release-please-start-version
+export const VERSION = '0.10.2';
+// x-release-please-end
@@ -6,8 +6,11 @@
 import assert from 'node:assert';
 import {describe, it} from 'node:test';
 
+import logger from 'debug';
+import {Locator} from 'puppeteer';
 import sinon from 'sinon';
 
+import {McpContext} from '../src/McpContext.js';
 import type {TraceResult} from '../src/trace-processing/parse.js';
 
 import {html, withBrowser} from './utils.js';
@@ -26,15 +29,34 @@ describe('McpContext', () => {
       await context.createTextSnapshot();
       assert.ok(await context.getElementByUid('1_1'));
       await context.createTextSnapshot();
-      try {
-        await context.getElementByUid('1_1');
-        assert.fail('not reached');
-      } catch (err) {
-        assert.strict(
-          err.message,
-          'This uid is coming from a stale snapshot. Call take_snapshot to get a fresh snapshot',
-        );
-      }
+      assert.ok(await context.getElementByUid('1_1'));
+      await page.evaluate(() => {
+        document.querySelector('button')?.remove();
+      });
+      await assert.rejects(
+        context.getElementByUid('1_1'),
+        /The element with uid 1_1 is no longer on the page/,
+      );
+    });
+  });
+
+  it('keeps uids of elements across snapshots', async () => {
+    await withBrowser(async (_response, context) => {
+      const page = context.getSelectedPage();
+      await page.setContent(html`<button>First</button>`);
+      await context.createTextSnapshot();
+      const [first] = context.getTextSnapshot()!.root.children;
+      await page.evaluate(() => {
+        const button = document.createElement('button');
+        button.textContent = 'Second';
+        document.body.prepend(button);
+      });
+      await context.createTextSnapshot();
+      const [second, firstAgain] = context.getTextSnapshot()!.root.children;
+      assert.strictEqual(firstAgain.id, first.id);
+      assert.strictEqual(firstAgain.name, 'First');
+      assert.strictEqual(second.id, '2_0');
+      assert.strictEqual(second.name, 'Second');
     });
   });
 
@@ -48,6 +70,26 @@ describe('McpContext', () => {
     });
   });
 
+  it('assigns ids to traces and bounds the kept raw events', async () => {
+    await withBrowser(async (_response, context) => {
+      const fakeTrace = {} as unknown as TraceResult;
+      const traces = [1, 2, 3, 4].map(() =>
+        context.storeTraceRecording(fakeTrace, 'Test', new Uint8Array()),
+      );
+      assert.deepStrictEqual(
+        traces.map(trace => trace.id),
+        [1, 2, 3, 4],
+      );
+      assert.deepStrictEqual(
+        context.getStoredTraces().map(trace => Boolean(trace.rawData)),
+        [false, true, true, true],
+      );
+      assert.strictEqual(context.getStoredTrace(2), traces[1]);
+      assert.strictEqual(context.getStoredTrace(), traces[3]);
+      assert.throws(() => context.getStoredTrace(5), /No trace with id 5/);
+    });
+  });
+
   it('should update default timeout when cpu throttling changes', async () => {
     await withBrowser(async (_response, context) => {
       const page = await context.newPage();
@@ -80,7 +122,7 @@ describe('McpContext', () => {
         // trigger the waiting only
       });
 
-      sinon.assert.calledWithExactly(stub, page, 2, 10);
+      sinon.assert.calledWithExactly(stub, page, 2, 20.25);
     });
   });
 
@@ -100,4 +142,37 @@ describe('McpContext', () => {
       },
     );
   });
+
+  it('only exposes pages of its browser context', async () => {
+    await withBrowser(async (_response, context) => {
+      const browserContext = await context.browser.createBrowserContext();
+      try {
+        const isolatedPage = await browserContext.newPage();
+        const isolatedContext = await McpContext.from(
+          context.browser,
+          logger('test'),
+          {
+            experimentalDevToolsDebugging: false,
+            browserContext,
+          },
+          Locator,
+        );
+        try {
+          assert.deepStrictEqual(isolatedContext.getPages(), [isolatedPage]);
+          assert.ok(isolatedContext.isPageSelected(isolatedPage));
+
+          const newPage = await isolatedContext.newPage();
+          assert.strictEqual(newPage.browserContext(), browserContext);
+          assert.deepStrictEqual(isolatedContext.getPages(), [
+            isolatedPage,
+            newPage,
+          ]);
+        } finally {
+          isolatedContext.dispose();
+        }
+      } finally {
+        await browserContext.close();
+      }
+    });
+  });
 });
@@ -9,6 +9,9 @@ import {tmpdir} from 'node:os';
 import {join} from 'node:path';
 import {describe, it} from 'node:test';
 
+import {McpResponse} from '../src/McpResponse.js';
+import {findElements} from '../src/tools/snapshot.js';
+
 import {
   getMockRequest,
   getMockResponse,
@@ -117,6 +120,81 @@ describe('McpResponse', () => {
     }
   });
 
+  it('returns the changes since the previous snapshot', async () => {
+    await withBrowser(async (response, context) => {
+      const page = context.getSelectedPage();
+      await page.setContent(
+        html`<button>Save</button
+          ><input
+            type="checkbox"
+            aria-label="Agree"
+          />`,
+      );
+      response.includeSnapshot();
+      await response.handle('test', context);
+
+      await page.click('input');
+      const diffResponse = new McpResponse();
+      diffResponse.includeSnapshot({diff: true});
+      const result = await diffResponse.handle('test', context);
+      const text = result[0].text as string;
+      assert.ok(text.includes('## Latest page snapshot changes'));
+      assert.match(
+        text,
+        /~ +uid=1_\d+ checkbox "Agree" checked focusable focused \(was: checkbox "Agree"/,
+      );
+      assert.ok(!text.includes('button "Save"'));
+    });
+  });
+
+  it('diffs against the last snapshot sent to the client', async () => {
+    await withBrowser(async (response, context) => {
+      const page = context.getSelectedPage();
+      await page.setContent(
+        html`<button>Save</button
+          ><input
+            type="checkbox"
+            aria-label="Agree"
+          />`,
+      );
+      response.includeSnapshot();
+      await response.handle('test', context);
+
+      await page.click('input');
+      await findElements.handler(
+        {params: {role: 'checkbox'}},
+        new McpResponse(),
+        context,
+      );
+      const diffResponse = new McpResponse();
+      diffResponse.includeSnapshot({diff: true});
+      const result = await diffResponse.handle('test', context);
+      const text = result[0].text as string;
+      assert.ok(text.includes('## Latest page snapshot changes'));
+      assert.match(
+        text,
+        /~ +uid=1_\d+ checkbox "Agree" checked focusable focused \(was: checkbox "Agree"/,
+      );
+    });
+  });
+
+  it('returns the full snapshot after a navigation', async () => {
+    await withBrowser(async (response, context) => {
+      const page = context.getSelectedPage();
+      await page.goto('data:text/html,<button>Save</button>');
+      response.includeSnapshot();
+      await response.handle('test', context);
+
+      await page.goto('data:text/html,<button>Save</button>');
+      const diffResponse = new McpResponse();
+      diffResponse.includeSnapshot({diff: true});
+      const result = await diffResponse.handle('test', context);
+      const text = result[0].text as string;
+      assert.ok(text.includes('## Latest page snapshot\n'));
+      assert.ok(text.includes('button "Save"'));
+    });
+  });
+
   it('adds throttling setting when it is not null', async t => {
     await withBrowser(async (response, context) => {
       context.setNetworkConditions('Slow 3G');
@@ -126,6 +204,70 @@ describe('McpResponse', () => {
     });
   });
 
+  it('adds the emulated device', async () => {
+    await withBrowser(async (response, context) => {
+      context.setEmulatedDevice({
+        name: 'Tablet',
+        userAgent: 'TabletAgent',
+        viewport: {
+          width: 800,
+          height: 1200,
+          deviceScaleFactor: 2,
+          isMobile: true,
+          hasTouch: true,
+        },
+      });
+      const result = await response.handle('test', context);
+      assert.strictEqual(
+        result[0].text,
+        `# test response
+## Device emulation
+Emulating: Tablet (800x1200, deviceScaleFactor 2, mobile, touch)
+User agent: TabletAgent`,
+      );
+    });
+  });
+
+  it('adds geolocation, timezone, locale and permission emulation', async () => {
+    await withBrowser(async (response, context) => {
+      context.setGeolocation({latitude: 52.52, longitude: 13.4, accuracy: 10});
+      context.setTimezone('Europe/Berlin');
+      context.setLocale('de-DE');
+      context.setPermission('https://example.com', 'geolocation', 'granted');
+      const result = await response.handle('test', context);
+      assert.strictEqual(
+        result[0].text,
+        `# test response
+## Geolocation emulation
+Emulating: latitude=52.52 longitude=13.4 accuracy=10
+## Timezone emulation
+Emulating: Europe/Berlin
+## Locale emulation
+Emulating: de-DE
+## Permission overrides
+geolocation: granted for https://example.com`,
+      );
+    });
+  });
+
+  it('adds media and vision deficiency emulation', async () => {
+    await withBrowser(async (response, context) => {
+      context.setMediaType('print');
+      context.setMediaFeatures([{name: 'prefers-color-scheme', value: 'dark'}]);
+      context.setVisionDeficiency('protanopia');
+      const result = await response.handle('test', context);
+      assert.strictEqual(
+        result[0].text,
+        `# test response
+## Media emulation
+Media type: print
+prefers-color-scheme: dark
+## Vision deficiency emulation
+Emulating: protanopia`,
+      );
+    });
+  });
+
   it('does not include throttling setting when it is null', async () => {
     await withBrowser(async (response, context) => {
       const result = await response.handle('test', context);
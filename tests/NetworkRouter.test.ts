@@ -0,0 +1,47 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert';
+import {describe, it} from 'node:test';
+
+import {urlPatternToRegExp} from '../src/NetworkRouter.js';
+
+describe('NetworkRouter', () => {
+  describe('urlPatternToRegExp', () => {
+    it('matches glob patterns', () => {
+      const regExp = urlPatternToRegExp('*/api/*.json');
+      assert.ok(regExp.test('https://example.com/api/users.json'));
+      assert.ok(regExp.test('https://example.com/api/v1/users.json'));
+      assert.ok(!regExp.test('https://example.com/api/users.json?page=1'));
+      assert.ok(!regExp.test('https://example.com/static/users.json'));
+    });
+
+    it('escapes special characters in glob patterns', () => {
+      const regExp = urlPatternToRegExp('https://example.com/?a=(1)');
+      assert.ok(regExp.test('https://example.com/xa=(1)'));
+      assert.ok(!regExp.test('https://example.com/xa=1'));
+      assert.ok(!regExp.test('https://exampleXcom/xa=(1)'));
+    });
+
+    it('matches regular expressions', () => {
+      const regExp = urlPatternToRegExp('/\\/api\\/v\\d+\\//i');
+      assert.ok(regExp.test('https://example.com/API/v2/users'));
+      assert.ok(!regExp.test('https://example.com/api/latest/users'));
+    });
+
+    it('ignores the global and sticky flags', () => {
+      const regExp = urlPatternToRegExp('/users/gy');
+      assert.strictEqual(regExp.flags, '');
+      assert.ok(regExp.test('https://example.com/users'));
+      assert.ok(regExp.test('https://example.com/users'));
+    });
+
+    it('throws for invalid regular expressions', () => {
+      assert.throws(() => urlPatternToRegExp('/(/'), {
+        message: 'Invalid regular expression /(/',
+      });
+    });
+  });
+});
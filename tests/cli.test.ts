@@ -4,6 +4,9 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import assert from 'node:assert';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 import {describe, it} from 'node:test';
 
 import {parseArguments} from '../src/cli.js';
@@ -16,6 +19,15 @@ describe('cli args parsing', () => {
     categoryPerformance: true,
     'category-network': true,
     categoryNetwork: true,
+    transport: 'stdio',
+    port: 8000,
+    host: '127.0.0.1',
+    'isolate-sessions': true,
+    isolateSessions: true,
+    'snapshot-diff': false,
+    snapshotDiff: false,
+    'raw-trace-limit': 3,
+    rawTraceLimit: 3,
   };
 
   it('parses with default args', async () => {
@@ -198,4 +210,52 @@ describe('cli args parsing', () => {
       categoryEmulation: false,
     });
   });
+
+  it('parses http transport', async () => {
+    const args = parseArguments('1.0.0', [
+      'node',
+      'main.js',
+      '--transport',
+      'http',
+      '--port',
+      '9000',
+      '--host',
+      '0.0.0.0',
+    ]);
+    assert.deepStrictEqual(args, {
+      ...defaultArgs,
+      _: [],
+      headless: false,
+      isolated: false,
+      $0: 'npx chrome-devtools-mcp@latest',
+      channel: 'stable',
+      transport: 'http',
+      port: 9000,
+      host: '0.0.0.0',
+    });
+  });
+
+  it('parses network profiles', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'network-profiles-'));
+    const file = path.join(dir, 'profiles.json');
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        Satellite: {download: 50000, upload: 25000, latency: 600},
+      }),
+    );
+    try {
+      const args = parseArguments('1.0.0', [
+        'node',
+        'main.js',
+        '--networkProfiles',
+        file,
+      ]);
+      assert.deepStrictEqual(args.networkProfiles, {
+        Satellite: {download: 50000, upload: 25000, latency: 600},
+      });
+    } finally {
+      fs.rmSync(dir, {recursive: true});
+    }
+  });
 });
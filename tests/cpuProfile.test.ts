@@ -0,0 +1,71 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert';
+import {describe, it} from 'node:test';
+
+import {summarizeCpuProfile} from '../src/cpuProfile.js';
+import type {Protocol} from '../src/third_party/index.js';
+
+function callFrame(functionName: string): Protocol.Runtime.CallFrame {
+  return {
+    functionName,
+    scriptId: functionName.startsWith('(') ? '0' : '1',
+    url: functionName.startsWith('(') ? '' : 'https://example.com/app.js',
+    lineNumber: functionName.length,
+    columnNumber: 0,
+  };
+}
+
+// (root) -> main -> recurse -> recurse, and (root) -> (idle).
+const PROFILE: Protocol.Profiler.Profile = {
+  nodes: [
+    {id: 1, callFrame: callFrame('(root)'), children: [2, 5]},
+    {id: 2, callFrame: callFrame('main'), children: [3]},
+    {id: 3, callFrame: callFrame('recurse'), children: [4]},
+    {id: 4, callFrame: callFrame('recurse')},
+    {id: 5, callFrame: callFrame('(idle)')},
+  ],
+  startTime: 0,
+  endTime: 10_000,
+  // Each sample lasts until the next one.
+  samples: [2, 3, 4, 4, 5, 5],
+  timeDeltas: [0, 1000, 2000, 3000, 1000, 3000],
+};
+
+describe('cpuProfile', () => {
+  it('computes self and total times', () => {
+    const summary = summarizeCpuProfile(PROFILE);
+    assert.strictEqual(summary.duration, 10);
+    assert.strictEqual(summary.sampleCount, 6);
+    assert.deepStrictEqual(
+      summary.functions.map(({callFrame, selfTime, totalTime}) => ({
+        name: callFrame.functionName,
+        selfTime,
+        totalTime,
+      })),
+      [
+        {name: 'recurse', selfTime: 6, totalTime: 6},
+        {name: 'main', selfTime: 1, totalTime: 7},
+      ],
+    );
+  });
+
+  it('builds the call tree', () => {
+    const {root} = summarizeCpuProfile(PROFILE);
+    assert.strictEqual(root.totalTime, 10);
+    assert.deepStrictEqual(
+      root.children.map(child => [
+        child.callFrame.functionName,
+        child.totalTime,
+      ]),
+      [
+        ['main', 7],
+        ['(idle)', 3],
+      ],
+    );
+    assert.strictEqual(root.children[0].children[0].children[0].selfTime, 4);
+  });
+});
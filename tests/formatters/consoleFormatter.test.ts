@@ -4,12 +4,14 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import assert from 'node:assert';
 import {describe, it} from 'node:test';
 
 import type {ConsoleMessageData} from '../../src/formatters/consoleFormatter.js';
 import {
   formatConsoleEventShort,
   formatConsoleEventVerbose,
+  parseErrorStack,
 } from '../../src/formatters/consoleFormatter.js';
 
 describe('consoleFormatter', () => {
@@ -91,5 +93,68 @@ describe('consoleFormatter', () => {
       const result = formatConsoleEventVerbose(message);
       t.assert.snapshot?.(result);
     });
+
+    it('formats a message with a source-mapped stack trace', t => {
+      const message: ConsoleMessageData = {
+        consoleMessageStableId: 5,
+        type: 'error',
+        message: 'Uncaught TypeError: x is undefined',
+        stackTrace: [
+          {
+            functionName: 'add',
+            url: 'http://example.com/app.js',
+            lineNumber: 0,
+            columnNumber: 120,
+            original: {
+              source: 'http://example.com/src/math.ts',
+              lineNumber: 2,
+              columnNumber: 6,
+            },
+          },
+          {
+            url: 'http://example.com/',
+            lineNumber: 9,
+            columnNumber: 2,
+          },
+        ],
+      };
+      const result = formatConsoleEventVerbose(message);
+      t.assert.snapshot?.(result);
+    });
+  });
+
+  describe('parseErrorStack', () => {
+    it('parses stack frames', () => {
+      assert.deepStrictEqual(
+        parseErrorStack(
+          [
+            'TypeError: x is undefined',
+            '    at add (http://example.com/app.js:1:121)',
+            '    at <anonymous> (http://example.com/:10:3)',
+            '    at http://example.com/lib.js:2:5',
+          ].join('\n'),
+        ),
+        [
+          {
+            functionName: 'add',
+            url: 'http://example.com/app.js',
+            lineNumber: 0,
+            columnNumber: 120,
+          },
+          {
+            functionName: undefined,
+            url: 'http://example.com/',
+            lineNumber: 9,
+            columnNumber: 2,
+          },
+          {
+            functionName: undefined,
+            url: 'http://example.com/lib.js',
+            lineNumber: 1,
+            columnNumber: 4,
+          },
+        ],
+      );
+    });
   });
 });
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert';
+import {describe, it} from 'node:test';
+
+import {
+  formatCoverageTotal,
+  getShortDescriptionForCoverage,
+  sortByUnusedBytes,
+  summarizeCoverage,
+} from '../../src/formatters/coverageFormatter.js';
+
+describe('coverageFormatter', () => {
+  const scripts = summarizeCoverage(
+    [
+      {
+        url: 'https://example.com/app.js',
+        text: 'a'.repeat(2048),
+        ranges: [
+          {start: 0, end: 512},
+          {start: 1024, end: 1536},
+        ],
+      },
+      {
+        url: 'https://example.com/vendor.js',
+        text: 'b'.repeat(4096),
+        ranges: [{start: 0, end: 1024}],
+      },
+    ],
+    'script',
+    url => (url.endsWith('app.js') ? 3 : undefined),
+  );
+
+  it('summarizes coverage entries', () => {
+    assert.deepStrictEqual(
+      scripts.map(({reqid, totalBytes, usedBytes}) => ({
+        reqid,
+        totalBytes,
+        usedBytes,
+      })),
+      [
+        {reqid: 3, totalBytes: 2048, usedBytes: 1024},
+        {reqid: undefined, totalBytes: 4096, usedBytes: 1024},
+      ],
+    );
+  });
+
+  it('counts UTF-8 bytes', () => {
+    const [summary] = summarizeCoverage(
+      [
+        {
+          url: 'https://example.com/i18n.js',
+          text: 'äöü',
+          ranges: [{start: 0, end: 1}],
+        },
+      ],
+      'script',
+      () => undefined,
+    );
+    assert.strictEqual(summary.totalBytes, 6);
+    assert.strictEqual(summary.usedBytes, 2);
+  });
+
+  it('sorts by unused bytes', () => {
+    assert.deepStrictEqual(
+      sortByUnusedBytes(scripts).map(summary => summary.url),
+      ['https://example.com/vendor.js', 'https://example.com/app.js'],
+    );
+  });
+
+  it('formats summaries', () => {
+    assert.deepStrictEqual(scripts.map(getShortDescriptionForCoverage), [
+      'reqid=3 https://example.com/app.js (script): 1.0 kB of 2.0 kB unused (50%)',
+      'https://example.com/vendor.js (script): 3.0 kB of 4.0 kB unused (75%)',
+    ]);
+    assert.strictEqual(
+      formatCoverageTotal(scripts),
+      'Total: 4.0 kB of 6.0 kB unused (67%)',
+    );
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert';
+import {describe, it} from 'node:test';
+
+import {
+  formatCallFrames,
+  formatRemoteObject,
+  formatScopeVariables,
+  formatSourceLines,
+  formatSourceSnippet,
+  getShortDescriptionForBreakpoint,
+} from '../../src/formatters/debuggerFormatter.js';
+import type {Protocol} from '../../src/third_party/index.js';
+
+describe('debuggerFormatter', () => {
+  describe('getShortDescriptionForBreakpoint', () => {
+    it('works for resolved breakpoints', () => {
+      assert.strictEqual(
+        getShortDescriptionForBreakpoint({
+          id: 1,
+          url: 'http://example.com/app.js',
+          lineNumber: 10,
+          columnNumber: 4,
+          condition: 'x > 1',
+          locations: [{scriptId: '1', lineNumber: 9, columnNumber: 3}],
+        }),
+        'bpid=1 http://example.com/app.js:10:4 condition="x > 1" (locations: 1)',
+      );
+    });
+
+    it('works for unresolved breakpoints', () => {
+      assert.strictEqual(
+        getShortDescriptionForBreakpoint({
+          id: 2,
+          url: 'http://example.com/lazy.js',
+          lineNumber: 1,
+          locations: [],
+        }),
+        'bpid=2 http://example.com/lazy.js:1 (not resolved yet)',
+      );
+    });
+  });
+
+  describe('formatSourceSnippet', () => {
+    it('marks the paused line', () => {
+      const source = ['a();', 'b();', 'c();', 'd();', 'e();', 'f();'].join(
+        '\n',
+      );
+      assert.deepStrictEqual(
+        formatSourceSnippet(source, {scriptId: '1', lineNumber: 1}),
+        ['  1 | a();', '> 2 | b();', '  3 | c();', '  4 | d();'],
+      );
+    });
+
+    it('keeps the paused column visible in long lines', () => {
+      const source = `${'x'.repeat(500)}debugger;${'y'.repeat(500)}`;
+      const [line] = formatSourceSnippet(source, {
+        scriptId: '1',
+        lineNumber: 0,
+        columnNumber: 500,
+      });
+      assert.ok(line.startsWith('> 1 | …'));
+      assert.ok(line.includes('debugger;'));
+      assert.ok(line.endsWith('…'));
+    });
+  });
+
+  describe('formatSourceLines', () => {
+    it('returns the line range', () => {
+      const source = ['a();', 'b();', 'c();'].join('\n');
+      assert.deepStrictEqual(formatSourceLines(source, 10, 20, 8), [
+        'Lines 10-11 of 9-11:',
+        '10 | b();',
+        '11 | c();',
+      ]);
+    });
+
+    it('reports ranges outside of the source', () => {
+      assert.deepStrictEqual(formatSourceLines('a();', 5, 10), [
+        'No lines in range. The source has lines 1-1.',
+      ]);
+    });
+  });
+
+  describe('formatCallFrames', () => {
+    it('includes async frames', () => {
+      const callFrames = [
+        {
+          callFrameId: '1',
+          functionName: 'inner',
+          location: {scriptId: '1', lineNumber: 1, columnNumber: 2},
+          url: 'http://example.com/app.js',
+          scopeChain: [],
+          this: {type: 'undefined'},
+        },
+        {
+          callFrameId: '2',
+          functionName: '',
+          location: {scriptId: '1', lineNumber: 5, columnNumber: 0},
+          url: 'http://example.com/app.js',
+          scopeChain: [],
+          this: {type: 'undefined'},
+        },
+      ] as Protocol.Debugger.CallFrame[];
+      assert.deepStrictEqual(
+        formatCallFrames(callFrames, {
+          description: 'setTimeout',
+          callFrames: [
+            {
+              functionName: 'schedule',
+              scriptId: '1',
+              url: 'http://example.com/app.js',
+              lineNumber: 9,
+              columnNumber: 4,
+            },
+          ],
+        }),
+        [
+          '#0 inner (http://example.com/app.js:2:3)',
+          '#1 (anonymous) (http://example.com/app.js:6:1)',
+          '-- setTimeout --',
+          '   schedule (http://example.com/app.js:10:5)',
+        ],
+      );
+    });
+  });
+
+  describe('formatRemoteObject', () => {
+    it('formats primitives', () => {
+      assert.strictEqual(
+        formatRemoteObject({type: 'string', value: 'text'}),
+        '"text"',
+      );
+      assert.strictEqual(formatRemoteObject({type: 'number', value: 1}), '1');
+      assert.strictEqual(
+        formatRemoteObject({type: 'number', unserializableValue: 'NaN'}),
+        'NaN',
+      );
+      assert.strictEqual(formatRemoteObject({type: 'undefined'}), 'undefined');
+      assert.strictEqual(
+        formatRemoteObject({type: 'object', subtype: 'null', value: null}),
+        'null',
+      );
+    });
+
+    it('formats object previews', () => {
+      assert.strictEqual(
+        formatRemoteObject({
+          type: 'object',
+          description: 'Object',
+          preview: {
+            type: 'object',
+            overflow: true,
+            properties: [
+              {name: 'a', type: 'number', value: '1'},
+              {name: 'b', type: 'string', value: 'x'},
+            ],
+          },
+        }),
+        'Object {a: 1, b: "x", …}',
+      );
+      assert.strictEqual(
+        formatRemoteObject({
+          type: 'object',
+          subtype: 'array',
+          description: 'Array(2)',
+          preview: {
+            type: 'object',
+            subtype: 'array',
+            overflow: false,
+            properties: [
+              {name: '0', type: 'number', value: '1'},
+              {name: '1', type: 'object', value: 'Object'},
+            ],
+          },
+        }),
+        'Array(2) [1, Object]',
+      );
+    });
+  });
+
+  describe('formatScopeVariables', () => {
+    it('lists variables per scope', () => {
+      assert.deepStrictEqual(
+        formatScopeVariables([
+          {
+            type: 'local',
+            name: 'add',
+            variables: [
+              {
+                name: 'a',
+                value: {type: 'number', value: 1},
+                configurable: true,
+                enumerable: true,
+              },
+            ],
+          },
+          {type: 'block', variables: []},
+        ]),
+        ['### local scope (add)', 'a: 1', '### block scope', '<no variables>'],
+      );
+    });
+  });
+});
@@ -14,11 +14,26 @@ import {
   getFormattedRequestBody,
   getFormattedResponseBody,
   getShortDescriptionForRequest,
+  getShortDescriptionForRoute,
 } from '../../src/formatters/networkFormatter.js';
 import {getMockRequest, getMockResponse} from '../utils.js';
 
 describe('networkFormatter', () => {
   describe('getShortDescriptionForRequest', () => {
+    it('shows the matched network route', async () => {
+      const request = getMockRequest();
+      const result = getShortDescriptionForRequest(request, 1, false, {
+        id: 2,
+        url: '*',
+        action: 'fulfill',
+        hitCount: 1,
+      });
+
+      assert.equal(
+        result,
+        'reqid=1 GET http://example.com [pending] [fulfill by routeid=2]',
+      );
+    });
     it('works', async () => {
       const request = getMockRequest();
       const result = getShortDescriptionForRequest(request, 1);
@@ -245,4 +260,57 @@ describe('networkFormatter', () => {
       assert.strictEqual(result, '<not available anymore>');
     });
   });
+
+  describe('getShortDescriptionForRoute', () => {
+    it('works for fulfill', async () => {
+      const result = getShortDescriptionForRoute({
+        id: 1,
+        url: '*/api/*',
+        action: 'fulfill',
+        headers: {'content-type': 'text/plain'},
+        hitCount: 3,
+      });
+
+      assert.equal(
+        result,
+        'routeid=1 fulfill */api/* status=200 headers={"content-type":"text/plain"} (hits: 3)',
+      );
+    });
+    it('works for abort', async () => {
+      const result = getShortDescriptionForRoute({
+        id: 1,
+        url: '*.png',
+        action: 'abort',
+        errorReason: 'blockedbyclient',
+        hitCount: 0,
+      });
+
+      assert.equal(
+        result,
+        'routeid=1 abort *.png errorReason=blockedbyclient (hits: 0)',
+      );
+    });
+    it('works for replay', async () => {
+      const result = getShortDescriptionForRoute({
+        id: 2,
+        url: '*',
+        action: 'replay',
+        har: {
+          log: {
+            version: '1.2',
+            creator: {name: 'test', version: ''},
+            entries: [],
+          },
+        },
+        harFile: '/tmp/recording.har',
+        notFound: 'continue',
+        hitCount: 5,
+      });
+
+      assert.equal(
+        result,
+        'routeid=2 replay * har=/tmp/recording.har (entries: 0) notFound=continue (hits: 5)',
+      );
+    });
+  });
 });
@@ -9,8 +9,12 @@ import {describe, it} from 'node:test';
 
 import type {ElementHandle} from 'puppeteer-core';
 
-import {formatSnapshotNode} from '../../src/formatters/snapshotFormatter.js';
-import type {TextSnapshotNode} from '../../src/McpContext.js';
+import {
+  formatSnapshotDiff,
+  formatSnapshotNode,
+  isSameDocument,
+} from '../../src/formatters/snapshotFormatter.js';
+import type {TextSnapshot, TextSnapshotNode} from '../../src/McpContext.js';
 
 describe('snapshotFormatter', () => {
   it('formats a snapshot with value properties', () => {
@@ -248,4 +252,134 @@ describe('snapshotFormatter', () => {
 
     t.assert.snapshot?.(formatted);
   });
+
+  describe('formatSnapshotDiff', () => {
+    interface NodeData extends Omit<
+      TextSnapshotNode,
+      'id' | 'elementHandle' | 'children'
+    > {
+      children: NodeData[];
+    }
+
+    function createSnapshot(snapshotId: string, root: NodeData): TextSnapshot {
+      let idCounter = 0;
+      const assignIds = (node: NodeData): TextSnapshotNode => {
+        return {
+          ...node,
+          id: `${snapshotId}_${idCounter++}`,
+          children: node.children.map(assignIds),
+          elementHandle: async (): Promise<ElementHandle<Element> | null> => {
+            return null;
+          },
+        };
+      };
+      return {
+        snapshotId,
+        root: assignIds(root),
+        idToNode: new Map(),
+        hasSelectedElement: false,
+        verbose: false,
+      };
+    }
+
+    it('lists added, removed and changed nodes with their ancestors', () => {
+      const previous = createSnapshot('1', {
+        role: 'RootWebArea',
+        name: 'page',
+        backendNodeId: 1,
+        children: [
+          {
+            role: 'main',
+            backendNodeId: 2,
+            children: [
+              {role: 'button', name: 'Save', backendNodeId: 3, children: []},
+              {role: 'checkbox', name: 'Agree', backendNodeId: 4, children: []},
+              {
+                role: 'alert',
+                backendNodeId: 5,
+                children: [
+                  {
+                    role: 'StaticText',
+                    name: 'Oops',
+                    backendNodeId: 6,
+                    children: [],
+                  },
+                ],
+              },
+            ],
+          },
+          {role: 'link', name: 'Home', backendNodeId: 7, children: []},
+        ],
+      });
+      const current = createSnapshot('2', {
+        role: 'RootWebArea',
+        name: 'page',
+        backendNodeId: 1,
+        children: [
+          {
+            role: 'main',
+            backendNodeId: 2,
+            children: [
+              {role: 'button', name: 'Save', backendNodeId: 3, children: []},
+              {
+                role: 'checkbox',
+                name: 'Agree',
+                checked: true,
+                backendNodeId: 4,
+                children: [],
+              },
+              {role: 'status', name: 'Saved', backendNodeId: 8, children: []},
+            ],
+          },
+          {role: 'link', name: 'Home', backendNodeId: 7, children: []},
+        ],
+      });
+
+      assert.strictEqual(
+        formatSnapshotDiff(previous, current),
+        `  uid=2_0 RootWebArea "page"
+    uid=2_1 main
+~     uid=2_3 checkbox "Agree" checked (was: checkbox "Agree")
++     uid=2_4 status "Saved"
+-     uid=1_4 alert
+`,
+      );
+    });
+
+    it('does not compare snapshots of different documents', () => {
+      const root: NodeData = {
+        role: 'RootWebArea',
+        name: 'page',
+        backendNodeId: 1,
+        children: [],
+      };
+      assert.ok(
+        isSameDocument(createSnapshot('1', root), createSnapshot('2', root)),
+      );
+      assert.ok(
+        !isSameDocument(
+          createSnapshot('1', root),
+          createSnapshot('2', {...root, backendNodeId: 9}),
+        ),
+      );
+    });
+
+    it('reports when nothing changed', () => {
+      const root: NodeData = {
+        role: 'RootWebArea',
+        name: 'page',
+        backendNodeId: 1,
+        children: [
+          {role: 'button', name: 'Save', backendNodeId: 2, children: []},
+        ],
+      };
+      assert.strictEqual(
+        formatSnapshotDiff(
+          createSnapshot('1', root),
+          createSnapshot('2', root),
+        ),
+        'No changes since the previous snapshot.\n',
+      );
+    });
+  });
 });
@@ -0,0 +1,203 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert';
+import {describe, it} from 'node:test';
+
+import type {ElementStylesData} from '../../src/formatters/stylesFormatter.js';
+import {formatElementStyles} from '../../src/formatters/stylesFormatter.js';
+import type {Protocol} from '../../src/third_party/index.js';
+
+function range(line: number): Protocol.CSS.SourceRange {
+  return {startLine: line, startColumn: 0, endLine: line, endColumn: 10};
+}
+
+function style(
+  properties: Array<Partial<Protocol.CSS.CSSProperty>>,
+): Protocol.CSS.CSSStyle {
+  return {
+    shorthandEntries: [],
+    cssProperties: properties.map(property => ({
+      name: '',
+      value: '',
+      range: range(0),
+      ...property,
+    })),
+  };
+}
+
+function rule(
+  selector: string,
+  properties: Array<Partial<Protocol.CSS.CSSProperty>>,
+  line = 0,
+  origin: Protocol.CSS.StyleSheetOrigin = 'regular',
+): Protocol.CSS.RuleMatch {
+  return {
+    matchingSelectors: [0],
+    rule: {
+      styleSheetId: origin === 'regular' ? 'sheet' : undefined,
+      origin,
+      selectorList: {
+        text: selector,
+        selectors: [{text: selector, range: range(line)}],
+      },
+      style: style(properties),
+    },
+  };
+}
+
+function createData(
+  matchedStyles: Protocol.CSS.GetMatchedStylesForNodeResponse,
+): ElementStylesData {
+  return {
+    computedStyle: [
+      {name: 'color', value: 'rgb(255, 0, 0)'},
+      {name: 'display', value: 'block'},
+      {name: 'margin-top', value: '4px'},
+    ],
+    matchedStyles,
+    styleSheets: new Map([
+      [
+        'sheet',
+        {
+          styleSheetId: 'sheet',
+          sourceURL: 'https://example.com/styles.css',
+          startLine: 0,
+        } as Protocol.CSS.CSSStyleSheetHeader,
+      ],
+    ]),
+  };
+}
+
+describe('stylesFormatter', () => {
+  it('formats the computed style and matched rules', () => {
+    const data = createData({
+      inlineStyle: style([{name: 'color', value: 'red'}]),
+      matchedCSSRules: [
+        rule(
+          'div',
+          [{name: 'display', value: 'block', range: undefined}],
+          0,
+          'user-agent',
+        ),
+        rule(
+          '.box',
+          [
+            {name: 'color', value: 'blue'},
+            {
+              name: 'margin',
+              value: '4px',
+              longhandProperties: [
+                {name: 'margin-top', value: '4px'},
+                {name: 'margin-bottom', value: '4px'},
+              ],
+            },
+            {name: 'margin-top', value: '4px', range: undefined},
+            {name: 'width', value: 'nope', parsedOk: false},
+          ],
+          11,
+        ),
+      ],
+    });
+    assert.strictEqual(
+      formatElementStyles(data),
+      `## Computed style
+color: rgb(255, 0, 0)
+display: block
+margin-top: 4px
+## Matched rules
+### element.style
+  color: red;
+### .box (https://example.com/styles.css:12)
+  color: blue; /* overridden */
+  margin: 4px;
+  width: nope; /* invalid */
+### div (user agent stylesheet)
+  display: block;`,
+    );
+  });
+
+  it('lets !important declarations win', () => {
+    const data = createData({
+      inlineStyle: style([{name: 'color', value: 'red'}]),
+      matchedCSSRules: [
+        rule('.box', [{name: 'color', value: 'blue', important: true}]),
+      ],
+    });
+    assert.match(formatElementStyles(data), /color: red; \/\* overridden \*\//);
+    assert.match(formatElementStyles(data), /color: blue !important;$/);
+  });
+
+  it('lets the last declaration of a property in a rule win', () => {
+    const data = createData({
+      matchedCSSRules: [
+        rule('a', [
+          {name: 'color', value: 'red'},
+          {name: 'color', value: 'blue'},
+        ]),
+      ],
+    });
+    assert.ok(
+      formatElementStyles(data)
+        .endsWith(`### a (https://example.com/styles.css:1)
+  color: red; /* overridden */
+  color: blue;`),
+    );
+  });
+
+  it('lists inherited properties only', () => {
+    const data = createData({
+      matchedCSSRules: [rule('.box', [{name: 'color', value: 'blue'}])],
+      inherited: [
+        {
+          matchedCSSRules: [
+            rule('body', [
+              {name: 'color', value: 'black'},
+              {name: 'font-size', value: '16px'},
+              {name: 'display', value: 'flex'},
+            ]),
+          ],
+        },
+      ],
+    });
+    assert.ok(
+      formatElementStyles(data).endsWith(`## Inherited from the parent
+### body (https://example.com/styles.css:1)
+  color: black; /* overridden */
+  font-size: 16px;`),
+    );
+  });
+
+  it('filters by property names', () => {
+    const data = createData({
+      matchedCSSRules: [
+        rule('.box', [
+          {name: 'color', value: 'blue'},
+          {
+            name: 'margin',
+            value: '4px',
+            longhandProperties: [{name: 'margin-top', value: '4px'}],
+          },
+        ]),
+      ],
+    });
+    assert.strictEqual(
+      formatElementStyles(data, ['margin-top']),
+      `## Computed style
+margin-top: 4px
+## Matched rules
+### .box (https://example.com/styles.css:1)
+  margin: 4px;`,
+    );
+    assert.strictEqual(
+      formatElementStyles(data, ['outline']),
+      `## Computed style
+No matching properties.
+## Matched rules
+No matching rules.`,
+    );
+  });
+});
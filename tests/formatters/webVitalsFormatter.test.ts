@@ -0,0 +1,74 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert';
+import {describe, it} from 'node:test';
+
+import {formatWebVitals} from '../../src/formatters/webVitalsFormatter.js';
+
+describe('webVitalsFormatter', () => {
+  it('formats collected web vitals', () => {
+    const uids = new Map([[10, '1_3']]);
+    assert.strictEqual(
+      formatWebVitals(
+        {
+          url: 'https://example.com/',
+          lcp: {
+            value: 2800.4,
+            url: 'https://example.com/hero.png',
+            element: {description: 'img#hero', backendNodeId: 10},
+          },
+          cls: {
+            value: 0.05,
+            shiftedElements: [
+              {description: 'div.banner', backendNodeId: 11},
+              {description: 'p'},
+            ],
+          },
+          inp: {
+            value: 520,
+            type: 'pointerup',
+            target: {description: 'button', backendNodeId: 10},
+            inputDelay: 12,
+            processingDuration: 480,
+            presentationDelay: 28,
+          },
+          fcp: 900,
+          ttfb: 120,
+        },
+        backendNodeId => uids.get(backendNodeId),
+      ),
+      `## Web vitals for https://example.com/
+LCP: 2800 ms (needs improvement)
+- Element: uid=1_3 (img#hero)
+- Resource: https://example.com/hero.png
+CLS: 0.05 (good)
+- Shifted elements: div.banner, p
+INP: 520 ms (poor)
+- Interaction: pointerup on uid=1_3 (button)
+- Input delay: 12 ms
+- Processing duration: 480 ms
+- Presentation delay: 28 ms
+FCP: 900 ms (good)
+TTFB: 120 ms (good)`,
+    );
+  });
+
+  it('formats missing web vitals', () => {
+    assert.strictEqual(
+      formatWebVitals(
+        {url: 'about:blank', cls: {value: 0, shiftedElements: []}},
+        () => undefined,
+      ),
+      `## Web vitals for about:blank
+LCP: not available yet
+CLS: 0.00 (good)
+INP: no interactions yet
+FCP: not available yet
+TTFB: not available yet`,
+    );
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert';
+import {describe, it} from 'node:test';
+
+import type {Har} from '../src/har.js';
+import {
+  createHar,
+  findHarEntry,
+  getHarTimings,
+  getResponseForHarEntry,
+  parseHar,
+} from '../src/har.js';
+import type {HTTPResponse, Protocol} from '../src/third_party/index.js';
+import {VERSION} from '../src/version.js';
+
+import {getMockRequest} from './utils.js';
+
+const timing: Protocol.Network.ResourceTiming = {
+  requestTime: 100,
+  proxyStart: -1,
+  proxyEnd: -1,
+  dnsStart: 2,
+  dnsEnd: 5,
+  connectStart: 5,
+  connectEnd: 20,
+  sslStart: 10,
+  sslEnd: 20,
+  workerStart: -1,
+  workerReady: -1,
+  workerFetchStart: -1,
+  workerRespondWithSettled: -1,
+  sendStart: 21,
+  sendEnd: 22,
+  pushStart: 0,
+  pushEnd: 0,
+  receiveHeadersStart: 40,
+  receiveHeadersEnd: 50,
+};
+
+function getMockHarResponse(body: Buffer): HTTPResponse {
+  return {
+    status() {
+      return 200;
+    },
+    statusText() {
+      return 'OK';
+    },
+    headers() {
+      return {
+        'content-type': 'image/png',
+        'set-cookie': 'a=1\nb=2',
+      };
+    },
+    timing() {
+      return timing;
+    },
+    remoteAddress() {
+      return {ip: '127.0.0.1', port: 80};
+    },
+    async buffer() {
+      return body;
+    },
+  } as unknown as HTTPResponse;
+}
+
+function getHar(): Har {
+  const entry = (method: string, url: string, postData?: string) => {
+    return {
+      startedDateTime: '2025-01-01T00:00:00.000Z',
+      time: 0,
+      request: {
+        method,
+        url,
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: [],
+        queryString: [],
+        postData: postData
+          ? {mimeType: 'text/plain', text: postData}
+          : undefined,
+        headersSize: -1,
+        bodySize: 0,
+      },
+      response: {
+        status: 200,
+        statusText: 'OK',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: [],
+        content: {size: 0, mimeType: '', text: postData ?? method},
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: 0,
+      },
+      cache: {},
+      timings: getHarTimings(null),
+    };
+  };
+  return {
+    log: {
+      version: '1.2',
+      creator: {name: 'test', version: ''},
+      entries: [
+        entry('GET', 'http://example.com'),
+        entry('POST', 'http://example.com', 'first'),
+        entry('POST', 'http://example.com', 'second'),
+      ],
+    },
+  };
+}
+
+describe('har', () => {
+  describe('getHarTimings', () => {
+    it('converts resource timings', () => {
+      assert.deepStrictEqual(getHarTimings(timing), {
+        blocked: 2,
+        dns: 3,
+        connect: 15,
+        ssl: 10,
+        send: 1,
+        wait: 28,
+        receive: 0,
+      });
+    });
+
+    it('handles requests without timings', () => {
+      assert.deepStrictEqual(getHarTimings(null), {
+        blocked: -1,
+        dns: -1,
+        connect: -1,
+        ssl: -1,
+        send: 0,
+        wait: 0,
+        receive: 0,
+      });
+    });
+  });
+
+  describe('createHar', () => {
+    it('serializes requests and responses', async () => {
+      const request = getMockRequest({
+        method: 'POST',
+        hasPostData: true,
+        postData: 'payload',
+        response: getMockHarResponse(Buffer.from([0xff, 0x00])),
+      });
+      const har = await createHar([request], () => 0);
+      assert.strictEqual(har.log.version, '1.2');
+      assert.deepStrictEqual(har.log.creator, {
+        name: 'chrome-devtools-mcp',
+        version: VERSION,
+      });
+      const [entry] = har.log.entries;
+      assert.strictEqual(entry.startedDateTime, '1970-01-01T00:00:00.000Z');
+      assert.strictEqual(entry.time, 49);
+      assert.strictEqual(entry.serverIPAddress, '127.0.0.1');
+      assert.deepStrictEqual(entry.request.postData, {
+        mimeType: '',
+        text: 'payload',
+      });
+      assert.deepStrictEqual(entry.response.headers, [
+        {name: 'content-type', value: 'image/png'},
+        {name: 'set-cookie', value: 'a=1'},
+        {name: 'set-cookie', value: 'b=2'},
+      ]);
+      assert.deepStrictEqual(entry.response.content, {
+        size: 2,
+        mimeType: 'image/png',
+        text: '/wA=',
+        encoding: 'base64',
+      });
+    });
+
+    it('serializes failed requests', async () => {
+      const request = getMockRequest({
+        failure() {
+          return {errorText: 'net::ERR_FAILED'};
+        },
+      });
+      const har = await createHar([request], () => 0);
+      const [entry] = har.log.entries;
+      assert.strictEqual(entry.response.status, 0);
+      assert.strictEqual(entry.response._error, 'net::ERR_FAILED');
+    });
+  });
+
+  describe('findHarEntry', () => {
+    it('matches by method and URL', () => {
+      const har = getHar();
+      assert.strictEqual(
+        findHarEntry(har, getMockRequest())?.response.content.text,
+        'GET',
+      );
+      assert.strictEqual(
+        findHarEntry(har, getMockRequest({method: 'PUT'})),
+        undefined,
+      );
+    });
+
+    it('prefers entries with the same post data', () => {
+      const har = getHar();
+      assert.strictEqual(
+        findHarEntry(har, getMockRequest({method: 'POST', postData: 'second'}))
+          ?.response.content.text,
+        'second',
+      );
+      assert.strictEqual(
+        findHarEntry(har, getMockRequest({method: 'POST', postData: 'other'}))
+          ?.response.content.text,
+        'first',
+      );
+    });
+  });
+
+  describe('getResponseForHarEntry', () => {
+    it('decodes the body and skips encoding headers', () => {
+      const [entry] = getHar().log.entries;
+      entry.response.headers = [
+        {name: ':status', value: '200'},
+        {name: 'Content-Encoding', value: 'gzip'},
+        {name: 'Set-Cookie', value: 'a=1'},
+        {name: 'Set-Cookie', value: 'b=2'},
+      ];
+      entry.response.content = {
+        size: 5,
+        mimeType: 'text/plain',
+        text: Buffer.from('hello').toString('base64'),
+        encoding: 'base64',
+      };
+      const response = getResponseForHarEntry(entry);
+      assert.deepStrictEqual(response.headers, {'set-cookie': ['a=1', 'b=2']});
+      assert.strictEqual(response.body?.toString(), 'hello');
+    });
+  });
+
+  describe('parseHar', () => {
+    it('throws for invalid files', () => {
+      assert.throws(() => parseHar('not json'), {
+        message: 'The HAR file is not valid JSON.',
+      });
+      assert.throws(() => parseHar('{}'), {
+        message: 'The HAR file does not contain log.entries.',
+      });
+    });
+  });
+});
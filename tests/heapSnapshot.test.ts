@@ -0,0 +1,142 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert';
+import {describe, it} from 'node:test';
+
+import {
+  getConstructorGrowth,
+  HeapSnapshotParser,
+  summarizeHeapSnapshot,
+} from '../src/heapSnapshot.js';
+
+const NODE_TYPES = ['hidden', 'string', 'object', 'synthetic'];
+const EDGE_TYPES = ['property', 'element', 'weak'];
+const STRINGS = ['', 'Foo', 'Bar', 'hello', '(GC roots)'];
+
+interface TestNode {
+  type: string;
+  name: string;
+  size: number;
+  edges: Array<{to: number; type?: string}>;
+}
+
+function createSnapshot(nodes: TestNode[]): string {
+  return JSON.stringify({
+    snapshot: {
+      meta: {
+        node_fields: ['type', 'name', 'id', 'self_size', 'edge_count'],
+        node_types: [NODE_TYPES, 'string', 'number', 'number', 'number'],
+        edge_fields: ['type', 'name_or_index', 'to_node'],
+        edge_types: [EDGE_TYPES, 'string_or_number', 'node'],
+      },
+    },
+    nodes: nodes.flatMap((node, id) => [
+      NODE_TYPES.indexOf(node.type),
+      STRINGS.indexOf(node.name),
+      id,
+      node.size,
+      node.edges.length,
+    ]),
+    edges: nodes.flatMap(node =>
+      node.edges.flatMap(edge => [
+        EDGE_TYPES.indexOf(edge.type ?? 'property'),
+        0,
+        edge.to * 5,
+      ]),
+    ),
+    strings: STRINGS,
+  });
+}
+
+// The root retains a Foo that retains another Foo, and a Bar. Both the first
+// Foo and the Bar reference a string, and the Bar weakly references the
+// second Foo.
+const BASE_NODES: TestNode[] = [
+  {type: 'synthetic', name: '(GC roots)', size: 0, edges: [{to: 1}, {to: 3}]},
+  {type: 'object', name: 'Foo', size: 10, edges: [{to: 2}, {to: 4}]},
+  {type: 'object', name: 'Foo', size: 5, edges: []},
+  {
+    type: 'object',
+    name: 'Bar',
+    size: 20,
+    edges: [{to: 4}, {to: 2, type: 'weak'}],
+  },
+  {type: 'string', name: 'hello', size: 7, edges: []},
+];
+
+describe('heapSnapshot', () => {
+  describe('summarizeHeapSnapshot', () => {
+    it('computes retained sizes by constructor', () => {
+      const summary = summarizeHeapSnapshot(createSnapshot(BASE_NODES));
+      assert.strictEqual(summary.totalSize, 42);
+      assert.strictEqual(summary.nodeCount, 5);
+      assert.deepStrictEqual(Object.fromEntries(summary.constructors), {
+        Foo: {count: 2, selfSize: 15, retainedSize: 15},
+        Bar: {count: 1, selfSize: 20, retainedSize: 20},
+        '(string)': {count: 1, selfSize: 7, retainedSize: 7},
+      });
+    });
+
+    it('ignores unreachable objects', () => {
+      const summary = summarizeHeapSnapshot(
+        createSnapshot([
+          ...BASE_NODES,
+          {type: 'object', name: 'Bar', size: 100, edges: [{to: 1}]},
+        ]),
+      );
+      assert.strictEqual(summary.totalSize, 42);
+      assert.deepStrictEqual(summary.constructors.get('Bar'), {
+        count: 1,
+        selfSize: 20,
+        retainedSize: 20,
+      });
+    });
+  });
+
+  describe('HeapSnapshotParser', () => {
+    it('parses a snapshot split into chunks', () => {
+      const snapshot = createSnapshot(BASE_NODES);
+      const parser = new HeapSnapshotParser();
+      for (let offset = 0; offset < snapshot.length; offset += 3) {
+        parser.write(snapshot.slice(offset, offset + 3));
+      }
+      assert.deepStrictEqual(parser.close(), summarizeHeapSnapshot(snapshot));
+    });
+
+    it('throws for incomplete snapshots', () => {
+      const parser = new HeapSnapshotParser();
+      parser.write(createSnapshot(BASE_NODES).slice(0, 200));
+      assert.throws(() => parser.close(), {
+        message: 'Invalid heap snapshot: the snapshot is incomplete.',
+      });
+    });
+  });
+
+  describe('getConstructorGrowth', () => {
+    it('returns the constructors that grew', () => {
+      const before = summarizeHeapSnapshot(createSnapshot(BASE_NODES));
+      const after = summarizeHeapSnapshot(
+        createSnapshot([
+          {...BASE_NODES[0], edges: [...BASE_NODES[0].edges, {to: 5}]},
+          ...BASE_NODES.slice(1),
+          {type: 'object', name: 'Foo', size: 30, edges: [{to: 6}]},
+          {type: 'string', name: 'hello', size: 8, edges: []},
+        ]),
+      );
+      assert.deepStrictEqual(
+        getConstructorGrowth(before, after).map(({name, before, after}) => ({
+          name,
+          count: [before.count, after.count],
+          retainedSize: [before.retainedSize, after.retainedSize],
+        })),
+        [
+          {name: 'Foo', count: [2, 3], retainedSize: [15, 53]},
+          {name: '(string)', count: [1, 2], retainedSize: [7, 15]},
+        ],
+      );
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert';
+import http from 'node:http';
+import {afterEach, describe, it} from 'node:test';
+
+import {Client} from '@modelcontextprotocol/sdk/client/index.js';
+import {StreamableHTTPClientTransport} from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {McpServer} from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import {getHttpServerUrl, startHttpServer} from '../src/http.js';
+
+describe('http transport', () => {
+  let httpServer: http.Server | undefined;
+  let clients: Client[] = [];
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.close()));
+    clients = [];
+    if (httpServer) {
+      httpServer.closeAllConnections();
+      await new Promise(resolve => httpServer!.close(resolve));
+      httpServer = undefined;
+    }
+  });
+
+  async function startServer() {
+    let serverCount = 0;
+    httpServer = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      createServer: () => {
+        const server = new McpServer({name: 'test', version: '1.0.0'});
+        const serverId = ++serverCount;
+        server.registerTool(
+          'get_server_id',
+          {description: 'Returns the id of the server'},
+          async () => {
+            return {content: [{type: 'text', text: `server ${serverId}`}]};
+          },
+        );
+        return server;
+      },
+    });
+    return getHttpServerUrl(httpServer);
+  }
+
+  async function connect(url: string) {
+    const transport = new StreamableHTTPClientTransport(new URL(url));
+    const client = new Client({name: 'http-test', version: '1.0.0'});
+    await client.connect(transport);
+    clients.push(client);
+    return {client, transport};
+  }
+
+  it('serves tools over http', async () => {
+    const url = await startServer();
+    const {client} = await connect(url);
+    const {tools} = await client.listTools();
+    assert.deepStrictEqual(
+      tools.map(tool => tool.name),
+      ['get_server_id'],
+    );
+    const result = await client.callTool({name: 'get_server_id'});
+    assert.deepStrictEqual(result.content, [{type: 'text', text: 'server 1'}]);
+  });
+
+  it('creates a session per client', async () => {
+    const url = await startServer();
+    const first = await connect(url);
+    const second = await connect(url);
+    assert.ok(first.transport.sessionId);
+    assert.ok(second.transport.sessionId);
+    assert.notStrictEqual(
+      first.transport.sessionId,
+      second.transport.sessionId,
+    );
+    assert.deepStrictEqual(
+      (await second.client.callTool({name: 'get_server_id'})).content,
+      [{type: 'text', text: 'server 2'}],
+    );
+    assert.deepStrictEqual(
+      (await first.client.callTool({name: 'get_server_id'})).content,
+      [{type: 'text', text: 'server 1'}],
+    );
+  });
+
+  it('rejects unknown sessions', async () => {
+    const url = await startServer();
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': 'unknown',
+      },
+      body: JSON.stringify({jsonrpc: '2.0', method: 'tools/list', id: 1}),
+    });
+    assert.strictEqual(response.status, 404);
+  });
+
+  it('rejects requests without a session', async () => {
+    const url = await startServer();
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify({jsonrpc: '2.0', method: 'tools/list', id: 1}),
+    });
+    assert.strictEqual(response.status, 400);
+  });
+
+  function request(url: string, headers: http.OutgoingHttpHeaders) {
+    return new Promise<number | undefined>((resolve, reject) => {
+      http
+        .request(
+          url,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              Accept: 'application/json, text/event-stream',
+              ...headers,
+            },
+          },
+          res => {
+            res.resume();
+            resolve(res.statusCode);
+          },
+        )
+        .on('error', reject)
+        .end();
+    });
+  }
+
+  it('rejects requests for a foreign host', async () => {
+    const url = await startServer();
+    const {port} = new URL(url);
+    assert.strictEqual(
+      await request(url, {Host: `attacker.example:${port}`}),
+      403,
+    );
+    assert.strictEqual(
+      await request(url, {Origin: `http://attacker.example:${port}`}),
+      403,
+    );
+    assert.strictEqual(await request(url, {Host: `localhost:${port}`}), 400);
+  });
+
+  it('only serves the MCP endpoint', async () => {
+    const url = await startServer();
+    const response = await fetch(new URL('/other', url));
+    assert.strictEqual(response.status, 404);
+  });
+});
@@ -4,11 +4,13 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import assert from 'node:assert';
+import {spawn} from 'node:child_process';
 import fs from 'node:fs';
 import {describe, it} from 'node:test';
 
 import {Client} from '@modelcontextprotocol/sdk/client/index.js';
 import {StdioClientTransport} from '@modelcontextprotocol/sdk/client/stdio.js';
+import {StreamableHTTPClientTransport} from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import {executablePath} from 'puppeteer';
 
 describe('e2e', () => {
@@ -99,4 +101,61 @@ describe('e2e', () => {
       assert.deepStrictEqual(exposedNames, definedNames);
     });
   });
+
+  it('serves tools over http', async () => {
+    const serverProcess = spawn('node', [
+      'build/src/index.js',
+      '--headless',
+      '--isolated',
+      '--executable-path',
+      executablePath(),
+      '--transport',
+      'http',
+      '--port',
+      '0',
+    ]);
+    try {
+      const url = await new Promise<string>((resolve, reject) => {
+        let stderr = '';
+        serverProcess.stderr.on('data', chunk => {
+          stderr += chunk;
+          const match = /listening on (\S+)/.exec(stderr);
+          if (match) {
+            resolve(match[1]);
+          }
+        });
+        serverProcess.on('exit', () => {
+          reject(new Error(`Server exited: ${stderr}`));
+        });
+      });
+      const client = new Client(
+        {
+          name: 'e2e-test',
+          version: '1.0.0',
+        },
+        {
+          capabilities: {},
+        },
+      );
+      await client.connect(new StreamableHTTPClientTransport(new URL(url)));
+      try {
+        const result = await client.callTool({
+          name: 'list_pages',
+          arguments: {},
+        });
+        assert.deepStrictEqual(result, {
+          content: [
+            {
+              type: 'text',
+              text: '# list_pages response\n## Pages\n0: about:blank [selected]',
+            },
+          ],
+        });
+      } finally {
+        await client.close();
+      }
+    } finally {
+      serverProcess.kill();
+    }
+  });
 });
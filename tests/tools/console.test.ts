@@ -12,7 +12,8 @@ import {
   getConsoleMessage,
   listConsoleMessages,
 } from '../../src/tools/console.js';
-import {withBrowser} from '../utils.js';
+import {serverHooks} from '../server.js';
+import {html, withBrowser} from '../utils.js';
 
 describe('console', () => {
   describe('list_console_messages', () => {
@@ -128,6 +129,8 @@ describe('console', () => {
   });
 
   describe('get_console_message', () => {
+    const server = serverHooks();
+
     it('gets a specific console message', async () => {
       await withBrowser(async (response, context) => {
         const page = await context.newPage();
@@ -149,5 +152,37 @@ describe('console', () => {
         );
       });
     });
+
+    it('resolves stack traces through source maps', async () => {
+      const sourceMap = {
+        version: 3,
+        sources: ['src/app.ts'],
+        mappings: ';AASA',
+      };
+      server.addRoute('/app.js', (_req, res) => {
+        res.setHeader('Content-Type', 'text/javascript');
+        res.end(
+          `function fail() {\n  console.error('failed');\n}\nfail();\n//# sourceMappingURL=data:application/json;base64,${Buffer.from(JSON.stringify(sourceMap)).toString('base64')}`,
+        );
+      });
+      server.addHtmlRoute('/app', html`<script src="/app.js"></script>`);
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await page.goto(server.getRoute('/app'));
+        await listConsoleMessages.handler({params: {}}, response, context);
+        await getConsoleMessage.handler(
+          {params: {msgid: 1}},
+          response,
+          context,
+        );
+        const formattedResponse = await response.handle('test', context);
+        const textContent = formattedResponse[0] as {text: string};
+        assert.ok(
+          textContent.text.includes(
+            `at fail (${server.baseUrl}/src/app.ts:10:1) [generated: ${server.getRoute('/app.js')}:2:`,
+          ),
+        );
+      });
+    });
   });
 });
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert';
+import {readFile} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {afterEach, describe, it} from 'node:test';
+
+import sinon from 'sinon';
+
+import type {CoverageSummary} from '../../src/formatters/coverageFormatter.js';
+import {startCoverage, stopCoverage} from '../../src/tools/coverage.js';
+import {serverHooks} from '../server.js';
+import {html, withBrowser} from '../utils.js';
+
+describe('coverage', () => {
+  const server = serverHooks();
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('reports the used and unused bytes', async () => {
+    server.addHtmlRoute(
+      '/page',
+      html`<link
+          rel="stylesheet"
+          href="/styles.css"
+        />
+        <script src="/app.js"></script>
+        <main>Page</main>`,
+    );
+    server.addRoute('/styles.css', (_req, res) => {
+      res.setHeader('content-type', 'text/css');
+      res.end('main { color: red; } .unused { color: blue; }');
+    });
+    server.addRoute('/app.js', (_req, res) => {
+      res.setHeader('content-type', 'text/javascript');
+      res.end(
+        'function used() { return 1; }\nfunction unused() { return 2; }\nused();',
+      );
+    });
+    await withBrowser(async (response, context) => {
+      await context.setUpNetworkCollectorForTesting();
+      const page = context.getSelectedPage();
+      await page.goto(server.getRoute('/page'));
+      await startCoverage.handler({params: {reload: true}}, response, context);
+      assert.ok(context.isRunningCoverage());
+
+      response.resetResponseLineForTesting();
+      const filePath = join(tmpdir(), 'test-coverage.json');
+      await stopCoverage.handler({params: {filePath}}, response, context);
+      assert.strictEqual(context.isRunningCoverage(), false);
+
+      const [title, total, ...lines] = response.responseLines;
+      assert.strictEqual(title, '## JavaScript and CSS coverage');
+      assert.match(total, /^Total: [\d.]+ kB of [\d.]+ kB unused \(\d+%\)$/);
+      assert.ok(
+        lines.some(line =>
+          /^reqid=\d+ http:\/\/.*\/app\.js \(script\): /.test(line),
+        ),
+      );
+      assert.ok(
+        lines.some(line =>
+          /^reqid=\d+ http:\/\/.*\/styles\.css \(stylesheet\): /.test(line),
+        ),
+      );
+      assert.strictEqual(
+        response.responseLines.at(-1),
+        `Saved the used ranges to ${filePath}.`,
+      );
+      const summaries: CoverageSummary[] = JSON.parse(
+        await readFile(filePath, 'utf8'),
+      );
+      const script = summaries.find(summary => summary.url.endsWith('app.js'));
+      assert.ok(script);
+      assert.ok(script.usedBytes < script.totalBytes);
+      assert.ok(script.ranges.length > 0);
+    });
+  });
+
+  it('throws if coverage is already being recorded', async () => {
+    await withBrowser(async (response, context) => {
+      await startCoverage.handler({params: {}}, response, context);
+      await assert.rejects(
+        startCoverage.handler({params: {}}, response, context),
+        /Coverage is already being recorded/,
+      );
+    });
+  });
+
+  it('stops the JS coverage if the CSS coverage fails to start', async () => {
+    await withBrowser(async (response, context) => {
+      const page = context.getSelectedPage();
+      const startCSSCoverageStub = sinon
+        .stub(page.coverage, 'startCSSCoverage')
+        .rejects(new Error('CSS coverage failed'));
+      await assert.rejects(
+        startCoverage.handler({params: {}}, response, context),
+        /CSS coverage failed/,
+      );
+      assert.strictEqual(context.isRunningCoverage(), false);
+
+      startCSSCoverageStub.restore();
+      await startCoverage.handler({params: {}}, response, context);
+      assert.ok(context.isRunningCoverage());
+    });
+  });
+
+  it('throws if no coverage is being recorded', async () => {
+    await withBrowser(async (response, context) => {
+      await assert.rejects(
+        stopCoverage.handler({params: {}}, response, context),
+        /No coverage is being recorded/,
+      );
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert';
+import {describe, it} from 'node:test';
+
+import {
+  getCallStack,
+  getScopeVariables,
+  getScriptSource,
+  listBreakpoints,
+  removeBreakpoint,
+  resume,
+  setBreakpoint,
+  stepOver,
+} from '../../src/tools/debugger.js';
+import {serverHooks} from '../server.js';
+import {html, withBrowser} from '../utils.js';
+
+const SCRIPT = `function add(a, b) {
+  const sum = a + b;
+  return sum;
+}
+document.querySelector('button').addEventListener('click', () => {
+  add(1, 2);
+});
+`;
+
+describe('debugger', () => {
+  const server = serverHooks();
+
+  function addRoutes() {
+    server.addRoute('/script.js', (_req, res) => {
+      res.setHeader('Content-Type', 'text/javascript');
+      res.end(SCRIPT);
+    });
+    server.addHtmlRoute(
+      '/page',
+      html`<button>Add</button
+        ><script src="/script.js"></script>`,
+    );
+  }
+
+  it('sets, lists and removes breakpoints', async () => {
+    addRoutes();
+    await withBrowser(async (response, context) => {
+      const page = context.getSelectedPage();
+      await page.goto(server.getRoute('/page'));
+      const url = server.getRoute('/script.js');
+      await setBreakpoint.handler(
+        {params: {url, lineNumber: 2, condition: 'a > 0'}},
+        response,
+        context,
+      );
+      assert.deepStrictEqual(response.responseLines, [
+        'Set breakpoint 1.',
+        '## Breakpoints',
+        `bpid=1 ${url}:2 condition="a > 0" (locations: 1)`,
+      ]);
+
+      response.resetResponseLineForTesting();
+      await removeBreakpoint.handler(
+        {params: {breakpointId: 1}},
+        response,
+        context,
+      );
+      response.resetResponseLineForTesting();
+      await listBreakpoints.handler({params: {}}, response, context);
+      assert.deepStrictEqual(response.responseLines, [
+        '## Breakpoints',
+        'No breakpoints.',
+      ]);
+    });
+  });
+
+  it('returns when an action hits a breakpoint', async () => {
+    addRoutes();
+    await withBrowser(async (response, context) => {
+      const page = context.getSelectedPage();
+      await page.goto(server.getRoute('/page'));
+      await setBreakpoint.handler(
+        {params: {url: server.getRoute('/script.js'), lineNumber: 2}},
+        response,
+        context,
+      );
+
+      await context.waitForEventsAfterAction(async () => {
+        await page.click('button');
+      });
+      const pageDebugger = context.getPageDebugger();
+      assert.ok(pageDebugger.getPausedEvent());
+
+      response.resetResponseLineForTesting();
+      await getCallStack.handler({params: {}}, response, context);
+      assert.strictEqual(response.responseLines[0], '## Call stack');
+      assert.ok(response.responseLines[1].startsWith('#0 add ('));
+
+      response.resetResponseLineForTesting();
+      await getScopeVariables.handler({params: {}}, response, context);
+      assert.deepStrictEqual(response.responseLines.slice(0, 4), [
+        '## Scope variables of frame #0',
+        '### local scope (add)',
+        'a: 1',
+        'b: 2',
+      ]);
+
+      response.resetResponseLineForTesting();
+      await stepOver.handler({params: {}}, response, context);
+      assert.deepStrictEqual(response.responseLines, ['Stepped over.']);
+      const result = await response.handle('step_over', context);
+      const text = result[0].text as string;
+      assert.ok(text.includes('# Paused in debugger'));
+      assert.ok(text.includes('> 3 |   return sum;'));
+      assert.ok(text.includes('sum: 3'));
+
+      response.resetResponseLineForTesting();
+      await resume.handler({params: {}}, response, context);
+      assert.deepStrictEqual(response.responseLines, [
+        'Resumed. The page is no longer paused.',
+      ]);
+    });
+  });
+
+  it('returns script and original sources', async () => {
+    const sourceMap = {
+      version: 3,
+      sources: ['src/add.ts'],
+      sourcesContent: ['export const add = (a: number) => a;'],
+      mappings: 'AAAA',
+    };
+    server.addRoute('/mapped.js', (_req, res) => {
+      res.setHeader('Content-Type', 'text/javascript');
+      res.end(
+        `window.add = a => a;\n//# sourceMappingURL=data:application/json;base64,${Buffer.from(JSON.stringify(sourceMap)).toString('base64')}`,
+      );
+    });
+    server.addHtmlRoute('/mapped', html`<script src="/mapped.js"></script>`);
+    await withBrowser(async (response, context) => {
+      const page = context.getSelectedPage();
+      await page.goto(server.getRoute('/mapped'));
+      const url = server.getRoute('/mapped.js');
+      const originalUrl = `${server.baseUrl}/src/add.ts`;
+
+      await getScriptSource.handler({params: {}}, response, context);
+      assert.deepStrictEqual(response.responseLines.slice(0, 1), [
+        '## Scripts',
+      ]);
+      assert.ok(response.responseLines.includes(`  original: ${originalUrl}`));
+
+      response.resetResponseLineForTesting();
+      await getScriptSource.handler(
+        {params: {url, startLine: 1, endLine: 1}},
+        response,
+        context,
+      );
+      assert.deepStrictEqual(response.responseLines.slice(1), [
+        'Lines 1-1 of 1-2:',
+        '1 | window.add = a => a;',
+      ]);
+
+      response.resetResponseLineForTesting();
+      await getScriptSource.handler(
+        {params: {url: originalUrl}},
+        response,
+        context,
+      );
+      assert.deepStrictEqual(response.responseLines, [
+        `## Original source ${originalUrl} (source-mapped from ${url})`,
+        'Lines 1-1 of 1-1:',
+        '1 | export const add = (a: number) => a;',
+      ]);
+    });
+  });
+
+  it('reports when the page is not paused', async () => {
+    await withBrowser(async (response, context) => {
+      await getCallStack.handler({params: {}}, response, context);
+      assert.deepStrictEqual(response.responseLines, [
+        'The selected page is not paused in the debugger.',
+      ]);
+      await assert.rejects(
+        resume.handler({params: {}}, response, context),
+        /not paused in the debugger/,
+      );
+    });
+  });
+});
@@ -6,8 +6,9 @@
 import assert from 'node:assert';
 import {describe, it} from 'node:test';
 
-import {emulate} from '../../src/tools/emulation.js';
-import {withBrowser} from '../utils.js';
+import {emulate, setPermission} from '../../src/tools/emulation.js';
+import {serverHooks} from '../server.js';
+import {html, withBrowser} from '../utils.js';
 
 describe('emulation', () => {
   describe('network', () => {
@@ -58,18 +59,70 @@ describe('emulation', () => {
       });
     });
 
-    it('does not set throttling when the network throttling is not one of the predefined options', async () => {
+    it('throws when the network throttling is not one of the predefined options', async () => {
       await withBrowser(async (response, context) => {
+        await assert.rejects(
+          emulate.handler(
+            {
+              params: {
+                networkConditions: 'Slow 11G',
+                timezone: 'Europe/Berlin',
+              },
+            },
+            response,
+            context,
+          ),
+          /Unknown network conditions "Slow 11G". Available conditions: No emulation, Offline, Slow 3G, /,
+        );
+
+        assert.strictEqual(context.getNetworkConditions(), null);
+        assert.strictEqual(context.getTimezone(), null);
+      });
+    });
+
+    it('emulates custom network conditions', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        const timeoutBefore = page.getDefaultNavigationTimeout();
         await emulate.handler(
           {
             params: {
-              networkConditions: 'Slow 11G',
+              customNetworkConditions: {
+                name: 'Satellite',
+                download: 50_000,
+                upload: 25_000,
+                latency: 600,
+                packetLoss: 2,
+              },
             },
           },
           response,
           context,
         );
 
+        assert.strictEqual(context.getNetworkConditions(), 'Satellite');
+        assert.ok(page.getDefaultNavigationTimeout() > timeoutBefore);
+      });
+    });
+
+    it('rejects network conditions and custom network conditions together', async () => {
+      await withBrowser(async (response, context) => {
+        await assert.rejects(
+          emulate.handler(
+            {
+              params: {
+                device: 'iPhone 15',
+                networkConditions: 'Slow 3G',
+                customNetworkConditions: {download: 1, upload: 1, latency: 1},
+              },
+            },
+            response,
+            context,
+          ),
+          /Provide either networkConditions or customNetworkConditions/,
+        );
+
+        assert.strictEqual(context.getEmulatedDevice(), null);
         assert.strictEqual(context.getNetworkConditions(), null);
       });
     });
@@ -151,4 +204,311 @@ describe('emulation', () => {
       });
     });
   });
+
+  describe('device', () => {
+    it('emulates a known device', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await emulate.handler(
+          {params: {device: 'iphone 15 pro'}},
+          response,
+          context,
+        );
+
+        assert.strictEqual(context.getEmulatedDevice()?.name, 'iPhone 15 Pro');
+        assert.deepStrictEqual(
+          await page.evaluate(() => {
+            return {
+              width: window.innerWidth,
+              dpr: window.devicePixelRatio,
+              touch: navigator.maxTouchPoints > 0,
+              iPhone: navigator.userAgent.includes('iPhone'),
+            };
+          }),
+          {width: 393, dpr: 3, touch: true, iPhone: true},
+        );
+      });
+    });
+
+    it('emulates a custom device', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await emulate.handler(
+          {
+            params: {
+              customDevice: {width: 500, height: 700, userAgent: 'Custom'},
+            },
+          },
+          response,
+          context,
+        );
+
+        assert.strictEqual(context.getEmulatedDevice()?.name, 'Custom device');
+        assert.strictEqual(
+          await page.evaluate(() => navigator.userAgent),
+          'Custom',
+        );
+        assert.strictEqual(await page.evaluate(() => window.innerWidth), 500);
+      });
+    });
+
+    it('disables device emulation', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await emulate.handler({params: {device: 'Pixel 5'}}, response, context);
+        await emulate.handler(
+          {params: {device: 'No emulation'}},
+          response,
+          context,
+        );
+
+        assert.strictEqual(context.getEmulatedDevice(), null);
+        assert.ok(
+          !(await page.evaluate(() => navigator.userAgent.includes('Pixel'))),
+        );
+      });
+    });
+
+    it('rejects unknown devices', async () => {
+      await withBrowser(async (response, context) => {
+        await assert.rejects(
+          emulate.handler({params: {device: 'Pixel 99'}}, response, context),
+          /Unknown device "Pixel 99". Known devices include: Pixel 2, /,
+        );
+      });
+    });
+  });
+
+  describe('geolocation', () => {
+    it('emulates the geolocation', async () => {
+      await withBrowser(async (response, context) => {
+        await emulate.handler(
+          {params: {geolocation: {latitude: 52.52, longitude: 13.4}}},
+          response,
+          context,
+        );
+
+        assert.deepStrictEqual(context.getGeolocation(), {
+          latitude: 52.52,
+          longitude: 13.4,
+        });
+      });
+    });
+
+    it('disables geolocation emulation', async () => {
+      await withBrowser(async (response, context) => {
+        await emulate.handler(
+          {params: {geolocation: {latitude: 52.52, longitude: 13.4}}},
+          response,
+          context,
+        );
+        await emulate.handler({params: {geolocation: null}}, response, context);
+
+        assert.strictEqual(context.getGeolocation(), null);
+      });
+    });
+  });
+
+  describe('timezone and locale', () => {
+    it('emulates the timezone', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await emulate.handler(
+          {params: {timezone: 'Asia/Tokyo'}},
+          response,
+          context,
+        );
+
+        assert.strictEqual(context.getTimezone(), 'Asia/Tokyo');
+        assert.strictEqual(
+          await page.evaluate(
+            () => Intl.DateTimeFormat().resolvedOptions().timeZone,
+          ),
+          'Asia/Tokyo',
+        );
+
+        await emulate.handler(
+          {params: {timezone: 'No emulation'}},
+          response,
+          context,
+        );
+        assert.strictEqual(context.getTimezone(), null);
+      });
+    });
+
+    it('emulates the locale', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await emulate.handler({params: {locale: 'de-DE'}}, response, context);
+
+        assert.strictEqual(context.getLocale(), 'de-DE');
+        assert.strictEqual(
+          await page.evaluate(() => (1234.5).toLocaleString()),
+          '1.234,5',
+        );
+      });
+    });
+
+    for (const params of [
+      {timezone: 'Mars/Olympus_Mons'},
+      {locale: 'not a locale!'},
+    ]) {
+      it(`rejects ${JSON.stringify(params)} before emulating anything`, async () => {
+        await withBrowser(async (response, context) => {
+          const page = context.getSelectedPage();
+          const viewportBefore = page.viewport();
+          await assert.rejects(
+            emulate.handler(
+              {
+                params: {
+                  device: 'iPhone 15',
+                  geolocation: {latitude: 48.1, longitude: 11.6},
+                  ...params,
+                },
+              },
+              response,
+              context,
+            ),
+            /Invalid (timezone|locale)/,
+          );
+
+          assert.deepStrictEqual(page.viewport(), viewportBefore);
+          assert.strictEqual(context.getEmulatedDevice(), null);
+          assert.strictEqual(context.getGeolocation(), null);
+        });
+      });
+    }
+  });
+
+  describe('media', () => {
+    it('emulates the media type and media features', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await emulate.handler(
+          {
+            params: {
+              mediaType: 'print',
+              mediaFeatures: [
+                {name: 'prefers-color-scheme', value: 'dark'},
+                {name: 'prefers-reduced-motion', value: 'reduce'},
+              ],
+            },
+          },
+          response,
+          context,
+        );
+
+        assert.strictEqual(context.getMediaType(), 'print');
+        assert.strictEqual(context.getMediaFeatures().length, 2);
+        assert.deepStrictEqual(
+          await page.evaluate(() => [
+            matchMedia('print').matches,
+            matchMedia('(prefers-color-scheme: dark)').matches,
+            matchMedia('(prefers-reduced-motion: reduce)').matches,
+          ]),
+          [true, true, true],
+        );
+      });
+    });
+
+    it('disables media emulation', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await emulate.handler(
+          {
+            params: {
+              mediaType: 'print',
+              mediaFeatures: [{name: 'forced-colors', value: 'active'}],
+            },
+          },
+          response,
+          context,
+        );
+        await emulate.handler(
+          {params: {mediaType: 'No emulation', mediaFeatures: []}},
+          response,
+          context,
+        );
+
+        assert.strictEqual(context.getMediaType(), null);
+        assert.deepStrictEqual(context.getMediaFeatures(), []);
+        assert.deepStrictEqual(
+          await page.evaluate(() => [
+            matchMedia('print').matches,
+            matchMedia('(forced-colors: active)').matches,
+          ]),
+          [false, false],
+        );
+      });
+    });
+
+    it('emulates a vision deficiency', async () => {
+      await withBrowser(async (response, context) => {
+        await emulate.handler(
+          {params: {visionDeficiency: 'deuteranopia'}},
+          response,
+          context,
+        );
+        assert.strictEqual(context.getVisionDeficiency(), 'deuteranopia');
+
+        await emulate.handler(
+          {params: {visionDeficiency: 'No emulation'}},
+          response,
+          context,
+        );
+        assert.strictEqual(context.getVisionDeficiency(), null);
+      });
+    });
+  });
+
+  describe('permissions', () => {
+    const server = serverHooks();
+
+    it('grants a permission to the origin of the page', async () => {
+      server.addHtmlRoute('/permissions', html`<main>Permissions</main>`);
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await page.goto(server.getRoute('/permissions'));
+        await setPermission.handler(
+          {params: {permission: 'geolocation', state: 'granted'}},
+          response,
+          context,
+        );
+
+        assert.strictEqual(
+          response.responseLines[0],
+          `Set the geolocation permission to granted for ${server.baseUrl}.`,
+        );
+        assert.deepStrictEqual(context.getPermissionOverrides(), [
+          {
+            origin: server.baseUrl,
+            permission: 'geolocation',
+            state: 'granted',
+          },
+        ]);
+        assert.strictEqual(
+          await page.evaluate(async () => {
+            const status = await navigator.permissions.query({
+              name: 'geolocation',
+            });
+            return status.state;
+          }),
+          'granted',
+        );
+      });
+    });
+
+    it('requires an origin on blank pages', async () => {
+      await withBrowser(async (response, context) => {
+        await assert.rejects(
+          setPermission.handler(
+            {params: {permission: 'notifications', state: 'denied'}},
+            response,
+            context,
+          ),
+          /The selected page has no origin/,
+        );
+      });
+    });
+  });
 });
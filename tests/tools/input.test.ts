@@ -6,7 +6,9 @@
 import assert from 'node:assert';
 import fs from 'node:fs/promises';
 import path from 'node:path';
-import {describe, it} from 'node:test';
+import {afterEach, describe, it} from 'node:test';
+
+import sinon from 'sinon';
 
 import {
   click,
@@ -16,14 +18,22 @@ import {
   fillForm,
   uploadFile,
   pressKey,
+  mouseClickAt,
+  mouseMoveAt,
+  scroll,
 } from '../../src/tools/input.js';
 import {parseKey} from '../../src/utils/keyboard.js';
 import {serverHooks} from '../server.js';
+import {loadTraceAsBuffer} from '../trace-processing/fixtures/load.js';
 import {html, withBrowser} from '../utils.js';
 
 describe('input', () => {
   const server = serverHooks();
 
+  afterEach(() => {
+    sinon.restore();
+  });
+
   describe('click', () => {
     it('clicks', async () => {
       await withBrowser(async (response, context) => {
@@ -49,6 +59,27 @@ describe('input', () => {
         assert.ok(await page.$('text/clicked'));
       });
     });
+    it('middle clicks', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await page.setContent(
+          html`<button onauxclick="this.innerText = 'button ' + event.button;"
+            >test</button
+          >`,
+        );
+        await context.createTextSnapshot();
+        await click.handler(
+          {params: {uid: '1_1', button: 'middle'}},
+          response,
+          context,
+        );
+        assert.strictEqual(
+          response.responseLines[0],
+          'Successfully middle clicked on the element',
+        );
+        assert.ok(await page.$('text/button 1'));
+      });
+    });
     it('double clicks', async () => {
       await withBrowser(async (response, context) => {
         const page = context.getSelectedPage();
@@ -153,6 +184,179 @@ describe('input', () => {
         assert(handlerResolveTime > buttonChangeTime, 'Waited for navigation');
       });
     });
+
+    it('traces the interaction', async () => {
+      const rawData = loadTraceAsBuffer('basic-trace.json.gz');
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        const startTracingStub = sinon.stub(page.tracing, 'start');
+        sinon.stub(page.tracing, 'stop').resolves(rawData);
+        await page.setContent(
+          html`<button onclick="this.innerText = 'clicked';">test</button>`,
+        );
+        await context.createTextSnapshot();
+        await click.handler(
+          {params: {uid: '1_1', traceInteraction: true}},
+          response,
+          context,
+        );
+        sinon.assert.calledOnce(startTracingStub);
+        assert.ok(await page.$('text/clicked'));
+        assert.strictEqual(context.isRunningPerformanceTrace(), false);
+        assert.strictEqual(context.recordedTraces().length, 1);
+        assert.strictEqual(response.responseLines[0], 'Trace id: 1');
+        assert.strictEqual(
+          response.responseLines[1],
+          'No interaction was recorded in the trace.',
+        );
+        assert.strictEqual(
+          response.responseLines.at(-1),
+          'Successfully clicked on the element',
+        );
+      });
+    });
+
+    it('does not trace the interaction while a trace is running', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        const startTracingStub = sinon.stub(page.tracing, 'start');
+        await page.setContent(html`<button>test</button>`);
+        await context.createTextSnapshot();
+        context.setIsRunningPerformanceTrace(true);
+        await assert.rejects(
+          click.handler(
+            {params: {uid: '1_1', traceInteraction: true}},
+            response,
+            context,
+          ),
+          /A performance trace is already running/,
+        );
+        sinon.assert.notCalled(startTracingStub);
+      });
+    });
+
+    it('reports the error if tracing fails to start', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        sinon.stub(page.tracing, 'start').rejects(new Error('Tracing failed'));
+        const stopTracingStub = sinon.stub(page.tracing, 'stop');
+        await page.setContent(html`<button>test</button>`);
+        await context.createTextSnapshot();
+        await assert.rejects(
+          click.handler(
+            {params: {uid: '1_1', traceInteraction: true}},
+            response,
+            context,
+          ),
+          /Tracing failed/,
+        );
+        sinon.assert.notCalled(stopTracingStub);
+        assert.strictEqual(context.isRunningPerformanceTrace(), false);
+      });
+    });
+  });
+
+  describe('mouse_click_at', () => {
+    it('right clicks at coordinates', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await page.setContent(
+          html`<div
+            style="width: 100px; height: 100px"
+            oncontextmenu="this.innerText = event.clientX + ',' + event.clientY; return false;"
+          ></div>`,
+        );
+        await mouseClickAt.handler(
+          {params: {x: 20, y: 30, button: 'right'}},
+          response,
+          context,
+        );
+        assert.strictEqual(
+          response.responseLines[0],
+          'Successfully right clicked at (20, 30)',
+        );
+        assert.ok(response.includeSnapshot);
+        assert.ok(await page.$('text/20,30'));
+      });
+    });
+  });
+
+  describe('mouse_move_at', () => {
+    it('moves the mouse', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await page.setContent(
+          html`<div
+            style="width: 100px; height: 100px"
+            onmousemove="this.innerText = 'moved'"
+          ></div>`,
+        );
+        await mouseMoveAt.handler({params: {x: 10, y: 10}}, response, context);
+        assert.strictEqual(
+          response.responseLines[0],
+          'Successfully moved the mouse to (10, 10)',
+        );
+        assert.ok(await page.$('text/moved'));
+      });
+    });
+  });
+
+  describe('scroll', () => {
+    it('scrolls the page by a delta', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await page.setViewport({width: 500, height: 500});
+        await page.setContent(html`<div style="height: 2000px">tall</div>`);
+        await scroll.handler({params: {deltaY: 300}}, response, context);
+        assert.match(
+          response.responseLines[0],
+          /^Successfully scrolled the page\. The scroll position is x=0 of 0, y=300 of \d+\.$/,
+        );
+        assert.strictEqual(await page.evaluate(() => window.scrollY), 300);
+      });
+    });
+
+    it('scrolls a container to the bottom', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await page.setContent(
+          html`<div
+            role="region"
+            aria-label="list"
+            style="height: 100px; overflow: auto"
+          >
+            <div style="height: 1000px">content</div>
+          </div>`,
+        );
+        await context.createTextSnapshot();
+        await scroll.handler(
+          {params: {uid: '1_1', to: 'bottom'}},
+          response,
+          context,
+        );
+        assert.strictEqual(
+          response.responseLines[0],
+          'Successfully scrolled the element. The scroll position is x=0 of 0, y=900 of 900.',
+        );
+      });
+    });
+
+    it('scrolls an element into view', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await page.setViewport({width: 500, height: 500});
+        await page.setContent(
+          html`<div style="height: 2000px"></div> <button>bottom</button>`,
+        );
+        await context.createTextSnapshot();
+        await scroll.handler({params: {uid: '1_1'}}, response, context);
+        assert.strictEqual(
+          response.responseLines[0],
+          'Successfully scrolled the element into view',
+        );
+        assert.ok(await page.evaluate(() => window.scrollY > 0));
+      });
+    });
   });
 
   describe('hover', () => {
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert';
+import {mkdtemp, stat} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {describe, it} from 'node:test';
+
+import {
+  compareHeapSnapshots,
+  getMemoryUsage,
+  takeHeapSnapshot,
+} from '../../src/tools/memory.js';
+import {html, withBrowser} from '../utils.js';
+
+describe('memory', () => {
+  describe('take_heap_snapshot', () => {
+    it('saves a heap snapshot', async () => {
+      await withBrowser(async (response, context) => {
+        const dir = await mkdtemp(join(tmpdir(), 'heap-'));
+        const filePath = join(dir, 'page.heapsnapshot');
+        await takeHeapSnapshot.handler({params: {filePath}}, response, context);
+        assert.strictEqual(
+          response.responseLines[0],
+          `Saved the heap snapshot to ${filePath}.`,
+        );
+        assert.match(
+          response.responseLines[1],
+          /^Total: [\d.]+ [kM]B in \d+ objects$/,
+        );
+        assert.ok((await stat(filePath)).size > 0);
+      });
+    });
+  });
+
+  describe('compare_heap_snapshots', () => {
+    it('reports constructors that grew', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await page.setContent(
+          html`<script>
+            class LeakingItem {
+              constructor() {
+                this.data = new Array(1000).fill(0);
+              }
+            }
+            window.leaks = [];
+          </script>`,
+        );
+        const dir = await mkdtemp(join(tmpdir(), 'heap-'));
+        const beforeFilePath = join(dir, 'before.heapsnapshot');
+        const afterFilePath = join(dir, 'after.heapsnapshot');
+        await takeHeapSnapshot.handler(
+          {params: {filePath: beforeFilePath}},
+          response,
+          context,
+        );
+        await page.evaluate(() => {
+          for (let i = 0; i < 10; i++) {
+            // @ts-expect-error defined by the page
+            window.leaks.push(new LeakingItem());
+          }
+        });
+        await takeHeapSnapshot.handler(
+          {params: {filePath: afterFilePath}},
+          response,
+          context,
+        );
+
+        response.resetResponseLineForTesting();
+        await compareHeapSnapshots.handler(
+          {params: {beforeFilePath, afterFilePath}},
+          response,
+          context,
+        );
+        assert.strictEqual(
+          response.responseLines[0],
+          `# Comparison of ${beforeFilePath} with ${afterFilePath}`,
+        );
+        assert.ok(
+          response.responseLines.some(line =>
+            line.startsWith('- LeakingItem: 0 -> 10 objects (+10), '),
+          ),
+        );
+      });
+    });
+  });
+
+  describe('get_memory_usage', () => {
+    it('reports memory usage', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await page.setContent(html`<div><span>one</span></div>`);
+        await getMemoryUsage.handler(
+          {params: {collectGarbage: true}},
+          response,
+          context,
+        );
+        assert.strictEqual(response.responseLines[0], '## Memory usage');
+        assert.match(
+          response.responseLines[1],
+          /^JS heap: [\d.]+ [kM]B used of /,
+        );
+        assert.match(response.responseLines[2], /^DOM nodes: [1-9]\d*$/);
+        assert.match(response.responseLines[3], /^Documents: [1-9]\d*$/);
+        assert.match(response.responseLines[4], /^JS event listeners: \d+$/);
+      });
+    });
+  });
+});
@@ -4,11 +4,20 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import assert from 'node:assert';
+import {readFile, writeFile} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
 import {describe, it} from 'node:test';
 
+import type {Har} from '../../src/har.js';
 import {
+  addNetworkRoute,
+  exportHar,
   getNetworkRequest,
   listNetworkRequests,
+  listNetworkRoutes,
+  removeNetworkRoute,
+  replayHar,
 } from '../../src/tools/network.js';
 import {serverHooks} from '../server.js';
 import {html, withBrowser, stabilizeResponseOutput} from '../utils.js';
@@ -162,4 +171,286 @@ describe('network', () => {
       });
     });
   });
+  describe('network routes', () => {
+    it('fulfills matching requests', async () => {
+      server.addHtmlRoute('/page', html`<main>Page</main>`);
+      await withBrowser(async (response, context) => {
+        await addNetworkRoute.handler(
+          {
+            params: {
+              url: '*/api/*',
+              action: 'fulfill',
+              status: 201,
+              headers: {'content-type': 'application/json'},
+              body: '{"mocked":true}',
+            },
+          },
+          response,
+          context,
+        );
+        const page = context.getSelectedPage();
+        await page.goto(server.getRoute('/page'));
+        const result = await page.evaluate(async () => {
+          const res = await fetch('/api/data');
+          return {status: res.status, body: await res.text()};
+        });
+        assert.deepStrictEqual(result, {status: 201, body: '{"mocked":true}'});
+        assert.strictEqual(context.getNetworkRoutes()[0].hitCount, 1);
+      });
+    });
+
+    it('aborts matching requests', async () => {
+      server.addHtmlRoute('/page', html`<main>Page</main>`);
+      await withBrowser(async (response, context) => {
+        await addNetworkRoute.handler(
+          {
+            params: {
+              url: '/\\/api\\/data$/',
+              action: 'abort',
+              errorReason: 'blockedbyclient',
+            },
+          },
+          response,
+          context,
+        );
+        const page = context.getSelectedPage();
+        await page.goto(server.getRoute('/page'));
+        const failed = await page.evaluate(async () => {
+          try {
+            await fetch('/api/data');
+            return false;
+          } catch {
+            return true;
+          }
+        });
+        assert.ok(failed);
+      });
+    });
+
+    it('continues matching requests with modified headers', async () => {
+      server.addHtmlRoute('/page', html`<main>Page</main>`);
+      server.addRoute('/echo', (req, res) => {
+        res.end(req.headers['x-test'] ?? '');
+      });
+      await withBrowser(async (response, context) => {
+        await addNetworkRoute.handler(
+          {
+            params: {
+              url: '*/echo',
+              action: 'continue',
+              headers: {'x-test': 'routed'},
+            },
+          },
+          response,
+          context,
+        );
+        const page = context.getSelectedPage();
+        await page.goto(server.getRoute('/page'));
+        const body = await page.evaluate(async () => {
+          return await (await fetch('/echo')).text();
+        });
+        assert.strictEqual(body, 'routed');
+      });
+    });
+
+    it('marks matched requests in the request list', async () => {
+      server.addHtmlRoute('/page', html`<main>Page</main>`);
+      await withBrowser(async (response, context) => {
+        await context.setUpNetworkCollectorForTesting();
+        await addNetworkRoute.handler(
+          {params: {url: '*/page', action: 'fulfill', body: 'mocked'}},
+          response,
+          context,
+        );
+        const page = context.getSelectedPage();
+        await page.goto(server.getRoute('/page'));
+        response.resetResponseLineForTesting();
+        await listNetworkRequests.handler({params: {}}, response, context);
+        const responseData = await response.handle('list_request', context);
+        assert.ok(
+          (responseData[0].text as string).includes('[fulfill by routeid=1]'),
+        );
+      });
+    });
+
+    it('lists and removes routes', async () => {
+      await withBrowser(async (response, context) => {
+        await addNetworkRoute.handler(
+          {params: {url: '*.png', action: 'abort'}},
+          response,
+          context,
+        );
+        await addNetworkRoute.handler(
+          {params: {url: '*/api/*', action: 'fulfill', status: 404}},
+          response,
+          context,
+        );
+        response.resetResponseLineForTesting();
+        await listNetworkRoutes.handler({params: {}}, response, context);
+        assert.deepStrictEqual(response.responseLines, [
+          '## Network routes',
+          'routeid=1 abort *.png errorReason=failed (hits: 0)',
+          'routeid=2 fulfill */api/* status=404 (hits: 0)',
+        ]);
+
+        response.resetResponseLineForTesting();
+        await removeNetworkRoute.handler(
+          {params: {routeId: 1}},
+          response,
+          context,
+        );
+        assert.deepStrictEqual(response.responseLines, [
+          'Removed network route 1.',
+          '## Network routes',
+          'routeid=2 fulfill */api/* status=404 (hits: 0)',
+        ]);
+      });
+    });
+
+    it('keeps routes across navigations', async () => {
+      server.addHtmlRoute('/one', html`<main>First</main>`);
+      server.addHtmlRoute('/two', html`<main>Second</main>`);
+      await withBrowser(async (response, context) => {
+        await addNetworkRoute.handler(
+          {params: {url: '*/api', action: 'fulfill', body: 'mocked'}},
+          response,
+          context,
+        );
+        const page = context.getSelectedPage();
+        for (const path of ['/one', '/two']) {
+          await page.goto(server.getRoute(path));
+          const body = await page.evaluate(async () => {
+            return await (await fetch('/api')).text();
+          });
+          assert.strictEqual(body, 'mocked');
+        }
+        assert.strictEqual(context.getNetworkRoutes()[0].hitCount, 2);
+      });
+    });
+  });
+
+  describe('HAR', () => {
+    it('exports requests with redirects and bodies', async () => {
+      server.addHtmlRoute('/page', html`<main>Page</main>`);
+      server.addRoute('/redirect', (_req, res) => {
+        res.writeHead(302, {location: '/data'});
+        res.end();
+      });
+      server.addRoute('/data', (_req, res) => {
+        res.setHeader('content-type', 'application/json');
+        res.end('{"recorded":true}');
+      });
+      await withBrowser(async (response, context) => {
+        await context.setUpNetworkCollectorForTesting();
+        const page = context.getSelectedPage();
+        await page.goto(server.getRoute('/page'));
+        await page.evaluate(async () => {
+          await (await fetch('/redirect')).text();
+        });
+        const filePath = join(tmpdir(), 'test-export.har');
+        await exportHar.handler({params: {filePath}}, response, context);
+        assert.deepStrictEqual(response.responseLines, [
+          `Exported 3 network requests to ${filePath}.`,
+        ]);
+        const har: Har = JSON.parse(await readFile(filePath, 'utf8'));
+        assert.strictEqual(har.log.version, '1.2');
+        const [document, redirect, data] = har.log.entries;
+        assert.strictEqual(document.request.url, server.getRoute('/page'));
+        assert.ok(
+          document.response.content.text?.includes('<main>Page</main>'),
+        );
+        assert.strictEqual(redirect.response.status, 302);
+        assert.strictEqual(redirect.response.redirectURL, '/data');
+        assert.strictEqual(data.request.url, server.getRoute('/data'));
+        assert.strictEqual(data.response.content.text, '{"recorded":true}');
+        assert.strictEqual(data.response.content.mimeType, 'application/json');
+        assert.ok(data.timings.wait >= 0);
+        assert.ok(!isNaN(Date.parse(data.startedDateTime)));
+      });
+    });
+
+    it('replays responses from a HAR file', async () => {
+      server.addHtmlRoute('/page', html`<main>Page</main>`);
+      server.addRoute('/data', (_req, res) => {
+        res.end('live');
+      });
+      const filePath = join(tmpdir(), 'test-replay.har');
+      const har: Har = {
+        log: {
+          version: '1.2',
+          creator: {name: 'test', version: ''},
+          entries: [
+            {
+              startedDateTime: new Date().toISOString(),
+              time: 0,
+              request: {
+                method: 'GET',
+                url: server.getRoute('/data'),
+                httpVersion: 'HTTP/1.1',
+                cookies: [],
+                headers: [],
+                queryString: [],
+                headersSize: -1,
+                bodySize: 0,
+              },
+              response: {
+                status: 200,
+                statusText: 'OK',
+                httpVersion: 'HTTP/1.1',
+                cookies: [],
+                headers: [{name: 'Content-Type', value: 'text/plain'}],
+                content: {
+                  size: 8,
+                  mimeType: 'text/plain',
+                  text: Buffer.from('recorded').toString('base64'),
+                  encoding: 'base64',
+                },
+                redirectURL: '',
+                headersSize: -1,
+                bodySize: 8,
+              },
+              cache: {},
+              timings: {
+                blocked: -1,
+                dns: -1,
+                connect: -1,
+                ssl: -1,
+                send: 0,
+                wait: 0,
+                receive: 0,
+              },
+            },
+          ],
+        },
+      };
+      await writeFile(filePath, JSON.stringify(har));
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await page.goto(server.getRoute('/page'));
+        await replayHar.handler(
+          {params: {filePath, url: '*/data*'}},
+          response,
+          context,
+        );
+        assert.deepStrictEqual(response.responseLines, [
+          `Replaying 1 recorded requests from ${filePath} with network route 1.`,
+          '## Network routes',
+          `routeid=1 replay */data* har=${filePath} (entries: 1) notFound=abort (hits: 0)`,
+        ]);
+        const result = await page.evaluate(async () => {
+          const recorded = await (await fetch('/data')).text();
+          try {
+            await fetch('/data?unknown');
+            return {recorded, notFoundAborted: false};
+          } catch {
+            return {recorded, notFoundAborted: true};
+          }
+        });
+        assert.deepStrictEqual(result, {
+          recorded: 'recorded',
+          notFoundAborted: true,
+        });
+      });
+    });
+  });
 });
@@ -4,12 +4,21 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import assert from 'node:assert';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
 import {describe, it, afterEach} from 'node:test';
+import zlib from 'node:zlib';
 
 import sinon from 'sinon';
 
 import {
   analyzeInsight,
+  compareTraces,
+  getWebVitals,
+  listTraces,
+  loadTrace,
+  saveTrace,
   startTrace,
   stopTrace,
 } from '../../src/tools/performance.js';
@@ -18,8 +27,11 @@ import {
   parseRawTraceBuffer,
   traceResultIsSuccess,
 } from '../../src/trace-processing/parse.js';
-import {loadTraceAsBuffer} from '../trace-processing/fixtures/load.js';
-import {withBrowser} from '../utils.js';
+import {
+  getFixturePath,
+  loadTraceAsBuffer,
+} from '../trace-processing/fixtures/load.js';
+import {html, withBrowser} from '../utils.js';
 
 describe('performance', () => {
   afterEach(() => {
@@ -119,6 +131,135 @@ describe('performance', () => {
       });
     });
 
+    it('records extra categories for the given duration', async () => {
+      const rawData = loadTraceAsBuffer('basic-trace.json.gz');
+      await withBrowser(async (response, context) => {
+        const selectedPage = context.getSelectedPage();
+        const startTracingStub = sinon.stub(selectedPage.tracing, 'start');
+        sinon.stub(selectedPage.tracing, 'stop').resolves(rawData);
+
+        const clock = sinon.useFakeTimers();
+        const handlerPromise = startTrace.handler(
+          {
+            params: {
+              reload: false,
+              autoStop: true,
+              durationMs: 10_000,
+              extraCategories: ['disabled-by-default-devtools.timeline.layers'],
+            },
+          },
+          response,
+          context,
+        );
+        await clock.tickAsync(9_000);
+        assert.ok(context.isRunningPerformanceTrace());
+        await clock.tickAsync(2_000);
+        await handlerPromise;
+        clock.restore();
+
+        assert.ok(
+          startTracingStub.firstCall.args[0]?.categories?.includes(
+            'disabled-by-default-devtools.timeline.layers',
+          ),
+        );
+        assert.strictEqual(context.isRunningPerformanceTrace(), false);
+        assert.strictEqual(context.recordedTraces().length, 1);
+      });
+    });
+
+    it('stops once the network is idle', async () => {
+      const rawData = loadTraceAsBuffer('basic-trace.json.gz');
+      await withBrowser(async (response, context) => {
+        const selectedPage = context.getSelectedPage();
+        sinon.stub(selectedPage.tracing, 'start');
+        sinon.stub(selectedPage.tracing, 'stop').resolves(rawData);
+        const waitForNetworkIdleStub = sinon
+          .stub(selectedPage, 'waitForNetworkIdle')
+          .resolves();
+
+        await startTrace.handler(
+          {params: {reload: false, autoStop: true, stopOn: 'networkIdle'}},
+          response,
+          context,
+        );
+
+        sinon.assert.calledOnceWithExactly(waitForNetworkIdleStub, {
+          idleTime: 500,
+          timeout: 30_000,
+        });
+        assert.strictEqual(context.recordedTraces().length, 1);
+      });
+    });
+
+    it('stops after the next interaction', async () => {
+      const rawData = loadTraceAsBuffer('basic-trace.json.gz');
+      await withBrowser(async (response, context) => {
+        const selectedPage = context.getSelectedPage();
+        await selectedPage.setContent('<button>test</button>');
+        sinon.stub(selectedPage.tracing, 'start');
+        const stopTracingStub = sinon
+          .stub(selectedPage.tracing, 'stop')
+          .resolves(rawData);
+
+        await startTrace.handler(
+          {params: {reload: false, autoStop: true, stopOn: 'interaction'}},
+          response,
+          context,
+        );
+        assert.ok(context.isRunningPerformanceTrace());
+        sinon.assert.notCalled(stopTracingStub);
+
+        await selectedPage.click('button');
+        while (context.isRunningPerformanceTrace()) {
+          await new Promise(resolve => setTimeout(resolve, 50));
+        }
+        sinon.assert.calledOnce(stopTracingStub);
+        assert.strictEqual(context.recordedTraces().length, 1);
+
+        response.resetResponseLineForTesting();
+        await stopTrace.handler({params: {}}, response, context);
+        assert.ok(
+          response.responseLines.includes(
+            'The performance trace has been stopped.',
+          ),
+        );
+      });
+    });
+
+    it('does not stop a newer trace after an interaction', async () => {
+      const rawData = loadTraceAsBuffer('basic-trace.json.gz');
+      await withBrowser(async (response, context) => {
+        const selectedPage = context.getSelectedPage();
+        sinon.stub(selectedPage.tracing, 'start');
+        const stopTracingStub = sinon
+          .stub(selectedPage.tracing, 'stop')
+          .resolves(rawData);
+
+        await startTrace.handler(
+          {
+            params: {
+              reload: false,
+              autoStop: true,
+              stopOn: 'interaction',
+              durationMs: 100,
+            },
+          },
+          response,
+          context,
+        );
+        await stopTrace.handler({params: {}}, response, context);
+        await startTrace.handler(
+          {params: {reload: false, autoStop: false}},
+          response,
+          context,
+        );
+
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        assert.ok(context.isRunningPerformanceTrace());
+        sinon.assert.calledOnce(stopTracingStub);
+      });
+    });
+
     it('errors if a recording is already active', async () => {
       await withBrowser(async (response, context) => {
         context.setIsRunningPerformanceTrace(true);
@@ -194,6 +335,50 @@ describe('performance', () => {
       });
     });
 
+    it('analyzes the trace with the given id', async () => {
+      const trace = await parseTrace('web-dev-with-commit.json.gz');
+      const otherTrace = await parseTrace('basic-trace.json.gz');
+      await withBrowser(async (response, context) => {
+        const {id} = context.storeTraceRecording(trace);
+        context.storeTraceRecording(otherTrace);
+
+        await analyzeInsight.handler(
+          {
+            params: {
+              insightSetId: 'NAVIGATION_0',
+              insightName: 'LCPBreakdown',
+              traceId: id,
+            },
+          },
+          response,
+          context,
+        );
+        assert.match(
+          response.responseLines[0],
+          /^## Insight Title: LCP breakdown/,
+        );
+      });
+    });
+
+    it('throws for unknown trace ids', async () => {
+      await withBrowser(async (response, context) => {
+        await assert.rejects(
+          analyzeInsight.handler(
+            {
+              params: {
+                insightSetId: 'NAVIGATION_0',
+                insightName: 'LCPBreakdown',
+                traceId: 42,
+              },
+            },
+            response,
+            context,
+          ),
+          /No trace with id 42 found/,
+        );
+      });
+    });
+
     it('returns an error if no trace has been recorded', async () => {
       await withBrowser(async (response, context) => {
         await analyzeInsight.handler(
@@ -275,4 +460,210 @@ describe('performance', () => {
       });
     });
   });
+
+  describe('performance_load_trace', () => {
+    it('loads a gzipped trace file', async () => {
+      await withBrowser(async (response, context) => {
+        const filePath = getFixturePath('basic-trace.json.gz');
+        await loadTrace.handler({params: {filePath}}, response, context);
+        assert.strictEqual(
+          response.responseLines[0],
+          `The performance trace has been loaded from ${filePath}.`,
+        );
+        assert.strictEqual(response.responseLines[1], 'Trace id: 1');
+        assert.match(
+          response.responseLines[2],
+          /^## Summary of Performance trace findings:/,
+        );
+        assert.strictEqual(context.recordedTraces().length, 1);
+      });
+    });
+
+    it('loads a JSON trace file', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'trace-'));
+      const filePath = path.join(dir, 'trace.json');
+      await fs.writeFile(filePath, loadTraceAsBuffer('basic-trace.json.gz'));
+      try {
+        await withBrowser(async (response, context) => {
+          await loadTrace.handler({params: {filePath}}, response, context);
+          assert.strictEqual(context.recordedTraces().length, 1);
+        });
+      } finally {
+        await fs.rm(dir, {recursive: true});
+      }
+    });
+
+    it('returns an error message if the file is not a trace', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'trace-'));
+      const filePath = path.join(dir, 'trace.json');
+      await fs.writeFile(filePath, 'not json');
+      try {
+        await withBrowser(async (response, context) => {
+          await loadTrace.handler({params: {filePath}}, response, context);
+          assert.strictEqual(
+            response.responseLines[0],
+            `There was an unexpected error parsing the trace in ${filePath}:`,
+          );
+          assert.strictEqual(context.recordedTraces().length, 0);
+        });
+      } finally {
+        await fs.rm(dir, {recursive: true});
+      }
+    });
+  });
+
+  describe('performance_list_traces', () => {
+    it('lists the stored traces', async () => {
+      await withBrowser(async (response, context) => {
+        const result = {} as unknown as TraceResult;
+        context.storeTraceRecording(
+          result,
+          'Recorded on https://example.com/',
+          new Uint8Array(),
+        );
+        context.storeTraceRecording(result, 'Loaded from trace.json');
+        await listTraces.handler({params: {}}, response, context);
+        assert.deepStrictEqual(response.responseLines, [
+          'traceId=1 Recorded on https://example.com/',
+          'traceId=2 Loaded from trace.json (raw events discarded, cannot be saved)',
+        ]);
+      });
+    });
+  });
+
+  describe('performance_save_trace', () => {
+    it('saves the raw events of a trace', async () => {
+      const rawData = loadTraceAsBuffer('basic-trace.json.gz');
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'trace-'));
+      const filePath = path.join(dir, 'trace.json.gz');
+      try {
+        await withBrowser(async (response, context) => {
+          const result = {} as unknown as TraceResult;
+          const {id} = context.storeTraceRecording(result, 'Test', rawData);
+          context.storeTraceRecording(result, 'Other test', new Uint8Array());
+          await saveTrace.handler(
+            {params: {filePath, traceId: id}},
+            response,
+            context,
+          );
+          assert.strictEqual(
+            response.responseLines[0],
+            `Saved trace 1 to ${filePath}.`,
+          );
+          assert.deepStrictEqual(
+            new Uint8Array(zlib.gunzipSync(await fs.readFile(filePath))),
+            rawData,
+          );
+        });
+      } finally {
+        await fs.rm(dir, {recursive: true});
+      }
+    });
+
+    it('throws if the raw events were discarded', async () => {
+      await withBrowser(async (response, context) => {
+        context.storeTraceRecording({} as unknown as TraceResult);
+        await assert.rejects(
+          saveTrace.handler(
+            {params: {filePath: 'trace.json'}},
+            response,
+            context,
+          ),
+          /The raw events of trace 1 are no longer available/,
+        );
+      });
+    });
+  });
+
+  describe('performance_compare_traces', () => {
+    it('compares two traces', async () => {
+      const before = await parseRawTraceBuffer(
+        loadTraceAsBuffer('basic-trace.json.gz'),
+      );
+      const after = await parseRawTraceBuffer(
+        loadTraceAsBuffer('web-dev-with-commit.json.gz'),
+      );
+      assert.ok(traceResultIsSuccess(before) && traceResultIsSuccess(after));
+      await withBrowser(async (response, context) => {
+        context.storeTraceRecording(before, 'Before');
+        context.storeTraceRecording(after, 'After');
+        await compareTraces.handler(
+          {params: {beforeTraceId: 1}},
+          response,
+          context,
+        );
+        assert.strictEqual(
+          response.responseLines[0],
+          '# Comparison of trace 1 (Before) with trace 2 (After)',
+        );
+        assert.match(response.responseLines[1], /^## Core Web Vitals/);
+      });
+    });
+
+    it('throws when comparing a trace with itself', async () => {
+      await withBrowser(async (response, context) => {
+        context.storeTraceRecording({} as unknown as TraceResult);
+        await assert.rejects(
+          compareTraces.handler(
+            {params: {beforeTraceId: 1, afterTraceId: 1}},
+            response,
+            context,
+          ),
+          /Provide the ids of two different traces to compare/,
+        );
+      });
+    });
+  });
+
+  describe('get_web_vitals', () => {
+    it('reports the web vitals of the page', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await page.setContent(html`<h1>Largest text</h1>`);
+        await context.createTextSnapshot();
+        await getWebVitals.handler({params: {}}, response, context);
+
+        const output = response.responseLines.join('\n');
+        assert.match(output, /^## Web vitals for /);
+        assert.match(output, /LCP: \d+ ms \(good\)\n- Element: uid=1_1 \(h1\)/);
+        assert.match(output, /CLS: 0.00 \(good\)/);
+        assert.match(output, /INP: no interactions yet/);
+      });
+    });
+
+    it('keeps collecting after navigations', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await getWebVitals.handler({params: {}}, response, context);
+        await page.goto(
+          'data:text/html,<p onclick="const end = Date.now() + 100; while (Date.now() < end);">Navigated</p>',
+        );
+        await page.locator('p').click();
+
+        response.resetResponseLineForTesting();
+        await getWebVitals.handler({params: {}}, response, context);
+        const output = response.responseLines.join('\n');
+        assert.match(output, /^## Web vitals for data:text\/html/);
+        assert.match(output, /INP: \d+ ms .*\n- Interaction: \w+ on p/);
+      });
+    });
+
+    it('reports when the collector does not run in the document', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await getWebVitals.handler({params: {}}, response, context);
+        await page.evaluate(() => {
+          delete (globalThis as Record<string, unknown>)[
+            '__chromeDevToolsMcpWebVitals'
+          ];
+        });
+
+        response.resetResponseLineForTesting();
+        await getWebVitals.handler({params: {}}, response, context);
+        assert.deepStrictEqual(response.responseLines, [
+          'No web vitals collected yet.',
+        ]);
+      });
+    });
+  });
 });
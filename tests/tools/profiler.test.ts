@@ -0,0 +1,68 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert';
+import {mkdtemp, readFile} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {describe, it} from 'node:test';
+
+import {startCpuProfile, stopCpuProfile} from '../../src/tools/profiler.js';
+import {serverHooks} from '../server.js';
+import {html, withBrowser} from '../utils.js';
+
+describe('profiler', () => {
+  const server = serverHooks();
+
+  it('records a CPU profile', async () => {
+    server.addHtmlRoute('/page', html`<script src="/app.js"></script>`);
+    server.addRoute('/app.js', (_req, res) => {
+      res.setHeader('content-type', 'text/javascript');
+      res.end(
+        'function busyLoop() { const end = Date.now() + 200; while (Date.now() < end); }',
+      );
+    });
+    await withBrowser(async (response, context) => {
+      const page = context.getSelectedPage();
+      await page.goto(server.getRoute('/page'));
+      await startCpuProfile.handler(
+        {params: {samplingIntervalUs: 100}},
+        response,
+        context,
+      );
+      assert.ok(context.getCpuProfiler().isRunning());
+      await page.evaluate('busyLoop()');
+
+      response.resetResponseLineForTesting();
+      const dir = await mkdtemp(join(tmpdir(), 'profile-'));
+      const filePath = join(dir, 'page.cpuprofile');
+      await stopCpuProfile.handler({params: {filePath}}, response, context);
+      assert.strictEqual(context.getCpuProfiler().isRunning(), false);
+
+      const output = response.responseLines.join('\n');
+      assert.ok(output.startsWith(`Saved the CPU profile to ${filePath}.`));
+      assert.match(
+        output,
+        /## Bottom-up \(self time\)\n(.*\n)*- [\d.]+ ms self, [\d.]+ ms total: busyLoop \(http:\/\/.*\/app\.js:1:\d+\)/,
+      );
+      assert.match(output, /## Top-down \(total time\)\n/);
+      const profile = JSON.parse(await readFile(filePath, 'utf8'));
+      assert.ok(profile.nodes.length > 0);
+    });
+  });
+
+  it('throws if no CPU profile is being recorded', async () => {
+    await withBrowser(async (response, context) => {
+      await assert.rejects(
+        stopCpuProfile.handler(
+          {params: {filePath: join(tmpdir(), 'unused.cpuprofile')}},
+          response,
+          context,
+        ),
+        /No CPU profile is being recorded/,
+      );
+    });
+  });
+});
@@ -6,7 +6,12 @@
 import assert from 'node:assert';
 import {describe, it} from 'node:test';
 
-import {takeSnapshot, waitFor} from '../../src/tools/snapshot.js';
+import {
+  findElements,
+  getElementStyles,
+  takeSnapshot,
+  waitFor,
+} from '../../src/tools/snapshot.js';
 import {html, withBrowser} from '../utils.js';
 
 describe('snapshot', () => {
@@ -18,6 +23,128 @@ describe('snapshot', () => {
       });
     });
   });
+  describe('find_elements', () => {
+    it('finds elements by role, name and landmark', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await page.setContent(
+          html`<nav><a href="#">Home</a><a href="#">Docs</a></nav>
+            <main>
+              <a href="#">Home page</a>
+              <input
+                type="checkbox"
+                aria-label="Agree"
+                checked
+              />
+            </main>`,
+        );
+        await findElements.handler(
+          {params: {role: 'link', name: 'home', landmark: 'main'}},
+          response,
+          context,
+        );
+        assert.deepStrictEqual(response.responseLines.length, 2);
+        assert.strictEqual(response.responseLines[0], '## Found elements');
+        assert.match(
+          response.responseLines[1],
+          /^uid=1_\d+ link "Home page" .*\(in main\)$/,
+        );
+
+        response.resetResponseLineForTesting();
+        await findElements.handler(
+          {params: {checked: true}},
+          response,
+          context,
+        );
+        assert.match(
+          response.responseLines[1],
+          /^uid=1_\d+ checkbox "Agree" .*checked/,
+        );
+
+        response.resetResponseLineForTesting();
+        await findElements.handler(
+          {params: {role: 'link', maxResults: 1}},
+          response,
+          context,
+        );
+        assert.deepStrictEqual(response.responseLines.slice(0, 2), [
+          '## Found elements',
+          'Showing 1 of 3 elements. Narrow down the query or increase maxResults to see more.',
+        ]);
+      });
+    });
+
+    it('finds elements added since the previous call', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await page.setContent(html`<button>First</button>`);
+        await findElements.handler(
+          {params: {role: 'button'}},
+          response,
+          context,
+        );
+        await page.evaluate(() => {
+          const button = document.createElement('button');
+          button.textContent = 'Second';
+          document.body.append(button);
+        });
+
+        response.resetResponseLineForTesting();
+        await findElements.handler(
+          {params: {role: 'button', name: 'second'}},
+          response,
+          context,
+        );
+        assert.match(response.responseLines[1], /^uid=\d+_\d+ button "Second"/);
+      });
+    });
+  });
+
+  describe('get_element_styles', () => {
+    it('returns the computed style and matched rules', async () => {
+      await withBrowser(async (response, context) => {
+        const page = context.getSelectedPage();
+        await page.setContent(
+          html`<style>
+              body {
+                color: green;
+                font-size: 20px;
+              }
+              .button {
+                color: blue;
+                padding: 4px;
+              }
+            </style>
+            <button
+              class="button"
+              style="color: red"
+              >Submit</button
+            >`,
+        );
+        await context.createTextSnapshot();
+        await getElementStyles.handler(
+          {params: {uid: '1_1', properties: ['color', 'font-size']}},
+          response,
+          context,
+        );
+        const output = response.responseLines.join('\n');
+        assert.ok(output.includes('color: rgb(255, 0, 0)'), output);
+        assert.ok(output.includes('### element.style\n  color: red;'), output);
+        assert.ok(output.includes('  color: blue; /* overridden */'), output);
+        assert.ok(output.includes('## Inherited from'), output);
+        assert.ok(!output.includes('padding'), output);
+      });
+    });
+
+    it('reports when nothing is selected in DevTools', async () => {
+      await withBrowser(async (response, context) => {
+        await getElementStyles.handler({params: {}}, response, context);
+        assert.deepStrictEqual(response.responseLines, [
+          'Nothing is currently selected in the DevTools Elements panel.',
+        ]);
+      });
+    });
+  });
   describe('browser_wait_for', () => {
     it('should work', async () => {
       await withBrowser(async (response, context) => {
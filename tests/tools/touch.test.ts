@@ -0,0 +1,131 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert';
+import {describe, it} from 'node:test';
+
+import {longPress, pinch, swipe, tap} from '../../src/tools/touch.js';
+import {html, withBrowser} from '../utils.js';
+
+const TOUCH_LOG = html`<div
+    id="target"
+    style="width: 300px; height: 300px"
+  ></div>
+  <script>
+    window.touchLog = [];
+    const target = document.getElementById('target');
+    for (const type of ['touchstart', 'touchmove', 'touchend']) {
+      target.addEventListener(type, event => {
+        window.touchLog.push({
+          type,
+          touches: [...event.touches].map(touch => [
+            Math.round(touch.clientX),
+            Math.round(touch.clientY),
+          ]),
+          time: event.timeStamp,
+        });
+      });
+    }
+  </script>`;
+
+describe('touch', () => {
+  it('taps on an element', async () => {
+    await withBrowser(async (response, context) => {
+      const page = context.getSelectedPage();
+      await page.setContent(
+        html`<button ontouchend="this.innerText = 'tapped';">test</button>`,
+      );
+      await context.createTextSnapshot();
+      await tap.handler({params: {uid: '1_1'}}, response, context);
+      assert.match(response.responseLines[0], /^Successfully tapped at/);
+      assert.ok(response.includeSnapshot);
+      assert.ok(await page.$('text/tapped'));
+      assert.ok(await page.evaluate(() => navigator.maxTouchPoints > 0));
+    });
+  });
+
+  it('requires a target', async () => {
+    await withBrowser(async (response, context) => {
+      await assert.rejects(
+        tap.handler({params: {x: 10}}, response, context),
+        /Provide either a uid or both x and y/,
+      );
+    });
+  });
+
+  it('long presses', async () => {
+    await withBrowser(async (response, context) => {
+      const page = context.getSelectedPage();
+      await page.setContent(TOUCH_LOG);
+      await longPress.handler(
+        {params: {x: 50, y: 50, durationMs: 500}},
+        response,
+        context,
+      );
+      const log = await page.evaluate(() => {
+        return (window as unknown as {touchLog: Array<{time: number}>})
+          .touchLog;
+      });
+      assert.strictEqual(log.length, 2);
+      assert.ok(log[1].time - log[0].time >= 450);
+    });
+  });
+
+  it('swipes', async () => {
+    await withBrowser(async (response, context) => {
+      const page = context.getSelectedPage();
+      await page.setContent(TOUCH_LOG);
+      await swipe.handler(
+        {params: {x: 250, y: 100, direction: 'left', distance: 200}},
+        response,
+        context,
+      );
+      assert.strictEqual(
+        response.responseLines[0],
+        'Successfully swiped left from (250, 100) to (50, 100)',
+      );
+      const log = await page.evaluate(() => {
+        return (
+          window as unknown as {
+            touchLog: Array<{type: string; touches: number[][]}>;
+          }
+        ).touchLog;
+      });
+      assert.strictEqual(log[0].type, 'touchstart');
+      assert.deepStrictEqual(log[0].touches, [[250, 100]]);
+      const lastMove = log.findLast(entry => entry.type === 'touchmove');
+      assert.deepStrictEqual(lastMove?.touches, [[50, 100]]);
+      assert.strictEqual(log.at(-1)?.type, 'touchend');
+    });
+  });
+
+  it('pinches', async () => {
+    await withBrowser(async (response, context) => {
+      const page = context.getSelectedPage();
+      await page.setContent(TOUCH_LOG);
+      await pinch.handler(
+        {params: {x: 150, y: 150, scale: 2}},
+        response,
+        context,
+      );
+      const log = await page.evaluate(() => {
+        return (
+          window as unknown as {
+            touchLog: Array<{type: string; touches: number[][]}>;
+          }
+        ).touchLog;
+      });
+      assert.deepStrictEqual(log[0].touches, [
+        [100, 150],
+        [200, 150],
+      ]);
+      const lastMove = log.findLast(entry => entry.type === 'touchmove');
+      assert.deepStrictEqual(lastMove?.touches, [
+        [50, 150],
+        [250, 150],
+      ]);
+    });
+  });
+});
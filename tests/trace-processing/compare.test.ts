@@ -0,0 +1,93 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert';
+import {describe, it} from 'node:test';
+
+import {compareTraces} from '../../src/trace-processing/compare.js';
+import type {TraceResult} from '../../src/trace-processing/parse.js';
+import {
+  parseRawTraceBuffer,
+  traceResultIsSuccess,
+} from '../../src/trace-processing/parse.js';
+
+import '../../src/DevtoolsUtils.js';
+
+import {loadTraceAsBuffer} from './fixtures/load.js';
+
+async function parseTrace(fileName: string): Promise<TraceResult> {
+  const result = await parseRawTraceBuffer(loadTraceAsBuffer(fileName));
+  if (!traceResultIsSuccess(result)) {
+    assert.fail(`Unexpected parse failure: ${result.error}`);
+  }
+  return result;
+}
+
+function getInsightModels(
+  result: TraceResult,
+): Record<string, {state?: string} | Error> {
+  const [insightSet] = result.insights?.values() ?? [];
+  assert.ok(insightSet);
+  return insightSet.model as unknown as Record<
+    string,
+    {state?: string} | Error
+  >;
+}
+
+describe('Trace comparison', () => {
+  it('reports no changes for the same trace', async () => {
+    const trace = await parseTrace('web-dev-with-commit.json.gz');
+    const output = compareTraces(trace, trace);
+    assert.match(
+      output,
+      /^## Core Web Vitals\n- LCP: \d+ ms -> \d+ ms \(\+0 ms\)/,
+    );
+    assert.match(output, /## Insights\nBoth traces have the same insights./);
+    assert.match(output, /## Main thread time by category\n- \w+: /);
+    assert.match(
+      output,
+      /## Largest changes in network requests\nNo network requests changed.$/,
+    );
+  });
+
+  it('reports the changes between two traces', async () => {
+    const before = await parseTrace('basic-trace.json.gz');
+    const after = await parseTrace('web-dev-with-commit.json.gz');
+    const output = compareTraces(before, after);
+    assert.match(output, /- LCP: (n\/a|\d+ ms) -> \d+ ms/);
+    assert.match(output, /## Insights\nOnly in the (first|second) trace: /);
+    assert.match(
+      output,
+      /## Largest changes in network requests\n- https?:\/\//,
+    );
+  });
+
+  it('only counts failing and informative insights', async () => {
+    const before = await parseTrace('web-dev-with-commit.json.gz');
+    const after = await parseTrace('web-dev-with-commit.json.gz');
+    // The metrics are read from these insights.
+    const metricInsights = ['LCPBreakdown', 'INPBreakdown', 'CLSCulprits'];
+    const names = Object.keys(getInsightModels(before)).filter(
+      name => !metricInsights.includes(name),
+    );
+    for (const result of [before, after]) {
+      const models = getInsightModels(result);
+      for (const name of names) {
+        models[name] = {...models[name], state: 'pass'};
+      }
+    }
+    const [errored, withoutState, informative] = names;
+    const models = getInsightModels(after);
+    models[errored] = new Error('Insight failed');
+    models[withoutState] = {...models[withoutState], state: undefined};
+    models[informative] = {...models[informative], state: 'informative'};
+
+    const output = compareTraces(before, after);
+    assert.match(
+      output,
+      new RegExp(`## Insights\nOnly in the second trace: ${informative}\n`),
+    );
+  });
+});
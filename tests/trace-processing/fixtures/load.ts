@@ -8,6 +8,24 @@ import fs from 'node:fs';
 import path from 'node:path';
 import zlib from 'node:zlib';
 
+/**
+ * Returns the path of a fixture file in the source tree.
+ */
+export function getFixturePath(fileName: string): string {
+  return path.join(
+    import.meta.dirname,
+    // Get back up to the root directory as fixtures aren't moved ito the build/ dir.
+    '..',
+    '..',
+    '..',
+    '..',
+    'tests',
+    'trace-processing',
+    'fixtures',
+    fileName,
+  );
+}
+
 /**
  * Reads a gzipped JSON file, decompresses it, parses the JSON,
  * and returns a Uint8Array buffer of the parsed data.
@@ -16,20 +34,7 @@ import zlib from 'node:zlib';
  */
 export function loadTraceAsBuffer(filePath: string): Uint8Array {
   try {
-    const compressedData = fs.readFileSync(
-      path.join(
-        import.meta.dirname,
-        // Get back up to the root directory as fixtures aren't moved ito the build/ dir.
-        '..',
-        '..',
-        '..',
-        '..',
-        'tests',
-        'trace-processing',
-        'fixtures',
-        filePath,
-      ),
-    );
+    const compressedData = fs.readFileSync(getFixturePath(filePath));
     const decompressedData = zlib.gunzipSync(compressedData);
     const jsonString = decompressedData.toString('utf-8');
     const jsonObject = JSON.parse(jsonString);
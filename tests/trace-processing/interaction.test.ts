@@ -0,0 +1,32 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert';
+import {describe, it} from 'node:test';
+
+import {getInteractionBreakdown} from '../../src/trace-processing/interaction.js';
+import {
+  parseRawTraceBuffer,
+  traceResultIsSuccess,
+} from '../../src/trace-processing/parse.js';
+
+import '../../src/DevtoolsUtils.js';
+
+import {loadTraceAsBuffer} from './fixtures/load.js';
+
+describe('Interaction breakdown', () => {
+  it('reports traces without interactions', async () => {
+    const result = await parseRawTraceBuffer(
+      loadTraceAsBuffer('basic-trace.json.gz'),
+    );
+    if (!traceResultIsSuccess(result)) {
+      assert.fail(`Unexpected parse failure: ${result.error}`);
+    }
+    assert.strictEqual(
+      getInteractionBreakdown(result),
+      'No interaction was recorded in the trace.',
+    );
+  });
+});
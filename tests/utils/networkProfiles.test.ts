@@ -0,0 +1,75 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert';
+import {describe, it} from 'node:test';
+
+import {PredefinedNetworkConditions} from '../../src/third_party/index.js';
+import {
+  getNetworkMultiplier,
+  parseNetworkProfiles,
+} from '../../src/utils/networkProfiles.js';
+
+describe('networkProfiles', () => {
+  describe('getNetworkMultiplier', () => {
+    it('does not scale timeouts without throttling', () => {
+      assert.strictEqual(getNetworkMultiplier(null), 1);
+      assert.strictEqual(
+        getNetworkMultiplier(PredefinedNetworkConditions['Fast 4G']),
+        1,
+      );
+      assert.strictEqual(
+        getNetworkMultiplier({download: -1, upload: -1, latency: 0}),
+        1,
+      );
+    });
+
+    it('scales timeouts by the download throughput', () => {
+      assert.strictEqual(
+        getNetworkMultiplier(PredefinedNetworkConditions['Slow 3G']),
+        20.25,
+      );
+    });
+
+    it('scales timeouts by the latency', () => {
+      assert.strictEqual(
+        getNetworkMultiplier({download: -1, upload: -1, latency: 1650}),
+        10,
+      );
+    });
+  });
+
+  describe('parseNetworkProfiles', () => {
+    it('parses profiles', () => {
+      assert.deepStrictEqual(
+        parseNetworkProfiles(
+          '{"Satellite": {"download": 100000, "upload": 50000, "latency": 600, "packetLoss": 2}}',
+        ),
+        {
+          Satellite: {
+            download: 100000,
+            upload: 50000,
+            latency: 600,
+            packetLoss: 2,
+          },
+        },
+      );
+    });
+
+    it('throws for invalid profiles', () => {
+      assert.throws(
+        () =>
+          parseNetworkProfiles(
+            '{"Lossy": {"download": 1000, "upload": 1000, "latency": 10, "packetLoss": 200}}',
+          ),
+        /Lossy.packetLoss: /,
+      );
+      assert.throws(
+        () => parseNetworkProfiles('{"Slow": {"download": 1000}}'),
+        /Slow.upload: .*Slow.latency: /,
+      );
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import assert from 'node:assert';
+import {describe, it} from 'node:test';
+
+import type {ElementHandle} from 'puppeteer-core';
+
+import {formatSnapshotMatch} from '../../src/formatters/snapshotFormatter.js';
+import type {TextSnapshotNode} from '../../src/McpContext.js';
+import {findSnapshotNodes} from '../../src/utils/snapshotQuery.js';
+
+function createNode(
+  id: string,
+  properties: Partial<TextSnapshotNode>,
+  children: TextSnapshotNode[] = [],
+): TextSnapshotNode {
+  return {
+    id,
+    role: 'generic',
+    ...properties,
+    children,
+    elementHandle: async (): Promise<ElementHandle<Element> | null> => {
+      return null;
+    },
+  };
+}
+
+describe('snapshotQuery', () => {
+  const root = createNode('1_0', {role: 'RootWebArea', name: 'page'}, [
+    createNode('1_1', {role: 'navigation'}, [
+      createNode('1_2', {role: 'link', name: 'Home'}),
+    ]),
+    createNode('1_3', {role: 'main'}, [
+      createNode('1_4', {role: 'form', name: 'Login'}, [
+        createNode('1_5', {role: 'textbox', name: 'User', focused: true}),
+        createNode('1_6', {role: 'checkbox', name: 'Remember', checked: false}),
+        createNode('1_7', {role: 'button', name: 'Sign in', disabled: true}),
+      ]),
+      createNode('1_8', {role: 'link', name: 'Home page'}),
+    ]),
+  ]);
+
+  function findUids(query: Parameters<typeof findSnapshotNodes>[1]) {
+    return findSnapshotNodes(root, query).map(match => match.node.id);
+  }
+
+  it('finds nodes by role and name', () => {
+    assert.deepStrictEqual(findUids({role: 'LINK', name: 'home'}), [
+      '1_2',
+      '1_8',
+    ]);
+    assert.deepStrictEqual(findUids({nameRegex: /^home$/i}), ['1_2']);
+  });
+
+  it('finds nodes by state', () => {
+    assert.deepStrictEqual(findUids({focused: true}), ['1_5']);
+    assert.deepStrictEqual(findUids({disabled: true}), ['1_7']);
+    assert.deepStrictEqual(findUids({checked: false}), ['1_6']);
+  });
+
+  it('finds nodes by landmark', () => {
+    assert.deepStrictEqual(findUids({role: 'link', landmark: 'main'}), ['1_8']);
+    assert.deepStrictEqual(findUids({landmark: 'login'}), [
+      '1_5',
+      '1_6',
+      '1_7',
+    ]);
+  });
+
+  it('formats matches with their landmarks', () => {
+    const [match] = findSnapshotNodes(root, {role: 'button'});
+    assert.strictEqual(
+      formatSnapshotMatch(match),
+      'uid=1_7 button "Sign in" disableable disabled (in main > form "Login")',
+    );
+  });
+});
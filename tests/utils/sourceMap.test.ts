@@ -0,0 +1,102 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import assert from 'node:assert';
+import {describe, it} from 'node:test';
+
+import {decodeVlqSegment, SourceMap} from '../../src/utils/sourceMap.js';
+
+describe('sourceMap', () => {
+  describe('decodeVlqSegment', () => {
+    it('decodes positive, negative and multi-digit values', () => {
+      assert.deepStrictEqual(decodeVlqSegment('AAAA'), [0, 0, 0, 0]);
+      assert.deepStrictEqual(decodeVlqSegment('IACD'), [4, 0, 1, -1]);
+      assert.deepStrictEqual(decodeVlqSegment('gB'), [16]);
+    });
+
+    it('throws for invalid characters', () => {
+      assert.throws(() => decodeVlqSegment('A!'), {
+        message: 'Invalid base64 character "!" in source map',
+      });
+    });
+  });
+
+  describe('SourceMap', () => {
+    const sourceMap = new SourceMap(
+      {
+        version: 3,
+        sourceRoot: 'src/',
+        sources: ['a.ts', 'b.ts'],
+        sourcesContent: ['const a = 1;', null],
+        names: ['add'],
+        mappings: 'AAAAA,IACA;AAEA,ICAA',
+      },
+      'http://example.com/dist/app.js.map',
+    );
+
+    it('resolves sources against the source map URL', () => {
+      assert.deepStrictEqual(sourceMap.sources(), [
+        'http://example.com/dist/src/a.ts',
+        'http://example.com/dist/src/b.ts',
+      ]);
+      assert.strictEqual(
+        sourceMap.sourceContent('http://example.com/dist/src/a.ts'),
+        'const a = 1;',
+      );
+      assert.strictEqual(
+        sourceMap.sourceContent('http://example.com/dist/src/b.ts'),
+        undefined,
+      );
+    });
+
+    it('finds original locations', () => {
+      assert.deepStrictEqual(sourceMap.findOriginalLocation(0, 2), {
+        source: 'http://example.com/dist/src/a.ts',
+        lineNumber: 0,
+        columnNumber: 0,
+        name: 'add',
+      });
+      assert.deepStrictEqual(sourceMap.findOriginalLocation(0, 10), {
+        source: 'http://example.com/dist/src/a.ts',
+        lineNumber: 1,
+        columnNumber: 0,
+        name: undefined,
+      });
+      assert.deepStrictEqual(sourceMap.findOriginalLocation(1, 4), {
+        source: 'http://example.com/dist/src/b.ts',
+        lineNumber: 3,
+        columnNumber: 0,
+        name: undefined,
+      });
+      assert.strictEqual(sourceMap.findOriginalLocation(5, 0), undefined);
+    });
+
+    it('supports index maps', () => {
+      const indexMap = new SourceMap(
+        {
+          version: 3,
+          sections: [
+            {
+              offset: {line: 0, column: 0},
+              map: {version: 3, sources: ['a.ts'], mappings: 'AAAA'},
+            },
+            {
+              offset: {line: 2, column: 10},
+              map: {version: 3, sources: ['b.ts'], mappings: 'AAEA'},
+            },
+          ],
+        },
+        'http://example.com/app.js.map',
+      );
+      assert.deepStrictEqual(indexMap.findOriginalLocation(2, 12), {
+        source: 'http://example.com/b.ts',
+        lineNumber: 2,
+        columnNumber: 0,
+        name: undefined,
+      });
+      assert.strictEqual(indexMap.findOriginalLocation(2, 5), undefined);
+    });
+  });
+});